@@ -1,37 +1,195 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GoogleGenAI, Modality } from '@google/genai';
-import { ConnectionStatus, TranscriptionEntry, AppMode } from './types';
-import { decode, decodeAudioData, createBlob } from './services/audio-helpers';
+import { ConnectionStatus, TranscriptionEntry, AppMode, ConversationSession, LanguagePair, InputMode, InputSettings, StandbySettings, Mood, EntryAudio, GlossarySet, SessionSettings, Formality, PartyId, PartialTranscript, CaptionSettings, Scenario, PracticeReport, PrivacySettings } from './types';
+import { decode, chunkToFloat32, joinPcmChunks, pcmChunkSeconds } from './services/audio-helpers';
+import { AudioCapture, startAudioCapture } from './services/audio-capture';
+import { getTranslationProvider } from './services/providers';
+import { CredentialSettings, createCredentialProvider, loadCredentialSettings, saveCredentialSettings } from './services/credentials';
+import { SessionRecorder, createSessionRecorder, saveRecording } from './services/session-recorder';
+import { MetricsCollector, SessionMetrics, createMetricsCollector, saveSessionMetrics } from './services/session-metrics';
+import { loadCaptionSettings, saveCaptionSettings } from './services/captions';
+import { buildScenarioInstruction, listScenarios, requestPracticeFeedback, savePracticeReport } from './services/scenarios';
+import { PlaybackState, createBargeInDetector, createPlaybackManager } from './services/playback';
+import { OutboxItem, OutboxResult, OutboxRunner, createOutboxItem, createOutboxRunner, listOutbox, translateClip } from './services/outbox';
+import { registerServiceWorker } from './services/service-worker';
+import { AudioChunk } from './services/translation-provider';
+import { IDLE_SESSION_STATE, SessionState, createSessionController } from './services/session-controller';
+import { clearPreferences, loadPreference, savePreference } from './services/preferences';
+import { loadPrivacySettings, redactEntries, redactPracticeReport, redactText, retentionCutoff, savePrivacySettings } from './services/privacy';
+import { LOCK_AFTER_HIDDEN_MS, PasscodeRecord, createPasscodeRecord, loadPasscode, savePasscode } from './services/passcode';
+import { eraseAllData } from './services/db';
+import { FORMALITY_LEVELS, buildAudioConstraints, buildPacePrompt, loadSessionSettings, saveSessionSettings } from './services/settings';
+import { DEFAULT_INPUT_SETTINGS, createInputGate } from './services/input-gate';
+import { classifyEmotion, createProsodyTracker } from './services/emotion';
+import { DEFAULT_STANDBY_SETTINGS, WakeWordModel, WakeWordDetector, createWakeWordDetector, loadWakeWordModel } from './services/wake-word';
+import { DEFAULT_BACKOFF } from './services/reconnect';
+import { Phrasebook, loadPhrasebook, translateOffline, supportsPair } from './services/phrasebook';
+import { DEFAULT_LANGUAGE_PAIR, buildInterpreterInstruction, buildTextInstruction, buildChatInstruction, buildRephraseInstruction, buildRegisterPrompt, detectLanguage, counterpart, pairName } from './services/languages';
+import { DEFAULT_PARTY_NAMES, PartyNames, attributeTurn, getParticipants, otherParty, toParticipantRef } from './services/participants';
+import { buildGlossaryInstruction, checkGlossary, listGlossaries } from './services/glossary';
+import { createSession, listSessions, getSessionEntries, appendEntries, getEntryAudio, saveEntryAudio, purgeExpiredHistory } from './services/history-store';
 import VoiceVisualizer from './components/VoiceVisualizer';
 import TranscriptionList from './components/TranscriptionList';
+import OfflineTranslator from './components/OfflineTranslator';
+import TextComposer from './components/TextComposer';
+import SessionBrowser from './components/SessionBrowser';
+import LanguagePairPicker from './components/LanguagePairPicker';
+import ReconnectBanner from './components/ReconnectBanner';
+import UpdateBanner from './components/UpdateBanner';
+import InputModeControls from './components/InputModeControls';
+import StandbyMenu from './components/StandbyMenu';
+import WakeWordSetup from './components/WakeWordSetup';
+import GlossaryManager from './components/GlossaryManager';
+import SettingsPanel from './components/SettingsPanel';
+import FaceToFaceView from './components/FaceToFaceView';
+import StatsPanel from './components/StatsPanel';
+import PlaybackControls from './components/PlaybackControls';
+import CaptionView from './components/CaptionView';
+import ScenarioManager from './components/ScenarioManager';
+import PracticeReportView from './components/PracticeReportView';
+import LockScreen from './components/LockScreen';
+
+// Fallback for "speak slower" when a slow re-read can't be fetched.
+const SLOW_PLAYBACK_RATE = 0.8;
+// Offline clips shorter than this are dropped; longer ones stop recording.
+const MIN_CLIP_SECONDS = 0.5;
+const MAX_CLIP_SECONDS = 60;
+// How often expired history is swept while the app stays open.
+const RETENTION_SWEEP_MS = 60 * 60 * 1000;
 
 const App: React.FC = () => {
-  const [status, setStatus] = useState<ConnectionStatus>(ConnectionStatus.IDLE);
+  const [sessionState, setSessionState] = useState<SessionState>(IDLE_SESSION_STATE);
+  const { status, errorMessage, micPermissionDenied, needsCredential, reconnect: reconnectInfo } = sessionState;
   const [mode, setMode] = useState<AppMode>(AppMode.TRANSLATE);
-  const [errorMessage, setErrorMessage] = useState<string>('');
-  const [micPermissionDenied, setMicPermissionDenied] = useState(false);
   
   const [translateHistory, setTranslateHistory] = useState<TranscriptionEntry[]>([]);
   const [chatHistory, setChatHistory] = useState<TranscriptionEntry[]>([]);
+  const [activeSessionIds, setActiveSessionIds] = useState<Record<AppMode, string | null>>({
+    [AppMode.TRANSLATE]: null,
+    [AppMode.CHAT]: null,
+  });
+  const [isBrowsingSessions, setIsBrowsingSessions] = useState(false);
+  const [isEditingGlossaries, setIsEditingGlossaries] = useState(false);
+  const [glossaries, setGlossaries] = useState<GlossarySet[]>([]);
   
-  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [playbackState, setPlaybackState] = useState<PlaybackState>('idle');
+  const [isMuted, setIsMuted] = useState(false);
   const [isAwake, setIsAwake] = useState(false);
   const [volume, setVolume] = useState(0);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
-  const [isPoliteMode, setIsPoliteMode] = useState(false);
-
-  const sessionRef = useRef<any>(null);
-  const isConnectingRef = useRef(false);
-  const inputAudioCtxRef = useRef<AudioContext | null>(null);
-  const outputAudioCtxRef = useRef<AudioContext | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const [settings, setSettings] = useState<SessionSettings>(loadSessionSettings);
+  const [credentialSettings, setCredentialSettings] = useState<CredentialSettings>(loadCredentialSettings);
+  const [privacy, setPrivacy] = useState<PrivacySettings>(loadPrivacySettings);
+  const [passcode, setPasscode] = useState<PasscodeRecord | null>(loadPasscode);
+  const [isLocked, setIsLocked] = useState(() => !!loadPasscode());
+  const [isEditingSettings, setIsEditingSettings] = useState(false);
+  const [isViewingStats, setIsViewingStats] = useState(false);
+  const [liveMetrics, setLiveMetrics] = useState<SessionMetrics | null>(null);
+  const [isPreviewingVoice, setIsPreviewingVoice] = useState(false);
+  const [partyNames, setPartyNames] = useState<PartyNames>(() => loadPreference('partyNames', DEFAULT_PARTY_NAMES));
+  const [isFaceToFace, setIsFaceToFace] = useState(() => loadPreference('faceToFace', false));
+  const [isCaptioning, setIsCaptioning] = useState(false);
+  const [captionSettings, setCaptionSettings] = useState<CaptionSettings>(loadCaptionSettings);
+  const [partialTranscript, setPartialTranscript] = useState<PartialTranscript | null>(null);
+  const [scenario, setScenario] = useState<Scenario | null>(null);
+  const [isPickingScenario, setIsPickingScenario] = useState(false);
+  const [practiceReport, setPracticeReport] = useState<PracticeReport | null>(null);
+  const [isCoaching, setIsCoaching] = useState(false);
+  const [languagePair, setLanguagePair] = useState<LanguagePair>(() => loadPreference('languagePair', DEFAULT_LANGUAGE_PAIR));
+  const [phrasebook, setPhrasebook] = useState<Phrasebook | null>(null);
+  const [offlineDraft, setOfflineDraft] = useState('');
+  const [offlineNotice, setOfflineNotice] = useState('');
+  const [inputSettings, setInputSettings] = useState<InputSettings>(() => loadPreference('input', DEFAULT_INPUT_SETTINGS));
+  const [isMicOpen, setIsMicOpen] = useState(inputSettings.mode === InputMode.CONTINUOUS);
+  const [standbySettings, setStandbySettings] = useState<StandbySettings>(() => loadPreference('standby', DEFAULT_STANDBY_SETTINGS));
+  const [wakeWord, setWakeWord] = useState<WakeWordModel | null>(null);
+  const [isTrainingWakeWord, setIsTrainingWakeWord] = useState(false);
+  const [mood, setMood] = useState<Mood>('neutral');
+  const [isComposerOpen, setIsComposerOpen] = useState(false);
+  const [composerDraft, setComposerDraft] = useState('');
+  const [composerNotice, setComposerNotice] = useState('');
+  const [isTranslatingText, setIsTranslatingText] = useState(false);
+  const [speakTyped, setSpeakTyped] = useState(() => loadPreference('speakTyped', true));
+  const [busyEntryId, setBusyEntryId] = useState<string | null>(null);
+  const [toast, setToast] = useState('');
+  // Switches to a downloaded release; set while one is waiting.
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  const [outboxItems, setOutboxItems] = useState<OutboxItem[]>([]);
+  const [clipSeconds, setClipSeconds] = useState<number | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+
+  const credentialSettingsRef = useRef(credentialSettings);
+  const privacyRef = useRef(privacy);
+  const providerRef = useRef(getTranslationProvider(createCredentialProvider(() => credentialSettingsRef.current)));
+  // Owns the live connection, the mic and both audio contexts.
+  const sessionControllerRef = useRef(createSessionController({
+    provider: providerRef.current,
+    getUserMedia: navigator.mediaDevices?.getUserMedia ? (constraints) => navigator.mediaDevices.getUserMedia(constraints) : undefined,
+    createAudioContext: (options) => new (window.AudioContext || (window as any).webkitAudioContext)(options),
+    startCapture: startAudioCapture,
+    isOnline: () => navigator.onLine,
+  }, setSessionState));
+  const inputSettingsRef = useRef(inputSettings);
+  // Mirrors isAwake for audio callbacks; while asleep nothing reaches the session.
+  const isAwakeRef = useRef(false);
+  const lastActivityRef = useRef(0);
+  const wakeDetectorRef = useRef<WakeWordDetector | null>(null);
+  const gateRef = useRef(createInputGate(inputSettings, (open) => {
+    setIsMicOpen(open);
+    // Closing the gate ends the utterance, so the reply starts without waiting for silence.
+    if (!open) sessionControllerRef.current.endAudioStream();
+  }));
+  // Model speech on the output context; its queue decides whether Salin is speaking.
+  const playbackRef = useRef(createPlaybackManager(() => sessionControllerRef.current.outputContext(), {
+    volume: settings.playbackVolume,
+    rate: settings.speechRate,
+    onStateChange: setPlaybackState,
+    onPlayed: (clip) => recorderRef.current?.addOutput(clip),
+  }));
+  const bargeInRef = useRef(createBargeInDetector());
   const transcriptionRef = useRef<{ input: string, output: string }>({ input: '', output: '' });
+  // Voice features of the audio sent during the current turn.
+  const prosodyRef = useRef(createProsodyTracker());
+  // The current turn was typed rather than spoken.
+  const typedTurnRef = useRef(false);
+  // Model audio of the current turn, kept with its entry for replay.
+  const turnAudioRef = useRef<string[]>([]);
+  const toastTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const speakTypedRef = useRef(speakTyped);
+  // Read from audio callbacks, so a changed setting applies mid-session.
+  const settingsRef = useRef(settings);
+  const partyNamesRef = useRef(partyNames);
+  // Who spoke last, and whose talk button opened the mic for the current turn.
+  const lastPartyRef = useRef<PartyId | undefined>(undefined);
+  const pressedPartyRef = useRef<PartyId | undefined>(undefined);
+  const glossariesRef = useRef<GlossarySet[]>([]);
+  const outboxRef = useRef<OutboxRunner | null>(null);
+  // Point at the latest render's handlers, so the long-lived outbox runner sees current settings.
+  const sendQueuedRef = useRef<(item: OutboxItem) => Promise<OutboxResult>>();
+  const recordQueuedRef = useRef<(item: OutboxItem, result: OutboxResult) => void>();
+  // Mic capture for a clip recorded offline, outside any live session.
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const metricsRef = useRef<MetricsCollector | null>(null);
+  // The scenario a live CHAT session is practising and the turns spoken so far.
+  const practiceRef = useRef<{ scenario: Scenario, entries: TranscriptionEntry[] } | null>(null);
+  const finishPracticeRef = useRef<(practice: { scenario: Scenario, entries: TranscriptionEntry[] }) => void>();
+  const clipRef = useRef<{ stream: MediaStream, ctx: AudioContext, capture: AudioCapture, chunks: AudioChunk[] } | null>(null);
+  // Pending or resolved id of the stored conversation each mode is appending to.
+  const sessionIdRef = useRef<Record<AppMode, Promise<string> | null>>({
+    [AppMode.TRANSLATE]: null,
+    [AppMode.CHAT]: null,
+  });
 
   useEffect(() => {
-    const handleOnline = () => setIsOnline(true);
-    const handleOffline = () => { setIsOnline(false); stopSession(); };
+    const handleOnline = () => {
+      setIsOnline(true);
+      sessionControllerRef.current.setOnline(true);
+      outboxRef.current?.run(true);
+    };
+    const handleOffline = () => {
+      setIsOnline(false);
+      sessionControllerRef.current.setOnline(false);
+    };
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
     return () => {
@@ -40,201 +198,849 @@ const App: React.FC = () => {
     };
   }, []);
 
-  const stopSession = useCallback(() => {
-    if (sessionRef.current) {
-      try { sessionRef.current.close(); } catch (e) {}
-      sessionRef.current = null;
+  const showSession = useCallback((session: ConversationSession, entries: TranscriptionEntry[]) => {
+    const setter = session.mode === AppMode.TRANSLATE ? setTranslateHistory : setChatHistory;
+    setter(entries);
+    sessionIdRef.current[session.mode] = Promise.resolve(session.id);
+    setActiveSessionIds(prev => ({ ...prev, [session.mode]: session.id }));
+  }, []);
+
+  const recordEntries = useCallback((entryMode: AppMode, entries: TranscriptionEntry[], audio: EntryAudio[] = []) => {
+    const setter = entryMode === AppMode.TRANSLATE ? setTranslateHistory : setChatHistory;
+    setter(prev => [...prev, ...entries]);
+    if (entryMode === AppMode.CHAT) practiceRef.current?.entries.push(...entries);
+
+    if (!sessionIdRef.current[entryMode]) {
+      const created = createSession(entryMode).then(session => {
+        setActiveSessionIds(prev => ({ ...prev, [entryMode]: session.id }));
+        return session.id;
+      });
+      created.catch(() => { sessionIdRef.current[entryMode] = null; });
+      sessionIdRef.current[entryMode] = created;
     }
-    sourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
-    sourcesRef.current.clear();
-    
-    if (inputAudioCtxRef.current) {
-      try { inputAudioCtxRef.current.close(); } catch (e) {}
-      inputAudioCtxRef.current = null;
+    sessionIdRef.current[entryMode]!
+      .then(id => appendEntries(id, redactEntries(entries, privacyRef.current), audio))
+      .catch(err => console.error('Failed to save history:', err));
+  }, []);
+
+  // Credits a translate-mode turn to one party; the translation is for the other.
+  const attributeParties = useCallback((pair: LanguagePair, language: string | undefined) => {
+    const participants = getParticipants(pair, partyNamesRef.current);
+    const speaker = attributeTurn(participants, { language, pressed: pressedPartyRef.current, previous: lastPartyRef.current });
+    const listener = otherParty(participants, speaker.id);
+    pressedPartyRef.current = undefined;
+    lastPartyRef.current = speaker.id;
+    return { speaker: toParticipantRef(speaker), listener: toParticipantRef(listener) };
+  }, []);
+
+  // Applies the retention policy to stored history and to what's on screen.
+  const purgeHistory = useCallback(async () => {
+    const cutoff = retentionCutoff(privacyRef.current);
+    if (!cutoff) return;
+    const result = await purgeExpiredHistory(cutoff);
+    // The runner keeps its own copy of the queue and would save expired items back.
+    result.outboxIds.forEach(id => outboxRef.current?.cancel(id));
+    const isCurrent = (e: TranscriptionEntry) => e.timestamp >= cutoff;
+    setTranslateHistory(prev => prev.every(isCurrent) ? prev : prev.filter(isCurrent));
+    setChatHistory(prev => prev.every(isCurrent) ? prev : prev.filter(isCurrent));
+    for (const m of [AppMode.TRANSLATE, AppMode.CHAT]) {
+      const id = await sessionIdRef.current[m]?.catch(() => undefined);
+      if (!id || !result.sessionIds.includes(id)) continue;
+      sessionIdRef.current[m] = null;
+      setActiveSessionIds(prev => ({ ...prev, [m]: null }));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!privacy.retentionDays) return;
+    const timer = setInterval(() => {
+      purgeHistory().catch(err => console.error('Failed to apply retention:', err));
+    }, RETENTION_SWEEP_MS);
+    return () => clearInterval(timer);
+  }, [privacy.retentionDays, purgeHistory]);
+
+  // Lock again after the app has spent a while in the background.
+  useEffect(() => {
+    if (!passcode) return;
+    let hiddenAt = 0;
+    const handleVisibility = () => {
+      if (document.hidden) hiddenAt = Date.now();
+      else if (hiddenAt && Date.now() - hiddenAt >= LOCK_AFTER_HIDDEN_MS) setIsLocked(true);
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, [passcode]);
+
+  useEffect(() => {
+    // Reopen the most recent conversation of each mode after a reload,
+    // once anything past the retention period is gone.
+    purgeHistory()
+      .catch(err => console.error('Failed to apply retention:', err))
+      .then(() => listSessions())
+      .then(async sessions => {
+        for (const m of [AppMode.TRANSLATE, AppMode.CHAT]) {
+          const latest = sessions.find(s => s.mode === m);
+          if (latest && !sessionIdRef.current[m]) showSession(latest, await getSessionEntries(latest.id));
+        }
+      })
+      .catch(err => console.warn('History unavailable:', err));
+  }, [showSession, purgeHistory]);
+
+  useEffect(() => registerServiceWorker({
+    onUpdateReady: (apply) => setApplyUpdate(() => apply),
+  }), []);
+
+  useEffect(() => {
+    loadWakeWordModel()
+      .then(setWakeWord)
+      .catch(err => console.warn('Wake word unavailable:', err));
+  }, []);
+
+  useEffect(() => {
+    listGlossaries()
+      .then(changeGlossaries)
+      .catch(err => console.warn('Glossaries unavailable:', err));
+  }, []);
+
+  useEffect(() => {
+    const runner = createOutboxRunner({
+      send: (item) => sendQueuedRef.current!(item),
+      onSent: (item, result) => recordQueuedRef.current?.(item, result),
+      onChange: setOutboxItems,
+      canSend: () => navigator.onLine,
+    });
+    outboxRef.current = runner;
+    listOutbox()
+      .then(saved => {
+        runner.load(saved);
+        runner.run();
+      })
+      .catch(err => console.warn('Outbox unavailable:', err));
+    return () => runner.dispose();
+  }, []);
+
+  useEffect(() => {
+    const savedId = loadPreference<string | null>('scenarioId', null);
+    if (!savedId) return;
+    listScenarios()
+      .then(scenarios => setScenario(scenarios.find(s => s.id === savedId) || null))
+      .catch(err => console.warn('Scenarios unavailable:', err));
+  }, []);
+
+  useEffect(() => {
+    loadPhrasebook()
+      .then(setPhrasebook)
+      .catch(err => console.warn('Phrasebook unavailable:', err));
+  }, []);
+
+  // Typed translations and replays can play with no live session open.
+  const ensureOutputContext = useCallback(async () => {
+    sessionControllerRef.current.ensureOutputContext();
+    // Asking for new speech also ends a pause.
+    await playbackRef.current.resume();
+  }, []);
+
+  const wakeUp = useCallback(() => {
+    isAwakeRef.current = true;
+    lastActivityRef.current = Date.now();
+    wakeDetectorRef.current?.reset();
+    setIsAwake(true);
+  }, []);
+
+  const goToSleep = useCallback(() => {
+    isAwakeRef.current = false;
+    setIsAwake(false);
+    // Close the current utterance so the model isn't left waiting on it.
+    const wasOpen = gateRef.current.isOpen();
+    gateRef.current.reset();
+    if (wasOpen) sessionControllerRef.current.endAudioStream();
+    wakeDetectorRef.current?.reset();
+  }, []);
+
+  useEffect(() => {
+    wakeDetectorRef.current = wakeWord
+      ? createWakeWordDetector(wakeWord, { level: inputSettings.vad.startThreshold, sensitivity: standbySettings.wakeSensitivity, onWake: wakeUp })
+      : null;
+  }, [wakeWord, inputSettings.vad.startThreshold, standbySettings.wakeSensitivity, wakeUp]);
+
+  // Nap once neither side has spoken for the configured time.
+  useEffect(() => {
+    if (status !== ConnectionStatus.CONNECTED || !isAwake || !standbySettings.napAfterSeconds) return;
+    lastActivityRef.current = Date.now();
+    const timer = setInterval(() => {
+      if (playbackRef.current.state() !== 'idle') lastActivityRef.current = Date.now();
+      if (Date.now() - lastActivityRef.current >= standbySettings.napAfterSeconds * 1000) goToSleep();
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [status, isAwake, standbySettings.napAfterSeconds, goToSleep]);
+
+  // Clears what a live session leaves behind. Runs when the controller tears
+  // one down, including after a failure, and again on an explicit stop so a
+  // typed reply playing with no session open is cut off too.
+  const endSession = useCallback(() => {
+    transcriptionRef.current = { input: '', output: '' };
+    setPartialTranscript(null);
+    typedTurnRef.current = false;
+    turnAudioRef.current = [];
+    prosodyRef.current.reset();
+    gateRef.current.reset();
+    playbackRef.current.stop();
+    bargeInRef.current.reset();
+
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    setIsRecording(false);
+    // A session where nothing was said has no conversation to attach the recording to.
+    if (recorder) {
+      sessionIdRef.current[recorder.mode]
+        ?.then(sessionId => {
+          const recording = recorder.finish(sessionId);
+          return recording ? saveRecording(recording) : undefined;
+        })
+        .catch(err => console.error('Failed to save recording:', err));
     }
-    if (outputAudioCtxRef.current) {
-      try { outputAudioCtxRef.current.close(); } catch (e) {}
-      outputAudioCtxRef.current = null;
+    const practice = practiceRef.current;
+    practiceRef.current = null;
+    if (practice?.entries.some(e => e.speaker === 'user')) finishPracticeRef.current?.(practice);
+    const metrics = metricsRef.current?.snapshot();
+    metricsRef.current = null;
+    setLiveMetrics(null);
+    if (metrics && metrics.turns.length > 0) {
+      sessionIdRef.current[metrics.mode]
+        ?.then(sessionId => saveSessionMetrics({ ...metrics, sessionId }))
+        .catch(err => console.error('Failed to save session metrics:', err));
     }
-    
-    setStatus(ConnectionStatus.IDLE);
-    setIsSpeaking(false);
+
+    isAwakeRef.current = false;
     setIsAwake(false);
-    isConnectingRef.current = false;
+    setMood('neutral');
+    setVolume(0);
   }, []);
 
-  const startSession = async () => {
-    if (!isOnline) {
-      setErrorMessage('Internet connection required.');
-      setStatus(ConnectionStatus.ERROR);
+  const stopSession = useCallback(() => {
+    sessionControllerRef.current.stop();
+    endSession();
+  }, [endSession]);
+
+  const startSession = () => {
+    const provider = providerRef.current;
+    const pair = languagePair;
+    const modeInstruction = mode === AppMode.TRANSLATE 
+      ? buildInterpreterInstruction(pair)
+      : scenario ? buildScenarioInstruction(scenario, pair) : buildChatInstruction(pair);
+    const registerPrompt = buildRegisterPrompt(pair, settings.formality);
+    // Glossary edits take effect from the next session, like a pair change.
+    const sessionGlossaries = glossaries;
+    const glossaryPrompt = buildGlossaryInstruction(sessionGlossaries, pair);
+    const systemInstruction = [modeInstruction, registerPrompt, glossaryPrompt, buildPacePrompt(settings.speechRate)].filter(Boolean).join(' ');
+
+    return sessionControllerRef.current.start({
+      audio: buildAudioConstraints(settings),
+      session: { systemInstruction, voiceName: settings.voiceName, model: settings.model || undefined },
+    }, {
+      onStart: async () => {
+        metricsRef.current = createMetricsCollector({
+          mode, provider: provider.id, model: settings.model || undefined, voiceName: settings.voiceName,
+        }, provider.outputSampleRate);
+        setLiveMetrics(metricsRef.current.snapshot());
+        if (settings.recordAudio) {
+          recorderRef.current = createSessionRecorder(mode);
+          setIsRecording(true);
+        }
+        practiceRef.current = mode === AppMode.CHAT && scenario ? { scenario, entries: [] } : null;
+        await playbackRef.current.resume();
+      },
+      // Only chunks the input gate lets through are sent.
+      onCapture: (pcmBlob, rms) => {
+        if (!isAwakeRef.current) {
+          // Napping: only the local wake word spotter hears the mic.
+          if (sessionControllerRef.current.hasConnected()) wakeDetectorRef.current?.push(chunkToFloat32(pcmBlob));
+          return [];
+        }
+        const talking = gateRef.current.isOpen() && inputSettingsRef.current.mode !== InputMode.CONTINUOUS;
+        const speech = talking || rms >= inputSettingsRef.current.vad.startThreshold;
+        if (speech) lastActivityRef.current = Date.now();
+        // Barge-in: the user talking over the reply cuts it locally without waiting for the server.
+        if (settingsRef.current.bargeIn && bargeInRef.current.push(speech, pcmChunkSeconds(pcmBlob)) && playbackRef.current.state() === 'playing') {
+          playbackRef.current.skipTurn();
+        }
+        const passed = gateRef.current.process(pcmBlob, rms);
+        for (const chunk of passed) {
+          prosodyRef.current.push(chunkToFloat32(chunk));
+          metricsRef.current?.audioSent(chunk, speech);
+          recorderRef.current?.addInput(chunk);
+        }
+        return passed;
+      },
+      onLevel: setVolume,
+      onOpen: (reconnected) => {
+        // Reconnects keep a napping session asleep.
+        if (!reconnected) wakeUp();
+        else metricsRef.current?.reconnected();
+      },
+      onAudio: (base64Audio) => {
+        lastActivityRef.current = Date.now();
+        metricsRef.current?.audioReceived(base64Audio);
+        turnAudioRef.current.push(base64Audio);
+        // Typed turns stay silent when read-aloud is off.
+        if (typedTurnRef.current && !speakTypedRef.current) return;
+        playbackRef.current.enqueue(decode(base64Audio), provider.outputSampleRate);
+      },
+      onInputTranscript: (text) => {
+        transcriptionRef.current.input += text;
+        setPartialTranscript({ ...transcriptionRef.current });
+      },
+      onOutputTranscript: (text) => {
+        transcriptionRef.current.output += text;
+        setPartialTranscript({ ...transcriptionRef.current });
+      },
+      onTurnComplete: () => {
+        playbackRef.current.endTurn();
+        if (metricsRef.current) {
+          metricsRef.current.turnComplete();
+          setLiveMetrics(metricsRef.current.snapshot());
+        }
+        const uText = transcriptionRef.current.input.trim();
+        const mText = transcriptionRef.current.output.trim();
+        const prosody = prosodyRef.current.takeTurn();
+        const wasTyped = typedTurnRef.current;
+        const turnAudio = turnAudioRef.current;
+        typedTurnRef.current = false;
+        turnAudioRef.current = [];
+        if (uText) {
+          const heard = detectLanguage(uText, pair);
+          const emotion = classifyEmotion(uText, wasTyped ? null : prosody);
+          setMood(emotion.mood);
+          const entry = (s: 'user'|'model', t: string): TranscriptionEntry => ({
+            id: Math.random().toString(36).substr(2, 9),
+            speaker: s, text: t, timestamp: new Date(), mode,
+            language: s === 'user' ? heard : (mode === AppMode.TRANSLATE ? counterpart(pair, heard) : detectLanguage(t, pair))
+          });
+          const parties = mode === AppMode.TRANSLATE ? attributeParties(pair, heard) : undefined;
+          const userEntry: TranscriptionEntry = { ...entry('user', uText), mood: emotion.mood, origin: wasTyped ? 'typed' : undefined, participant: parties?.speaker };
+          if (mText) {
+            const modelEntry: TranscriptionEntry = {
+              ...entry('model', mText),
+              participant: parties?.listener,
+              hasAudio: turnAudio.length > 0,
+              glossaryViolations: mode === AppMode.TRANSLATE ? checkGlossary(uText, mText, sessionGlossaries, pair, heard) : undefined,
+            };
+            const audio = modelEntry.hasAudio ? [{ entryId: modelEntry.id, sampleRate: provider.outputSampleRate, pcm: joinPcmChunks(turnAudio) }] : [];
+            recordEntries(mode, [userEntry, modelEntry], audio);
+          } else {
+            recordEntries(mode, [userEntry]);
+          }
+        }
+        transcriptionRef.current = { input: '', output: '' };
+        setPartialTranscript(null);
+      },
+      onInterrupted: () => {
+        metricsRef.current?.interrupted();
+        playbackRef.current.stop();
+      },
+      onCredentialExpired: () => showToast('Access expired. Reconnecting with a fresh token…'),
+      onEnd: endSession,
+    });
+  };
+
+  const translateWithPhrasebook = () => {
+    const text = offlineDraft.trim();
+    if (!text || !phrasebook) return;
+
+    const result = translateOffline(text, phrasebook);
+    if (!result) {
+      setOfflineNotice('No phrasebook match. Try shorter, common phrases.');
       return;
     }
 
-    if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-      setErrorMessage('Your browser does not support microphone access or you are not in a secure (HTTPS) environment.');
-      setStatus(ConnectionStatus.ERROR);
+    const entry = (s: 'user'|'model', t: string): TranscriptionEntry => ({
+      id: Math.random().toString(36).substr(2, 9),
+      speaker: s, text: t, timestamp: new Date(), mode, origin: 'phrasebook',
+      language: s === 'user' ? result.from : result.to
+    });
+    const parties = mode === AppMode.TRANSLATE ? attributeParties(languagePair, result.from) : undefined;
+    recordEntries(mode, [{ ...entry('user', text), participant: parties?.speaker }, { ...entry('model', result.text), participant: parties?.listener }]);
+    setOfflineDraft('');
+    setOfflineNotice(result.coverage < 1 ? 'Partial match: untranslated words are shown as typed.' : '');
+  };
+
+  const sendTypedText = async () => {
+    const text = composerDraft.trim();
+    if (!text || isTranslatingText) return;
+    setComposerNotice('');
+
+    // With a live session open the text joins the conversation like a spoken turn.
+    if (status === ConnectionStatus.CONNECTED && sessionControllerRef.current.isOpen()) {
+      if (!isAwakeRef.current) wakeUp();
+      lastActivityRef.current = Date.now();
+      typedTurnRef.current = true;
+      transcriptionRef.current.input += text;
+      metricsRef.current?.textSent();
+      sessionControllerRef.current.sendText(text);
+      setComposerDraft('');
       return;
     }
 
-    if (isConnectingRef.current) return;
-    isConnectingRef.current = true;
-    setErrorMessage('');
-    setMicPermissionDenied(false);
-    setStatus(ConnectionStatus.CONNECTING);
-
-    let stream: MediaStream;
+    const provider = providerRef.current;
+    const pair = languagePair;
+    const instruction = mode === AppMode.TRANSLATE ? buildTextInstruction(pair) : buildChatInstruction(pair);
+    setIsTranslatingText(true);
     try {
-      stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true
-        } 
+      const result = await provider.translateText({
+        systemInstruction: `${instruction} ${buildRegisterPrompt(pair, settings.formality)} ${buildGlossaryInstruction(glossaries, pair)}`.trim(),
+        text,
+        voiceName: settings.voiceName,
+        speak: speakTyped,
       });
+      const heard = detectLanguage(text, pair);
+      const entry = (s: 'user'|'model', t: string): TranscriptionEntry => ({
+        id: Math.random().toString(36).substr(2, 9),
+        speaker: s, text: t, timestamp: new Date(), mode,
+        language: s === 'user' ? heard : (mode === AppMode.TRANSLATE ? counterpart(pair, heard) : detectLanguage(t, pair))
+      });
+      const parties = mode === AppMode.TRANSLATE ? attributeParties(pair, heard) : undefined;
+      const modelEntry: TranscriptionEntry = {
+        ...entry('model', result.text),
+        participant: parties?.listener,
+        hasAudio: !!result.audio,
+        glossaryViolations: mode === AppMode.TRANSLATE ? checkGlossary(text, result.text, glossaries, pair, heard) : undefined,
+      };
+      const audio = result.audio ? [{ entryId: modelEntry.id, sampleRate: provider.outputSampleRate, pcm: joinPcmChunks([result.audio]) }] : [];
+      recordEntries(mode, [{ ...entry('user', text), origin: 'typed', mood: classifyEmotion(text, null).mood, participant: parties?.speaker }, modelEntry], audio);
+      setComposerDraft('');
+
+      if (result.audio) {
+        await ensureOutputContext();
+        playbackRef.current.play(decode(result.audio), provider.outputSampleRate);
+      }
+    } catch (err: any) {
+      console.error('Text translation failed:', err);
+      setComposerNotice(err.message || 'Translation failed.');
+    } finally {
+      setIsTranslatingText(false);
+    }
+  };
+
+  const changeSpeakTyped = (speak: boolean) => {
+    setSpeakTyped(speak);
+    speakTypedRef.current = speak;
+    savePreference('speakTyped', speak);
+  };
+
+  const changeLanguagePair = (pair: LanguagePair) => {
+    setLanguagePair(pair);
+    savePreference('languagePair', pair);
+    stopSession();
+  };
+
+  const changeInputSettings = (settings: InputSettings) => {
+    setInputSettings(settings);
+    inputSettingsRef.current = settings;
+    savePreference('input', settings);
+    gateRef.current.configure(settings);
+  };
+
+  const setTalking = (open: boolean) => {
+    if (open && !isAwakeRef.current) wakeUp();
+    gateRef.current.setManualOpen(open);
+  };
+
+  const changeGlossaries = (sets: GlossarySet[]) => {
+    setGlossaries(sets);
+    glossariesRef.current = sets;
+  };
+
+  const changeStandbySettings = (settings: StandbySettings) => {
+    setStandbySettings(settings);
+    savePreference('standby', settings);
+  };
+
+  const changeSettings = (next: SessionSettings) => {
+    setSettings(next);
+    settingsRef.current = next;
+    saveSessionSettings(next);
+    playbackRef.current.setRate(next.speechRate);
+    playbackRef.current.setVolume(next.playbackVolume);
+  };
+
+  // Muting lasts for this visit only, so nobody comes back to a silent app.
+  const changeMuted = (muted: boolean) => {
+    setIsMuted(muted);
+    playbackRef.current.setMuted(muted);
+  };
+
+  // A new scenario applies from the next session, like a language pair change.
+  const changeScenario = (next: Scenario | null) => {
+    setScenario(next);
+    savePreference('scenarioId', next?.id ?? null);
+  };
+
+  const changeCaptionSettings = (next: CaptionSettings) => {
+    setCaptionSettings(next);
+    saveCaptionSettings(next);
+  };
+
+  const changePrivacy = (next: PrivacySettings) => {
+    const retentionChanged = next.retentionDays !== privacyRef.current.retentionDays;
+    setPrivacy(next);
+    privacyRef.current = next;
+    savePrivacySettings(next);
+    if (retentionChanged) purgeHistory().catch(err => console.error('Failed to apply retention:', err));
+  };
+
+  const changePasscode = async (code: string | null) => {
+    const record = code ? await createPasscodeRecord(code) : null;
+    savePasscode(record);
+    setPasscode(record);
+    showToast(record ? 'Passcode saved.' : 'Passcode removed.');
+  };
+
+  // Forgotten passcode: start over with nothing on the device.
+  const eraseEverything = async () => {
+    stopSession();
+    try {
+      await eraseAllData();
+    } catch (err) {
+      console.error('Failed to erase data:', err);
+    }
+    clearPreferences();
+    window.location.reload();
+  };
+
+  const changeCredentialSettings = (next: CredentialSettings) => {
+    setCredentialSettings(next);
+    credentialSettingsRef.current = next;
+    saveCredentialSettings(next);
+  };
+
+  const renameParty = (id: PartyId, name: string) => {
+    const next = { ...partyNames, [id]: name.trim() || DEFAULT_PARTY_NAMES[id] };
+    setPartyNames(next);
+    partyNamesRef.current = next;
+    savePreference('partyNames', next);
+  };
+
+  const changeFaceToFace = (enabled: boolean) => {
+    setIsFaceToFace(enabled);
+    savePreference('faceToFace', enabled);
+  };
+
+  const cycleFormality = () => {
+    const index = FORMALITY_LEVELS.findIndex(f => f.level === settings.formality);
+    changeSettings({ ...settings, formality: FORMALITY_LEVELS[(index + 1) % FORMALITY_LEVELS.length].level });
+  };
+
+  const previewVoice = async (voiceName: string) => {
+    const provider = providerRef.current;
+    if (!isOnline && provider.requiresNetwork) {
+      showToast('Previewing a voice needs a connection.');
+      return;
+    }
+    setIsPreviewingVoice(true);
+    try {
+      const speech = await provider.synthesizeSpeech({ text: 'Magandang araw po! Hello, I will be your interpreter today.', voiceName });
+      await ensureOutputContext();
+      playbackRef.current.stop();
+      playbackRef.current.play(decode(speech), provider.outputSampleRate);
     } catch (err: any) {
-      isConnectingRef.current = false;
-      setStatus(ConnectionStatus.ERROR);
-      if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
-        setMicPermissionDenied(true);
-        setErrorMessage('Microphone access was denied. Please allow microphone permissions in your browser settings.');
-      } else if (err.name === 'NotFoundError' || err.name === 'DevicesNotFoundError') {
-        setErrorMessage('No microphone was found on your device.');
-      } else {
-        setErrorMessage(`Microphone error: ${err.message}`);
+      console.error('Voice preview failed:', err);
+      showToast(err.message || 'Voice preview failed.');
+    } finally {
+      setIsPreviewingVoice(false);
+    }
+  };
+
+  const showToast = (message: string) => {
+    setToast(message);
+    if (toastTimerRef.current) clearTimeout(toastTimerRef.current);
+    toastTimerRef.current = setTimeout(() => setToast(''), 2500);
+  };
+
+  const storeEntryAudio = (entry: TranscriptionEntry, audio: EntryAudio) => {
+    const setter = entry.mode === AppMode.TRANSLATE ? setTranslateHistory : setChatHistory;
+    setter(prev => prev.map(e => e.id === entry.id ? { ...e, hasAudio: true } : e));
+    sessionIdRef.current[entry.mode]
+      ?.then(id => saveEntryAudio(id, audio))
+      .catch(err => console.error('Failed to save audio:', err));
+  };
+
+  const replayEntry = async (entry: TranscriptionEntry, slow = false) => {
+    if (busyEntryId) return;
+    const provider = providerRef.current;
+    const canSynthesize = isOnline || !provider.requiresNetwork;
+    setBusyEntryId(entry.id);
+    try {
+      await ensureOutputContext();
+      playbackRef.current.stop();
+      // A slow re-read keeps the voice natural; pitching the saved clip down is the offline fallback.
+      if (slow && canSynthesize) {
+        const speech = await provider.synthesizeSpeech({ text: entry.text, voiceName: settings.voiceName, slow: true });
+        playbackRef.current.play(decode(speech), provider.outputSampleRate);
+        return;
       }
+      let audio = entry.hasAudio ? await getEntryAudio(entry.id) : undefined;
+      if (!audio) {
+        if (!canSynthesize) throw new Error('No saved audio for this line, and speaking it needs a connection.');
+        const speech = await provider.synthesizeSpeech({ text: entry.text, voiceName: settings.voiceName });
+        audio = { entryId: entry.id, sampleRate: provider.outputSampleRate, pcm: joinPcmChunks([speech]) };
+        storeEntryAudio(entry, audio);
+      }
+      playbackRef.current.play(new Uint8Array(audio.pcm), audio.sampleRate, slow ? SLOW_PLAYBACK_RATE : 1);
+    } catch (err: any) {
+      console.error('Replay failed:', err);
+      showToast(err.message || 'Playback failed.');
+    } finally {
+      setBusyEntryId(null);
+    }
+  };
+
+  const copyEntry = async (entry: TranscriptionEntry) => {
+    try {
+      await navigator.clipboard.writeText(entry.text);
+      showToast('Copied to clipboard');
+    } catch {
+      showToast('Could not copy to the clipboard.');
+    }
+  };
+
+  // Re-translates the line's source text in a polite register and speaks the result.
+  // Chat bubbles are reworded as they are, since re-sending the user's line would
+  // get a new reply rather than a polite version of this one.
+  const translatePolitely = async (entry: TranscriptionEntry) => {
+    if (busyEntryId) return;
+    const isChat = entry.mode === AppMode.CHAT;
+    const entries = isChat ? chatHistory : translateHistory;
+    const index = entries.findIndex(e => e.id === entry.id);
+    const source = isChat || entry.speaker === 'user' ? entry : entries.slice(0, index).reverse().find(e => e.speaker === 'user');
+    if (!source) {
+      showToast('There is no original line to translate again.');
+      return;
+    }
+
+    const provider = providerRef.current;
+    const pair = languagePair;
+    const instruction = isChat ? buildRephraseInstruction(pair) : buildTextInstruction(pair);
+    setBusyEntryId(entry.id);
+    try {
+      const result = await provider.translateText({
+        systemInstruction: `${instruction} ${buildRegisterPrompt(pair, settings.formality === Formality.FORMAL ? Formality.FORMAL : Formality.POLITE)} ${buildGlossaryInstruction(glossaries, pair)}`.trim(),
+        text: source.text,
+        voiceName: settings.voiceName,
+        speak: true,
+      });
+      const politeEntry: TranscriptionEntry = {
+        id: Math.random().toString(36).substr(2, 9),
+        speaker: 'model', text: result.text, timestamp: new Date(), mode: entry.mode, origin: 'polite',
+        participant: !isChat && source.participant ? toParticipantRef(otherParty(getParticipants(pair, partyNamesRef.current), source.participant.id)) : undefined,
+        language: isChat ? entry.language ?? detectLanguage(result.text, pair) : counterpart(pair, source.language),
+        hasAudio: !!result.audio,
+        glossaryViolations: isChat ? undefined : checkGlossary(source.text, result.text, glossaries, pair, source.language),
+      };
+      const audio = result.audio ? [{ entryId: politeEntry.id, sampleRate: provider.outputSampleRate, pcm: joinPcmChunks([result.audio]) }] : [];
+      recordEntries(entry.mode, [politeEntry], audio);
+      if (result.audio) {
+        await ensureOutputContext();
+        playbackRef.current.stop();
+        playbackRef.current.play(decode(result.audio), provider.outputSampleRate);
+      }
+    } catch (err: any) {
+      console.error('Polite translation failed:', err);
+      showToast(err.message || 'Translation failed.');
+    } finally {
+      setBusyEntryId(null);
+    }
+  };
+
+  // Translates an offline capture with the settings in force now, in the pair it was made in.
+  const sendQueued = async (item: OutboxItem): Promise<OutboxResult> => {
+    const provider = providerRef.current;
+    const current = settingsRef.current;
+    const extras = [buildRegisterPrompt(item.pair, current.formality), buildGlossaryInstruction(glossariesRef.current, item.pair)];
+    if (item.text !== undefined) {
+      const instruction = item.mode === AppMode.TRANSLATE ? buildTextInstruction(item.pair) : buildChatInstruction(item.pair);
+      const result = await provider.translateText({
+        systemInstruction: [instruction, ...extras].filter(Boolean).join(' '),
+        text: item.text,
+        voiceName: current.voiceName,
+        speak: speakTypedRef.current,
+      });
+      return { input: item.text, output: result.text, audio: result.audio ? [result.audio] : [] };
+    }
+    const instruction = item.mode === AppMode.TRANSLATE ? buildInterpreterInstruction(item.pair) : buildChatInstruction(item.pair);
+    return translateClip(provider, {
+      systemInstruction: [instruction, ...extras].filter(Boolean).join(' '),
+      voiceName: current.voiceName,
+      model: current.model || undefined,
+    }, item.audio || []);
+  };
+
+  // Replaces a pending bubble with the turn it produced; audio is kept for replay, not played.
+  const recordQueued = (item: OutboxItem, result: OutboxResult) => {
+    if (!result.input && !result.output) {
+      showToast('Nothing could be heard in a saved clip.');
       return;
     }
+    const pair = item.pair;
+    const heard = detectLanguage(result.input, pair);
+    const parties = item.mode === AppMode.TRANSLATE ? attributeParties(pair, heard) : undefined;
+    const entries: TranscriptionEntry[] = [{
+      id: Math.random().toString(36).substr(2, 9),
+      speaker: 'user', text: result.input, timestamp: item.createdAt, mode: item.mode, language: heard,
+      origin: item.text !== undefined ? 'typed' : undefined,
+      mood: classifyEmotion(result.input, null).mood,
+      participant: parties?.speaker,
+    }];
+    const audio: EntryAudio[] = [];
+    if (result.output) {
+      const modelEntry: TranscriptionEntry = {
+        id: Math.random().toString(36).substr(2, 9),
+        speaker: 'model', text: result.output, timestamp: new Date(), mode: item.mode,
+        language: item.mode === AppMode.TRANSLATE ? counterpart(pair, heard) : detectLanguage(result.output, pair),
+        participant: parties?.listener,
+        hasAudio: result.audio.length > 0,
+        glossaryViolations: item.mode === AppMode.TRANSLATE ? checkGlossary(result.input, result.output, glossariesRef.current, pair, heard) : undefined,
+      };
+      entries.push(modelEntry);
+      if (modelEntry.hasAudio) audio.push({ entryId: modelEntry.id, sampleRate: providerRef.current.outputSampleRate, pcm: joinPcmChunks(result.audio) });
+    }
+    recordEntries(item.mode, entries.filter(e => e.text), audio);
+  };
 
+  // Coaches the learner's turns once a practice session ends and shows the report.
+  const finishPractice = async (practice: { scenario: Scenario, entries: TranscriptionEntry[] }) => {
+    const provider = providerRef.current;
+    if (!navigator.onLine && provider.requiresNetwork) {
+      showToast('Practice feedback needs a connection.');
+      return;
+    }
+    setIsCoaching(true);
     try {
-      const apiKey = process.env.API_KEY || '';
-      if (!apiKey) throw new Error("API Key is missing.");
+      const sessionId = await sessionIdRef.current[AppMode.CHAT]?.catch(() => undefined);
+      // The coach only needs the learner's phrasing, so it gets the transcript as history stores it.
+      const privacy = privacyRef.current;
+      const feedback = await requestPracticeFeedback(provider, practice.scenario, redactEntries(practice.entries, privacy), settingsRef.current.voiceName, sessionId);
+      const report = redactPracticeReport(feedback, privacy);
+      await savePracticeReport(report).catch(err => console.error('Failed to save practice report:', err));
+      setPracticeReport(report);
+    } catch (err: any) {
+      console.error('Practice feedback failed:', err);
+      showToast(err.message || 'Could not get practice feedback.');
+    } finally {
+      setIsCoaching(false);
+    }
+  };
+
+  sendQueuedRef.current = sendQueued;
+  recordQueuedRef.current = recordQueued;
+  finishPracticeRef.current = finishPractice;
+
+  const queueTypedText = () => {
+    const draft = offlineDraft.trim();
+    if (!draft) return;
+    // The draft waits on this device until it is sent, so it is masked like saved history.
+    const privacy = privacyRef.current;
+    const text = privacy.redact ? redactText(draft, privacy).text : draft;
+    outboxRef.current?.enqueue(createOutboxItem(mode, languagePair, { text }));
+    setOfflineDraft('');
+    setOfflineNotice("Saved. It will be translated when you're back online.");
+  };
 
-      const ai = new GoogleGenAI({ apiKey });
-      
+  const stopClip = (save: boolean) => {
+    const clip = clipRef.current;
+    if (!clip) return;
+    clipRef.current = null;
+    clip.capture.stop();
+    clip.stream.getTracks().forEach(track => track.stop());
+    clip.ctx.close().catch(() => {});
+    setClipSeconds(null);
+    setVolume(0);
+    if (!save) return;
+    const seconds = clip.chunks.reduce((sum, chunk) => sum + pcmChunkSeconds(chunk), 0);
+    if (seconds < MIN_CLIP_SECONDS) {
+      showToast('That clip was too short to save.');
+      return;
+    }
+    outboxRef.current?.enqueue(createOutboxItem(mode, languagePair, { audio: clip.chunks }));
+  };
+
+  // Offline, the mic records a clip for the outbox instead of opening a session.
+  const startClip = async () => {
+    if (clipRef.current || !navigator.mediaDevices?.getUserMedia) return;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(settings) });
       const AudioCtx = (window.AudioContext || (window as any).webkitAudioContext);
-      inputAudioCtxRef.current = new AudioCtx({ sampleRate: 16000 });
-      outputAudioCtxRef.current = new AudioCtx({ sampleRate: 24000 });
-      
-      await inputAudioCtxRef.current.resume();
-      await outputAudioCtxRef.current.resume();
-
-      const modeInstruction = mode === AppMode.TRANSLATE 
-        ? "You are a specialized bidirectional English-Filipino speech-to-speech interpreter. If you hear English, translate to Filipino. If you hear Filipino, translate to English. ONLY speak the translation. No commentary."
-        : "You are Salin, a helpful English-Filipino assistant. Use natural Taglish.";
-
-      const politePrompt = isPoliteMode ? 'Always use "po" and "opo" in Filipino.' : 'Use casual and natural phrasing.';
-
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          systemInstruction: `${modeInstruction} ${politePrompt} Speak naturally and quickly.`,
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
-          outputAudioTranscription: {},
-          inputAudioTranscription: {},
+      const ctx = new AudioCtx();
+      await ctx.resume();
+      const chunks: AudioChunk[] = [];
+      let seconds = 0;
+      const capture = await startAudioCapture(ctx, stream, {
+        onChunk: (chunk) => {
+          chunks.push(chunk);
+          seconds += pcmChunkSeconds(chunk);
+          setClipSeconds(seconds);
+          if (seconds >= MAX_CLIP_SECONDS) stopClip(true);
         },
-        callbacks: {
-          onopen: () => {
-            setStatus(ConnectionStatus.CONNECTED);
-            setIsAwake(true);
-            isConnectingRef.current = false;
-            
-            const source = inputAudioCtxRef.current!.createMediaStreamSource(stream);
-            const scriptProcessor = inputAudioCtxRef.current!.createScriptProcessor(4096, 1, 1);
-            
-            scriptProcessor.onaudioprocess = (e) => {
-              if (!inputAudioCtxRef.current || inputAudioCtxRef.current.state === 'closed') return;
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              
-              sessionPromise.then(session => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              }).catch(() => {});
-              
-              const outputData = e.outputBuffer.getChannelData(0);
-              outputData.fill(0);
-              
-              let sum = 0;
-              for(let i=0; i<inputData.length; i++) sum += inputData[i] * inputData[i];
-              setVolume(Math.sqrt(sum / inputData.length));
-            };
-            
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputAudioCtxRef.current!.destination);
-          },
-          onmessage: async (message) => {
-            const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (base64Audio && outputAudioCtxRef.current && outputAudioCtxRef.current.state !== 'closed') {
-              setIsSpeaking(true);
-              const audioCtx = outputAudioCtxRef.current;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, audioCtx.currentTime);
-              
-              const audioBuffer = await decodeAudioData(decode(base64Audio), audioCtx, 24000, 1);
-              const source = audioCtx.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(audioCtx.destination);
-              
-              source.onended = () => {
-                sourcesRef.current.delete(source);
-                if (sourcesRef.current.size === 0) setIsSpeaking(false);
-              };
-              
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += audioBuffer.duration;
-              sourcesRef.current.add(source);
-            }
-
-            if (message.serverContent?.inputTranscription) {
-              transcriptionRef.current.input += message.serverContent.inputTranscription.text;
-            }
-            if (message.serverContent?.outputTranscription) {
-              transcriptionRef.current.output += message.serverContent.outputTranscription.text;
-            }
-            if (message.serverContent?.turnComplete) {
-              const uText = transcriptionRef.current.input.trim();
-              const mText = transcriptionRef.current.output.trim();
-              if (uText) {
-                const entry = (s: 'user'|'model', t: string): TranscriptionEntry => ({
-                  id: Math.random().toString(36).substr(2, 9),
-                  speaker: s, text: t, timestamp: new Date(), mode
-                });
-                const setter = mode === AppMode.TRANSLATE ? setTranslateHistory : setChatHistory;
-                setter(prev => [...prev, entry('user', uText)]);
-                if (mText) setter(prev => [...prev, entry('model', mText)]);
-              }
-              transcriptionRef.current = { input: '', output: '' };
-            }
-            if (message.serverContent?.interrupted) {
-              sourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
-              sourcesRef.current.clear();
-              setIsSpeaking(false);
-              nextStartTimeRef.current = 0;
-            }
-          },
-          onerror: (e: any) => {
-            console.error('Session error:', e);
-            setErrorMessage(e.message || 'The session encountered an error.');
-            setStatus(ConnectionStatus.ERROR);
-            stopSession();
-          },
-          onclose: () => stopSession()
-        }
+        onLevel: setVolume,
       });
-      sessionRef.current = await sessionPromise;
+      clipRef.current = { stream, ctx, capture, chunks };
+      setClipSeconds(0);
     } catch (err: any) {
-      console.error('Startup error:', err);
-      setStatus(ConnectionStatus.ERROR);
-      setErrorMessage(err.message || 'Failed to initialize AI session.');
-      isConnectingRef.current = false;
-      if (stream) stream.getTracks().forEach(track => track.stop());
+      console.error('Clip recording failed:', err);
+      showToast(err.name === 'NotAllowedError' ? 'Microphone access was denied.' : `Microphone error: ${err.message}`);
     }
   };
 
+  // Starts a fresh conversation; the previous one stays in the session browser.
   const clearHistory = () => {
     if (mode === AppMode.TRANSLATE) setTranslateHistory([]);
     else setChatHistory([]);
+    sessionIdRef.current[mode] = null;
+    setActiveSessionIds(prev => ({ ...prev, [mode]: null }));
+    lastPartyRef.current = undefined;
+  };
+
+  const openSession = async (session: ConversationSession) => {
+    try {
+      const entries = await getSessionEntries(session.id);
+      if (session.mode !== mode) {
+        stopSession();
+        setMode(session.mode);
+      }
+      showSession(session, entries);
+      setIsBrowsingSessions(false);
+    } catch (err) {
+      console.error('Failed to open session:', err);
+    }
   };
 
+  const handleSessionDeleted = (id: string) => {
+    for (const m of [AppMode.TRANSLATE, AppMode.CHAT]) {
+      if (activeSessionIds[m] !== id) continue;
+      if (m === AppMode.TRANSLATE) setTranslateHistory([]);
+      else setChatHistory([]);
+      sessionIdRef.current[m] = null;
+      setActiveSessionIds(prev => ({ ...prev, [m]: null }));
+    }
+  };
+
+  // A reconnect in progress can always be cancelled, even while offline.
+  const isLiveBlocked = !isOnline && providerRef.current.requiresNetwork && status !== ConnectionStatus.RECONNECTING;
+  // Offline, typing goes through the phrasebook panel instead.
+  const isTextBlocked = !isOnline && providerRef.current.requiresNetwork;
+  const isLive = status === ConnectionStatus.CONNECTED || status === ConnectionStatus.RECONNECTING;
+  const hasTalkButton = isLive && (inputSettings.mode === InputMode.HOLD || inputSettings.mode === InputMode.TOGGLE);
+  const startLabel = isLiveBlocked ? 'Live Voice Unavailable' :
+    status === ConnectionStatus.CONNECTING ? 'Connecting...' :
+    status === ConnectionStatus.CONNECTED ? 'Stop Interpreter' :
+    status === ConnectionStatus.RECONNECTING ? 'Stop Reconnecting' :
+    'Start Translation';
+  const statusText = isLiveBlocked ? (clipSeconds !== null ? "Recording — translated when you're back online" : "Offline — phrasebook now, or record for later") :
+    status === ConnectionStatus.CONNECTED && !isAwake ? (wakeWord ? `Napping — say "${wakeWord.word}" or tap Salin` : "Napping — tap Salin to wake") :
+    status === ConnectionStatus.CONNECTED && !isMicOpen ? (inputSettings.mode === InputMode.VAD ? "Waiting for speech..." : "Mic is off") :
+    status === ConnectionStatus.CONNECTED ? "Salin is Listening..." :
+    status === ConnectionStatus.RECONNECTING ? "Keep talking — speech is saved until we're back" :
+    "Tap to activate microphone";
+
   return (
     <div className="min-h-screen max-w-md mx-auto bg-gray-50 flex flex-col shadow-2xl overflow-hidden relative border-x border-gray-100">
       <header className="bg-white/90 backdrop-blur-md px-6 py-4 flex items-center justify-between border-b border-gray-100 sticky top-0 z-20">
@@ -244,24 +1050,66 @@ const App: React.FC = () => {
           </div>
           <div>
             <h1 className="font-outfit font-bold text-lg text-gray-800 leading-none">Salin</h1>
-            <p className="text-[9px] font-bold text-indigo-500 uppercase tracking-widest mt-1">Live AI Interpreter</p>
+            <p className="text-[9px] font-bold text-indigo-500 uppercase tracking-widest mt-1">{pairName(languagePair)}</p>
           </div>
         </div>
         <div className="flex items-center space-x-2">
+          {isRecording && (
+            <span className="flex items-center space-x-1 px-2 py-1 rounded-full bg-rose-50 text-[9px] font-black text-rose-600 uppercase tracking-widest" title="This session's audio is being recorded">
+              <span className="w-1.5 h-1.5 rounded-full bg-rose-600 animate-pulse" />
+              <span>Rec</span>
+            </span>
+          )}
+          <button 
+            onClick={() => setIsBrowsingSessions(true)}
+            className="p-2 text-gray-400 hover:text-indigo-600 transition-colors"
+            title="Past Conversations"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 3v5h5"/><path d="M3.05 13A9 9 0 1 0 6 5.3L3 8"/><path d="M12 7v5l4 2"/></svg>
+          </button>
+          <button
+            onClick={() => setIsViewingStats(true)}
+            className="p-2 text-gray-400 hover:text-indigo-600 transition-colors"
+            title="Session Stats"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 3v18h18"/><path d="M18 17V9"/><path d="M13 17V5"/><path d="M8 17v-3"/></svg>
+          </button>
+          <button
+            onClick={() => setIsEditingGlossaries(true)}
+            className="p-2 text-gray-400 hover:text-indigo-600 transition-colors"
+            title="Glossaries"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M4 19.5v-15A2.5 2.5 0 0 1 6.5 2H20v20H6.5a2.5 2.5 0 0 1 0-5H20"/></svg>
+          </button>
           <button 
             onClick={clearHistory}
-            className="p-2 text-gray-400 hover:text-red-500 transition-colors"
-            title="Clear History"
+            className="p-2 text-gray-400 hover:text-indigo-600 transition-colors"
+            title="New Conversation"
           >
-            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 6h18M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2M10 11v6M14 11v6"/></svg>
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 20h9"/><path d="M16.5 3.5a2.1 2.1 0 0 1 3 3L7 19l-4 1 1-4Z"/></svg>
           </button>
+          <StandbyMenu
+            settings={standbySettings}
+            onChange={changeStandbySettings}
+            wakeWord={wakeWord}
+            onTrainWakeWord={() => setIsTrainingWakeWord(true)}
+          />
+          <LanguagePairPicker pair={languagePair} onChange={changeLanguagePair} />
           <button 
-            onClick={() => setIsPoliteMode(!isPoliteMode)} 
+            onClick={cycleFormality} 
             className={`px-3 py-1.5 rounded-2xl border text-[10px] font-black uppercase transition-all shadow-sm ${
-              isPoliteMode ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-gray-50 text-gray-400 border-gray-100'
+              settings.formality === Formality.POLITE || settings.formality === Formality.FORMAL ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-gray-50 text-gray-400 border-gray-100'
             }`}
+            title="Formality"
+          >
+            {FORMALITY_LEVELS.find(f => f.level === settings.formality)?.label}
+          </button>
+          <button
+            onClick={() => setIsEditingSettings(true)}
+            className="p-2 text-gray-400 hover:text-indigo-600 transition-colors"
+            title="Settings"
           >
-            {isPoliteMode ? 'Polite' : 'Casual'}
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12.22 2h-.44a2 2 0 0 0-2 2v.18a2 2 0 0 1-1 1.73l-.43.25a2 2 0 0 1-2 0l-.15-.08a2 2 0 0 0-2.73.73l-.22.38a2 2 0 0 0 .73 2.73l.15.1a2 2 0 0 1 1 1.72v.51a2 2 0 0 1-1 1.74l-.15.09a2 2 0 0 0-.73 2.73l.22.38a2 2 0 0 0 2.73.73l.15-.08a2 2 0 0 1 2 0l.43.25a2 2 0 0 1 1 1.73V20a2 2 0 0 0 2 2h.44a2 2 0 0 0 2-2v-.18a2 2 0 0 1 1-1.73l.43-.25a2 2 0 0 1 2 0l.15.08a2 2 0 0 0 2.73-.73l.22-.39a2 2 0 0 0-.73-2.73l-.15-.08a2 2 0 0 1-1-1.74v-.5a2 2 0 0 1 1-1.74l.15-.09a2 2 0 0 0 .73-2.73l-.22-.38a2 2 0 0 0-2.73-.73l-.15.08a2 2 0 0 1-2 0l-.43-.25a2 2 0 0 1-1-1.73V4a2 2 0 0 0-2-2z"/><circle cx="12" cy="12" r="3"/></svg>
           </button>
         </div>
       </header>
@@ -283,6 +1131,45 @@ const App: React.FC = () => {
         </div>
       </div>
 
+      {mode === AppMode.CHAT && (
+        <div className="px-6 py-2 bg-white border-b border-gray-100">
+          <button onClick={() => setIsPickingScenario(true)} className="w-full flex items-center justify-between text-left" title="Practice scenarios">
+            <span className="min-w-0">
+              <span className="block text-[9px] font-black text-emerald-600 uppercase tracking-widest">
+                {isCoaching ? 'Preparing feedback...' : scenario ? 'Practising' : 'Practice'}
+              </span>
+              <span className="block text-sm font-bold text-gray-800 truncate">{scenario ? scenario.title : 'Free chat • pick a scenario'}</span>
+            </span>
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-gray-300 shrink-0"><path d="m9 18 6-6-6-6"/></svg>
+          </button>
+          {scenario && scenario.vocabulary.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1.5">
+              {scenario.vocabulary.map(word => (
+                <span key={word} className="px-2 py-0.5 rounded-full bg-emerald-50 text-[10px] font-bold text-emerald-700">{word}</span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {applyUpdate && (
+        <UpdateBanner
+          onReload={applyUpdate}
+          onDismiss={() => setApplyUpdate(null)}
+          isLive={isLive}
+        />
+      )}
+
+      {status === ConnectionStatus.RECONNECTING && reconnectInfo && (
+        <ReconnectBanner
+          reconnectAt={reconnectInfo.at}
+          attempt={reconnectInfo.attempt}
+          maxAttempts={DEFAULT_BACKOFF.maxAttempts}
+          isOnline={isOnline}
+          getBufferedSeconds={sessionControllerRef.current.bufferedSeconds}
+        />
+      )}
+
       {status === ConnectionStatus.ERROR && (
         <div className="px-6 py-4 bg-red-50 border-b border-red-100 animate-in slide-in-from-top">
           <div className="flex items-start space-x-3">
@@ -292,6 +1179,14 @@ const App: React.FC = () => {
             <div>
               <p className="text-[11px] text-red-700 leading-tight font-bold uppercase mb-1">Error Occurred</p>
               <p className="text-[12px] text-red-600 leading-snug">{errorMessage}</p>
+              {needsCredential && (
+                <button
+                  onClick={() => setIsEditingSettings(true)}
+                  className="mt-2 text-[10px] font-black text-red-700 uppercase underline tracking-wider"
+                >
+                  Open API Access Settings
+                </button>
+              )}
               {micPermissionDenied && (
                 <button 
                   onClick={() => window.location.reload()}
@@ -307,30 +1202,263 @@ const App: React.FC = () => {
 
       <main className="flex-1 flex flex-col z-10 overflow-hidden bg-white/40">
         <div className="bg-white/80 backdrop-blur-md rounded-b-[40px] shadow-sm border-b border-white">
-          <VoiceVisualizer status={status} isActive={isSpeaking} isAwake={isAwake} volume={volume} mood="neutral" />
+          <VoiceVisualizer status={status} isActive={playbackState === 'playing'} isAwake={isAwake} volume={volume} isMicOpen={isMicOpen} mood={mood}
+            onTap={status === ConnectionStatus.CONNECTED && !isAwake ? wakeUp : undefined}
+          />
+          {(isLive || playbackState !== 'idle') && (
+            <PlaybackControls
+              state={playbackState}
+              onPause={() => playbackRef.current.pause()}
+              onResume={() => playbackRef.current.resume()}
+              onSkip={() => playbackRef.current.skipTurn()}
+              isMuted={isMuted}
+              onMutedChange={changeMuted}
+              volume={settings.playbackVolume}
+              onVolumeChange={(playbackVolume) => changeSettings({ ...settings, playbackVolume })}
+              rate={settings.speechRate}
+              onRateChange={(speechRate) => changeSettings({ ...settings, speechRate })}
+            />
+          )}
         </div>
-        <TranscriptionList entries={mode === AppMode.TRANSLATE ? translateHistory : chatHistory} />
+        <TranscriptionList
+          entries={mode === AppMode.TRANSLATE ? translateHistory : chatHistory}
+          onEntrySelect={isOnline ? undefined : (e) => { setOfflineDraft(e.text); setOfflineNotice(''); }}
+          actions={{
+            onReplay: replayEntry,
+            onCopy: copyEntry,
+            onTranslatePolitely: isTextBlocked ? undefined : translatePolitely,
+          }}
+          busyEntryId={busyEntryId}
+          partial={partialTranscript}
+          pending={outboxItems.filter(item => item.mode === mode)}
+          onCancelPending={(id) => outboxRef.current?.cancel(id)}
+        />
       </main>
 
+      {!isOnline && (
+        <OfflineTranslator
+          value={offlineDraft}
+          onChange={setOfflineDraft}
+          onSubmit={translateWithPhrasebook}
+          isReady={!!phrasebook && supportsPair(languagePair)}
+          onQueue={queueTypedText}
+          notice={supportsPair(languagePair) ? offlineNotice : 'The offline phrasebook only covers English ↔ Filipino.'}
+        />
+      )}
+
+      {isComposerOpen && !isTextBlocked && (
+        <TextComposer
+          value={composerDraft}
+          onChange={setComposerDraft}
+          onSubmit={sendTypedText}
+          isBusy={isTranslatingText}
+          speak={speakTyped}
+          onSpeakChange={changeSpeakTyped}
+          hint={status === ConnectionStatus.CONNECTED ? 'Sent into the live session' : pairName(languagePair)}
+          notice={composerNotice}
+        />
+      )}
+
       <footer className="p-6 bg-white border-t border-gray-100 sticky bottom-0 z-20">
-        <button
-          onClick={status === ConnectionStatus.CONNECTED ? stopSession : startSession}
-          disabled={status === ConnectionStatus.CONNECTING}
-          className={`w-full py-4 rounded-3xl font-outfit font-bold text-lg transition-all active:scale-95 shadow-xl ${
-            status === ConnectionStatus.CONNECTED 
-              ? 'bg-slate-100 text-slate-600 border border-slate-200' 
-              : status === ConnectionStatus.CONNECTING ? 'bg-gray-100 text-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-indigo-600 to-indigo-800 text-white'
-          }`}
-        >
-          {status === ConnectionStatus.CONNECTING ? 'Connecting...' : 
-           status === ConnectionStatus.CONNECTED ? 'Stop Interpreter' :
-           'Start Translation'}
-        </button>
+        <InputModeControls settings={inputSettings} onChange={changeInputSettings} level={volume} />
+
+        {hasTalkButton && (
+          <button
+            {...(inputSettings.mode === InputMode.HOLD ? {
+              onPointerDown: () => setTalking(true),
+              onPointerUp: () => setTalking(false),
+              onPointerLeave: () => setTalking(false),
+              onPointerCancel: () => setTalking(false),
+            } : {
+              onClick: () => setTalking(!isMicOpen),
+            })}
+            onContextMenu={(e) => e.preventDefault()}
+            className={`w-full mb-3 py-5 rounded-3xl font-outfit font-bold text-lg transition-all select-none touch-none shadow-xl ${
+              isMicOpen ? 'bg-gradient-to-r from-emerald-500 to-emerald-600 text-white scale-[0.98]' : 'bg-gradient-to-r from-indigo-600 to-indigo-800 text-white'
+            }`}
+          >
+            {inputSettings.mode === InputMode.HOLD
+              ? (isMicOpen ? 'Release to Send' : 'Hold to Talk')
+              : (isMicOpen ? 'Tap to Send' : 'Tap to Talk')}
+          </button>
+        )}
+
+        <div className="flex items-center space-x-3">
+          {!isTextBlocked && (
+            <button
+              onClick={() => setIsComposerOpen(!isComposerOpen)}
+              className={`p-4 rounded-3xl border transition-all active:scale-95 shadow-xl ${
+                isComposerOpen ? 'bg-indigo-50 border-indigo-100 text-indigo-600' : 'bg-white border-gray-100 text-gray-400'
+              }`}
+              title="Type instead of speaking"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="2" y="6" width="20" height="12" rx="2"/><path d="M6 10h.01M10 10h.01M14 10h.01M18 10h.01M8 14h8"/></svg>
+            </button>
+          )}
+          {mode === AppMode.TRANSLATE && (
+            <button
+              onClick={() => changeFaceToFace(true)}
+              className="p-4 rounded-3xl border bg-white border-gray-100 text-gray-400 transition-all active:scale-95 shadow-xl"
+              title="Face-to-face layout"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="5" y="2" width="14" height="20" rx="2"/><path d="M5 12h14"/><path d="m10 7 2-2 2 2M10 17l2 2 2-2"/></svg>
+            </button>
+          )}
+          <button
+            onClick={() => setIsCaptioning(true)}
+            className="p-4 rounded-3xl border bg-white border-gray-100 text-gray-400 transition-all active:scale-95 shadow-xl"
+            title="Caption mode"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="2" y="5" width="20" height="14" rx="2"/><path d="M10 10.5a2 2 0 1 0 0 3M17 10.5a2 2 0 1 0 0 3"/></svg>
+          </button>
+          {isLiveBlocked ? (
+            <button
+              onClick={clipSeconds === null ? startClip : () => stopClip(true)}
+              className={`flex-1 py-4 rounded-3xl font-outfit font-bold text-lg transition-all active:scale-95 shadow-xl ${
+                clipSeconds === null ? 'bg-gradient-to-r from-amber-500 to-amber-600 text-white' : 'bg-gradient-to-r from-rose-500 to-rose-600 text-white'
+              }`}
+            >
+              {clipSeconds === null ? 'Record for Later' : `Save Clip • ${Math.floor(clipSeconds)}s`}
+            </button>
+          ) : (
+            <button
+              onClick={isLive ? stopSession : startSession}
+              disabled={status === ConnectionStatus.CONNECTING}
+              className={`flex-1 py-4 rounded-3xl font-outfit font-bold text-lg transition-all active:scale-95 shadow-xl ${
+                isLive
+                  ? 'bg-slate-100 text-slate-600 border border-slate-200' 
+                  : status === ConnectionStatus.CONNECTING ? 'bg-gray-100 text-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-indigo-600 to-indigo-800 text-white'
+              }`}
+            >
+              {startLabel}
+            </button>
+          )}
+        </div>
         
         <p className="mt-4 text-[10px] text-slate-400 font-bold uppercase tracking-[0.2em] text-center">
-          {status === ConnectionStatus.CONNECTED ? "Salin is Listening..." : "Tap to activate microphone"}
+          {statusText}
         </p>
       </footer>
+
+      {isFaceToFace && mode === AppMode.TRANSLATE && (
+        <FaceToFaceView
+          entries={translateHistory}
+          participants={getParticipants(languagePair, partyNames)}
+          onRename={renameParty}
+          talkMode={hasTalkButton ? inputSettings.mode : undefined}
+          isMicOpen={isMicOpen}
+          onTalk={(party, open) => {
+            if (open) pressedPartyRef.current = party;
+            setTalking(open);
+          }}
+          onReplay={(entry) => replayEntry(entry)}
+          isLive={isLive}
+          statusText={statusText}
+          isRecording={isRecording}
+          onWake={status === ConnectionStatus.CONNECTED && !isAwake ? wakeUp : undefined}
+          startLabel={startLabel}
+          isStartDisabled={status === ConnectionStatus.CONNECTING || isLiveBlocked}
+          onStartStop={isLive ? stopSession : startSession}
+          onExit={() => changeFaceToFace(false)}
+        />
+      )}
+
+      {isCaptioning && (
+        <CaptionView
+          entries={mode === AppMode.TRANSLATE ? translateHistory : chatHistory}
+          partial={partialTranscript}
+          settings={captionSettings}
+          onSettingsChange={changeCaptionSettings}
+          isLive={isLive}
+          statusText={statusText}
+          startLabel={startLabel}
+          isStartDisabled={status === ConnectionStatus.CONNECTING || isLiveBlocked}
+          onStartStop={isLive ? stopSession : startSession}
+          onExit={() => setIsCaptioning(false)}
+        />
+      )}
+
+      {toast && (
+        <div className="absolute bottom-36 left-1/2 -translate-x-1/2 z-40 px-4 py-2 rounded-2xl bg-slate-800/90 text-white text-[11px] font-bold shadow-xl animate-in fade-in">
+          {toast}
+        </div>
+      )}
+
+      {isTrainingWakeWord && (
+        <WakeWordSetup
+          model={wakeWord}
+          level={inputSettings.vad.startThreshold}
+          onSaved={setWakeWord}
+          onClose={() => setIsTrainingWakeWord(false)}
+        />
+      )}
+
+      {isBrowsingSessions && (
+        <SessionBrowser
+          activeSessionIds={[activeSessionIds[AppMode.TRANSLATE], activeSessionIds[AppMode.CHAT]].filter((id): id is string => !!id)}
+          privacy={privacy}
+          onOpen={openSession}
+          onDeleted={handleSessionDeleted}
+          onClose={() => setIsBrowsingSessions(false)}
+        />
+      )}
+
+      {isViewingStats && (
+        <StatsPanel
+          sessionId={activeSessionIds[mode]}
+          live={liveMetrics?.mode === mode ? liveMetrics : null}
+          onClose={() => setIsViewingStats(false)}
+        />
+      )}
+
+      {isEditingSettings && (
+        <SettingsPanel
+          settings={settings}
+          onChange={changeSettings}
+          credentials={credentialSettings}
+          onCredentialsChange={changeCredentialSettings}
+          privacy={privacy}
+          onPrivacyChange={changePrivacy}
+          hasPasscode={!!passcode}
+          onPasscodeChange={changePasscode}
+          onPreviewVoice={previewVoice}
+          isPreviewing={isPreviewingVoice}
+          isLive={isLive}
+          onClose={() => setIsEditingSettings(false)}
+        />
+      )}
+
+      {isPickingScenario && (
+        <ScenarioManager
+          selectedId={scenario?.id ?? null}
+          onSelect={changeScenario}
+          languagePair={languagePair}
+          onClose={() => setIsPickingScenario(false)}
+        />
+      )}
+
+      {practiceReport && (
+        <PracticeReportView
+          report={practiceReport}
+          onClose={() => setPracticeReport(null)}
+        />
+      )}
+
+      {isLocked && passcode && (
+        <LockScreen
+          passcode={passcode}
+          onUnlock={() => setIsLocked(false)}
+          onReset={eraseEverything}
+        />
+      )}
+
+      {isEditingGlossaries && (
+        <GlossaryManager
+          languagePair={languagePair}
+          onChange={changeGlossaries}
+          onClose={() => setIsEditingGlossaries(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,25 @@
+import http from 'http';
+import { authorizeSharedSecret, createGeminiTokenFactory, createTokenBroker } from './token-broker';
+
+// Standalone broker:
+//   GEMINI_API_KEY=... BROKER_SECRET=... BROKER_ALLOWED_ORIGINS=https://salin.example npm run broker
+// Set the app's TOKEN_BROKER_URL to http://<host>:<port>/token. Callers prove
+// themselves with BROKER_SECRET, as a `salin_broker` cookie or a bearer token.
+
+function required(name: string): string {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    console.error(`${name} is not set.`);
+    process.exit(1);
+  }
+  return value;
+}
+
+const apiKey = required('GEMINI_API_KEY');
+const secret = required('BROKER_SECRET');
+const allowedOrigins = required('BROKER_ALLOWED_ORIGINS').split(',').map(o => o.trim()).filter(Boolean);
+const port = Number(process.env.BROKER_PORT) || 8787;
+
+http
+  .createServer(createTokenBroker({ createToken: createGeminiTokenFactory(apiKey), authorize: authorizeSharedSecret(secret), allowedOrigins }))
+  .listen(port, () => console.log(`Token broker listening on http://localhost:${port}/token`));
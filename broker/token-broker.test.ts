@@ -0,0 +1,111 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { CredentialError, createBrokerCredentials } from '../services/credentials';
+import { IssuedToken, TokenBrokerOptions, authorizeSharedSecret, createTokenBroker } from './token-broker';
+
+const ISSUED: IssuedToken = {
+  token: 'auth_tokens/abc123',
+  expiresAt: '2026-01-01T09:30:00.000Z',
+  newSessionExpiresAt: '2026-01-01T09:01:00.000Z',
+};
+
+let server: http.Server | null = null;
+
+// Runs the broker on a free local port with a stubbed token source that lets every caller in.
+async function startBroker(options: Partial<TokenBrokerOptions> = {}): Promise<string> {
+  server = http.createServer(createTokenBroker({ createToken: async () => ISSUED, authorize: () => true, ...options }));
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/token`;
+}
+
+async function stopBroker() {
+  const running = server;
+  server = null;
+  if (!running) return;
+  // fetch keeps connections alive, which would hold close() open.
+  running.closeAllConnections();
+  await new Promise(resolve => running.close(resolve));
+}
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await stopBroker();
+});
+
+const credentialError = (promise: Promise<unknown>) => promise.then(
+  () => { throw new Error('Expected a credential error.'); },
+  (err) => { expect(err).toBeInstanceOf(CredentialError); return err as CredentialError; },
+);
+
+describe('createTokenBroker', () => {
+  it('issues a token the app can use as an ephemeral credential', async () => {
+    const url = await startBroker();
+    const credential = await createBrokerCredentials(() => url).getCredential();
+    expect(credential).toEqual({ kind: 'ephemeral', value: ISSUED.token, expiresAt: new Date(ISSUED.expiresAt) });
+  });
+
+  it('answers 403 when the request is not authorised, which the app reports as rejected', async () => {
+    const url = await startBroker({ authorize: (request) => request.headers.cookie === 'staff=1' });
+    const error = await credentialError(createBrokerCredentials(() => url).getCredential());
+    expect(error.code).toBe('rejected');
+  });
+
+  it('reports a failing token source as a temporary outage', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const url = await startBroker({ createToken: async () => { throw new Error('quota'); } });
+    const error = await credentialError(createBrokerCredentials(() => url).getCredential());
+    expect(error.code).toBe('unreachable');
+  });
+
+  it('reports a broker that is down as unreachable', async () => {
+    const url = await startBroker();
+    await stopBroker();
+    const error = await credentialError(createBrokerCredentials(() => url).getCredential());
+    expect(error.code).toBe('unreachable');
+  });
+
+  it('allows only listed origins and answers their preflight', async () => {
+    const url = await startBroker({ allowedOrigins: ['https://salin.example'] });
+
+    const blocked = await fetch(url, { method: 'POST', headers: { Origin: 'https://evil.example' } });
+    expect(blocked.status).toBe(403);
+    expect(blocked.headers.get('access-control-allow-origin')).toBeNull();
+
+    const preflight = await fetch(url, { method: 'OPTIONS', headers: { Origin: 'https://salin.example' } });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('access-control-allow-origin')).toBe('https://salin.example');
+    expect(preflight.headers.get('access-control-allow-credentials')).toBe('true');
+  });
+
+  it('refuses every browser origin when none are listed', async () => {
+    const url = await startBroker();
+    const blocked = await fetch(url, { method: 'POST', headers: { Origin: 'https://salin.example' } });
+    expect(blocked.status).toBe(403);
+    expect(blocked.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('answers 403 to an unlisted origin and to a listed one without the shared secret', async () => {
+    const createToken = vi.fn(async () => ISSUED);
+    const url = await startBroker({ createToken, authorize: authorizeSharedSecret('s3cret'), allowedOrigins: ['https://salin.example'] });
+
+    const unlisted = await fetch(url, { method: 'POST', headers: { Origin: 'https://evil.example', Cookie: 'salin_broker=s3cret' } });
+    expect(unlisted.status).toBe(403);
+    const unauthorised = await fetch(url, { method: 'POST', headers: { Origin: 'https://salin.example', Cookie: 'salin_broker=guess' } });
+    expect(unauthorised.status).toBe(403);
+    expect((await fetch(url, { method: 'POST' })).status).toBe(403);
+    expect(createToken).not.toHaveBeenCalled();
+
+    const cookie = await fetch(url, { method: 'POST', headers: { Origin: 'https://salin.example', Cookie: 'theme=dark; salin_broker=s3cret' } });
+    expect(await cookie.json()).toEqual(ISSUED);
+    const bearer = await fetch(url, { method: 'POST', headers: { Authorization: 'Bearer s3cret' } });
+    expect(bearer.status).toBe(200);
+  });
+
+  it('only issues tokens on POST to its path', async () => {
+    const url = await startBroker();
+    expect((await fetch(url)).status).toBe(405);
+    expect((await fetch(url.replace('/token', '/other'), { method: 'POST' })).status).toBe(404);
+    expect((await fetch(url, { method: 'POST' })).headers.get('cache-control')).toBe('no-store');
+  });
+});
@@ -0,0 +1,119 @@
+import type { IncomingMessage, RequestListener, ServerResponse } from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import { GoogleGenAI } from '@google/genai';
+
+/**
+ * Reference token broker. It keeps the Gemini API key on the server and hands
+ * each signed-in client a single-use ephemeral token for one live session.
+ * Put it behind whatever already authenticates your staff and check that in
+ * `authorize`.
+ */
+
+export interface IssuedToken {
+  token: string;
+  // When messages on a session opened with the token stop being accepted.
+  expiresAt: string;
+  // Last moment the token can open a new session.
+  newSessionExpiresAt: string;
+}
+
+export interface TokenBrokerOptions {
+  createToken: () => Promise<IssuedToken>;
+  // Return false to answer 403, e.g. when the request has no valid staff session cookie.
+  authorize: (request: IncomingMessage) => boolean | Promise<boolean>;
+  // Origins allowed to call the broker from a browser; with none, every browser request is refused.
+  allowedOrigins?: string[];
+  path?: string;
+}
+
+interface GeminiTokenOptions {
+  // How long an opened session may run.
+  sessionMinutes?: number;
+  // How long the client has to open its session.
+  startSeconds?: number;
+}
+
+export function createGeminiTokenFactory(apiKey: string, { sessionMinutes = 30, startSeconds = 60 }: GeminiTokenOptions = {}, now = Date.now) {
+  const ai = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } });
+  return async (): Promise<IssuedToken> => {
+    const expiresAt = new Date(now() + sessionMinutes * 60000).toISOString();
+    const newSessionExpiresAt = new Date(now() + startSeconds * 1000).toISOString();
+    const token = await ai.authTokens.create({
+      config: { uses: 1, expireTime: expiresAt, newSessionExpireTime: newSessionExpiresAt },
+    });
+    if (!token.name) throw new Error('No token was issued.');
+    return { token: token.name, expiresAt, newSessionExpiresAt };
+  };
+}
+
+export const BROKER_SECRET_COOKIE = 'salin_broker';
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * Checks for a shared secret, sent as a `salin_broker` cookie (set by whatever
+ * signs staff in) or as `Authorization: Bearer <secret>` from scripts.
+ */
+export function authorizeSharedSecret(secret: string): TokenBrokerOptions['authorize'] {
+  if (!secret) throw new Error('The shared secret must not be empty.');
+  const expected = digest(secret);
+  return (request) => {
+    const bearer = request.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const cookie = request.headers.cookie?.split(';').map(part => part.trim())
+      .find(part => part.startsWith(`${BROKER_SECRET_COOKIE}=`))?.slice(BROKER_SECRET_COOKIE.length + 1);
+    const given = bearer ?? cookie;
+    // Comparing digests keeps the check constant-time whatever the length.
+    return !!given && timingSafeEqual(digest(given), expected);
+  };
+}
+
+function send(response: ServerResponse, status: number, body?: object) {
+  response.statusCode = status;
+  response.setHeader('Cache-Control', 'no-store');
+  if (body) response.setHeader('Content-Type', 'application/json');
+  response.end(body ? JSON.stringify(body) : undefined);
+}
+
+export function createTokenBroker({ createToken, authorize, allowedOrigins = [], path = '/token' }: TokenBrokerOptions): RequestListener {
+  return async (request, response) => {
+    const origin = request.headers.origin;
+    if (origin) {
+      if (!allowedOrigins.includes(origin)) {
+        send(response, 403, { error: 'Origin not allowed.' });
+        return;
+      }
+      // Credentials are allowed so a staff session cookie reaches `authorize`.
+      response.setHeader('Access-Control-Allow-Origin', origin);
+      response.setHeader('Access-Control-Allow-Credentials', 'true');
+      response.setHeader('Vary', 'Origin');
+    }
+
+    const url = new URL(request.url || '/', 'http://broker');
+    if (url.pathname !== path) {
+      send(response, 404, { error: 'Not found.' });
+      return;
+    }
+    if (request.method === 'OPTIONS') {
+      response.setHeader('Access-Control-Allow-Methods', 'POST');
+      response.setHeader('Access-Control-Allow-Headers', 'Accept, Authorization, Content-Type');
+      send(response, 204);
+      return;
+    }
+    if (request.method !== 'POST') {
+      response.setHeader('Allow', 'POST, OPTIONS');
+      send(response, 405, { error: 'Use POST.' });
+      return;
+    }
+
+    try {
+      if (!(await authorize(request))) {
+        send(response, 403, { error: 'Sign in to get a token.' });
+        return;
+      }
+      send(response, 200, await createToken());
+    } catch (err: any) {
+      console.error('Token request failed:', err);
+      send(response, 502, { error: 'Could not issue a token.' });
+    }
+  };
+}
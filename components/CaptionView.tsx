@@ -0,0 +1,109 @@
+import React, { useEffect, useRef } from 'react';
+import { CaptionSettings, PartialTranscript, TranscriptionEntry } from '../types';
+import { CAPTION_FONT_SIZES, captionLines, stepFontSize } from '../services/captions';
+
+interface CaptionViewProps {
+  entries: TranscriptionEntry[];
+  partial: PartialTranscript | null;
+  settings: CaptionSettings;
+  onSettingsChange: (settings: CaptionSettings) => void;
+  isLive: boolean;
+  statusText: string;
+  startLabel: string;
+  isStartDisabled: boolean;
+  onStartStop: () => void;
+  onExit: () => void;
+}
+
+/**
+ * Full-screen captions to hand to someone who is deaf or hard of hearing.
+ * Only the last few lines are shown, large, with the one still being spoken
+ * updating in place at the bottom.
+ */
+const CaptionView: React.FC<CaptionViewProps> = ({
+  entries, partial, settings, onSettingsChange, isLive, statusText, startLabel, isStartDisabled, onStartStop, onExit,
+}) => {
+  const endRef = useRef<HTMLDivElement>(null);
+  const lines = captionLines(entries, partial);
+  const last = lines[lines.length - 1];
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'end' });
+  }, [lines.length, last?.text, settings.fontSize]);
+
+  const contrast = settings.highContrast;
+  const toolClass = (active = false) => `px-3 py-1.5 rounded-2xl border text-[11px] font-black uppercase tracking-wider disabled:opacity-30 ${
+    active ? 'bg-yellow-300 border-yellow-300 text-black' : contrast ? 'border-gray-700 text-white' : 'border-gray-200 text-gray-600 bg-white'
+  }`;
+  const lineClass = (speaker: 'user' | 'model', isPartial: boolean) => {
+    if (contrast) return speaker === 'model' ? 'text-yellow-300' : 'text-white';
+    const color = speaker === 'model' ? 'text-gray-900' : 'text-indigo-700';
+    return isPartial ? `${color} opacity-70` : color;
+  };
+
+  return (
+    <div className={`absolute inset-0 z-30 flex flex-col animate-in fade-in ${contrast ? 'bg-black' : 'bg-gray-50'}`}>
+      <div className={`px-4 py-2 flex items-center space-x-2 ${contrast ? 'bg-black border-b border-gray-800' : 'bg-white shadow-sm'}`}>
+        <button onClick={onExit} className={`p-2 transition-colors ${contrast ? 'text-gray-400 hover:text-white' : 'text-gray-400 hover:text-gray-700'}`} title="Leave captions">
+          <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18M6 6l12 12"/></svg>
+        </button>
+        <button
+          onClick={() => onSettingsChange({ ...settings, fontSize: stepFontSize(settings.fontSize, -1) })}
+          disabled={settings.fontSize <= CAPTION_FONT_SIZES[0]}
+          className={toolClass()}
+          title="Smaller text"
+        >
+          A−
+        </button>
+        <button
+          onClick={() => onSettingsChange({ ...settings, fontSize: stepFontSize(settings.fontSize, 1) })}
+          disabled={settings.fontSize >= CAPTION_FONT_SIZES[CAPTION_FONT_SIZES.length - 1]}
+          className={toolClass()}
+          title="Larger text"
+        >
+          A+
+        </button>
+        <button
+          onClick={() => onSettingsChange({ ...settings, highContrast: !contrast })}
+          className={toolClass(contrast)}
+          title="High contrast"
+        >
+          Contrast
+        </button>
+        <span className={`flex-1 text-center text-[9px] font-bold uppercase tracking-[0.2em] truncate ${contrast ? 'text-gray-400' : 'text-slate-400'}`}>
+          {statusText}
+        </span>
+        <button
+          onClick={onStartStop}
+          disabled={isStartDisabled}
+          className={`px-4 py-2 rounded-2xl font-outfit font-bold text-sm transition-all active:scale-95 ${
+            isLive ? 'bg-slate-100 text-slate-600 border border-slate-200' : isStartDisabled ? 'bg-gray-100 text-gray-400' : 'bg-indigo-600 text-white'
+          }`}
+        >
+          {startLabel}
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-8 space-y-6" aria-live="polite">
+        {lines.length === 0 && (
+          <p className="text-center italic mt-10 text-gray-400" style={{ fontSize: settings.fontSize * 0.6 }}>
+            Captions appear here as people speak.
+          </p>
+        )}
+        {lines.map(line => (
+          <p
+            key={line.id}
+            className={`font-semibold leading-tight break-words ${lineClass(line.speaker, line.isPartial)}`}
+            style={{ fontSize: settings.fontSize }}
+          >
+            {line.text}
+            {line.isPartial && <span className="animate-pulse">…</span>}
+          </p>
+        ))}
+        <div ref={endRef} />
+      </div>
+    </div>
+  );
+};
+
+export default CaptionView;
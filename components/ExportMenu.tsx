@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { ConversationSession, PrivacySettings } from '../types';
+import { getSessionEntries } from '../services/history-store';
+import { redactEntries } from '../services/privacy';
+import { EXPORT_FORMATS, ExportFormat, exportTranscript, downloadFile } from '../services/transcript-export';
+import { RecordingLayout, SessionRecording, exportRecording, getSessionRecordings } from '../services/session-recorder';
+
+const RECORDING_FORMATS: { layout: RecordingLayout | 'captions', label: string }[] = [
+  { layout: 'mixed', label: 'WAV' },
+  { layout: 'stereo', label: 'Stereo WAV' },
+  { layout: 'captions', label: 'Captions' },
+];
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+interface ExportMenuProps {
+  session: ConversationSession;
+  privacy: PrivacySettings;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ session, privacy }) => {
+  const [error, setError] = useState('');
+  const [recordings, setRecordings] = useState<SessionRecording[]>([]);
+
+  useEffect(() => {
+    getSessionRecordings(session.id)
+      .then(setRecordings)
+      .catch(err => console.warn('Recordings unavailable:', err));
+  }, [session.id]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setError('');
+    try {
+      // History saved before masking was turned on is still masked on the way out.
+      const entries = redactEntries(await getSessionEntries(session.id), privacy);
+      if (entries.length === 0) {
+        setError('Nothing to export yet.');
+        return;
+      }
+      downloadFile(exportTranscript(format, { session, entries }));
+    } catch (err: any) {
+      console.error('Export failed:', err);
+      setError(err.message || 'Export failed.');
+    }
+  };
+
+  const handleRecording = async (recording: SessionRecording, layout: RecordingLayout | 'captions') => {
+    setError('');
+    try {
+      const entries = layout === 'captions' ? redactEntries(await getSessionEntries(session.id), privacy) : [];
+      downloadFile(exportRecording(recording, session.name, layout, entries));
+    } catch (err: any) {
+      console.error('Recording export failed:', err);
+      setError(err.message || 'Export failed.');
+    }
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-100">
+      <p className="text-[9px] font-black text-gray-400 uppercase tracking-widest mb-2">Export as</p>
+      <div className="flex flex-wrap gap-2">
+        {EXPORT_FORMATS.map(({ format, label }) => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            className="px-3 py-1 rounded-xl border border-gray-200 bg-gray-50 text-[10px] font-bold text-gray-600 uppercase tracking-wider hover:border-indigo-300 hover:text-indigo-600 transition-colors"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {recordings.length > 0 && (
+        <>
+          <p className="text-[9px] font-black text-gray-400 uppercase tracking-widest mt-3 mb-2">Recordings</p>
+          <div className="space-y-2">
+            {recordings.map(recording => (
+              <div key={recording.id} className="flex items-center justify-between space-x-2">
+                <span className="text-[11px] text-gray-500">
+                  {recording.startedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} • {formatDuration(recording.duration)}
+                </span>
+                <div className="flex gap-2">
+                  {RECORDING_FORMATS.map(({ layout, label }) => (
+                    <button
+                      key={layout}
+                      onClick={() => handleRecording(recording, layout)}
+                      className="px-3 py-1 rounded-xl border border-gray-200 bg-gray-50 text-[10px] font-bold text-gray-600 uppercase tracking-wider hover:border-rose-300 hover:text-rose-600 transition-colors"
+                      title={layout === 'captions' ? 'WebVTT captions timed to this recording' : undefined}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+      {error && <p className="mt-2 text-[11px] text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default ExportMenu;
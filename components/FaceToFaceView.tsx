@@ -0,0 +1,177 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { InputMode, Participant, PartyId, TranscriptionEntry } from '../types';
+import { getLanguage } from '../services/languages';
+
+interface FaceToFaceViewProps {
+  entries: TranscriptionEntry[];
+  participants: [Participant, Participant];
+  onRename: (id: PartyId, name: string) => void;
+  // Manual talk modes get a button on each side; others listen hands-free.
+  talkMode?: InputMode;
+  isMicOpen: boolean;
+  onTalk: (party: PartyId, open: boolean) => void;
+  onReplay: (entry: TranscriptionEntry) => void;
+  isLive: boolean;
+  statusText: string;
+  isRecording: boolean;
+  // Set while napping; tapping the status line wakes the session.
+  onWake?: () => void;
+  startLabel: string;
+  isStartDisabled: boolean;
+  onStartStop: () => void;
+  onExit: () => void;
+}
+
+interface HalfProps {
+  party: Participant;
+  entries: TranscriptionEntry[];
+  onRename: (name: string) => void;
+  talkMode?: InputMode;
+  isTalking: boolean;
+  onTalk: (open: boolean) => void;
+  onReplay: (entry: TranscriptionEntry) => void;
+}
+
+// One person's side: what they said and what was translated for them, in their language.
+const Half: React.FC<HalfProps> = ({ party, entries, onRename, talkMode, isTalking, onTalk, onReplay }) => {
+  const endRef = useRef<HTMLDivElement>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(party.name);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [entries.length]);
+
+  const commit = () => {
+    setIsEditing(false);
+    onRename(draft);
+  };
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col px-5 py-4">
+      <div className="flex items-center justify-between mb-2">
+        {isEditing ? (
+          <input
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') commit(); if (e.key === 'Escape') setIsEditing(false); }}
+            onBlur={commit}
+            className="rounded-lg border border-indigo-200 px-2 py-1 text-sm font-bold text-gray-800 focus:outline-none"
+          />
+        ) : (
+          <button onClick={() => { setDraft(party.name); setIsEditing(true); }} className="text-sm font-bold text-gray-800" title="Rename">
+            {party.name}
+          </button>
+        )}
+        <span className="text-[9px] font-black text-indigo-500 uppercase tracking-widest">{getLanguage(party.language).nativeName}</span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-3">
+        {entries.length === 0 && (
+          <p className="text-center text-sm italic text-gray-400 mt-6">Speak {getLanguage(party.language).name}. Translations for you appear here.</p>
+        )}
+        {entries.map(entry => entry.speaker === 'model' ? (
+          <button
+            key={entry.id}
+            onClick={() => onReplay(entry)}
+            className="block w-full text-left rounded-2xl bg-white border border-gray-100 shadow-sm px-4 py-3 active:scale-[0.98]"
+          >
+            <p className="text-lg font-medium leading-snug text-gray-800">{entry.text}</p>
+          </button>
+        ) : (
+          <p key={entry.id} className="text-right text-[12px] text-gray-400 italic px-1">{entry.text}</p>
+        ))}
+        <div ref={endRef} />
+      </div>
+
+      {talkMode && (
+        <button
+          {...(talkMode === InputMode.HOLD ? {
+            onPointerDown: () => onTalk(true),
+            onPointerUp: () => onTalk(false),
+            onPointerLeave: () => { if (isTalking) onTalk(false); },
+            onPointerCancel: () => onTalk(false),
+          } : {
+            onClick: () => onTalk(!isTalking),
+          })}
+          onContextMenu={(e) => e.preventDefault()}
+          className={`mt-3 w-full py-4 rounded-3xl font-outfit font-bold transition-all select-none touch-none shadow-xl ${
+            isTalking ? 'bg-gradient-to-r from-emerald-500 to-emerald-600 text-white scale-[0.98]' : 'bg-gradient-to-r from-indigo-600 to-indigo-800 text-white'
+          }`}
+        >
+          {talkMode === InputMode.HOLD ? (isTalking ? 'Release to Send' : 'Hold to Talk') : (isTalking ? 'Tap to Send' : 'Tap to Talk')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Split screen for a phone lying flat between two people. The top half is
+ * turned 180° so the person across the table reads it the right way up.
+ */
+const FaceToFaceView: React.FC<FaceToFaceViewProps> = ({
+  entries, participants, onRename, talkMode, isMicOpen, onTalk, onReplay,
+  isLive, statusText, isRecording, onWake, startLabel, isStartDisabled, onStartStop, onExit,
+}) => {
+  const [talkingParty, setTalkingParty] = useState<PartyId | null>(null);
+  const [partyA, partyB] = participants;
+  const forParty = (id: PartyId) => entries.filter(e => e.participant?.id === id);
+
+  useEffect(() => {
+    if (!isMicOpen) setTalkingParty(null);
+  }, [isMicOpen]);
+
+  const talk = (id: PartyId, open: boolean) => {
+    // Only one side talks at a time.
+    if (open && talkingParty && talkingParty !== id) return;
+    setTalkingParty(open ? id : null);
+    onTalk(id, open);
+  };
+
+  const half = (party: Participant) => (
+    <Half
+      party={party}
+      entries={forParty(party.id)}
+      onRename={(name) => onRename(party.id, name)}
+      talkMode={talkMode}
+      isTalking={isMicOpen && talkingParty === party.id}
+      onTalk={(open) => talk(party.id, open)}
+      onReplay={onReplay}
+    />
+  );
+
+  return (
+    <div className="absolute inset-0 z-30 bg-gray-50 flex flex-col animate-in fade-in">
+      <div className="flex-1 min-h-0 flex flex-col rotate-180 border-b border-gray-200">
+        {half(partyB)}
+      </div>
+
+      <div className="bg-white px-4 py-2 flex items-center justify-between space-x-3 shadow-sm">
+        <button onClick={onExit} className="p-2 text-gray-400 hover:text-gray-700 transition-colors" title="Leave face-to-face">
+          <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18M6 6l12 12"/></svg>
+        </button>
+        <button onClick={onWake} disabled={!onWake} className="flex-1 text-center text-[9px] text-slate-400 font-bold uppercase tracking-[0.2em]">
+          {isRecording && <span className="inline-block w-1.5 h-1.5 mr-2 rounded-full bg-rose-600 animate-pulse align-middle" title="Recording" />}
+          {statusText}
+        </button>
+        <button
+          onClick={onStartStop}
+          disabled={isStartDisabled}
+          className={`px-4 py-2 rounded-2xl font-outfit font-bold text-sm transition-all active:scale-95 ${
+            isLive ? 'bg-slate-100 text-slate-600 border border-slate-200' : isStartDisabled ? 'bg-gray-100 text-gray-400' : 'bg-indigo-600 text-white'
+          }`}
+        >
+          {startLabel}
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 flex flex-col">
+        {half(partyA)}
+      </div>
+    </div>
+  );
+};
+
+export default FaceToFaceView;
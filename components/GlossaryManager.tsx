@@ -0,0 +1,215 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GlossarySet, GlossaryTerm, LanguagePair } from '../types';
+import { listGlossaries, saveGlossary, deleteGlossary, createGlossary, importGlossaryFile, exportGlossary, appliesToPair, setTerms } from '../services/glossary';
+import { downloadFile } from '../services/transcript-export';
+import { pairName } from '../services/languages';
+
+interface GlossaryManagerProps {
+  languagePair: LanguagePair;
+  // Called with the full list whenever a set is added, edited or removed.
+  onChange: (sets: GlossarySet[]) => void;
+  onClose: () => void;
+}
+
+const emptyTerm = (): GlossaryTerm => ({ source: '', target: '' });
+
+const GlossaryManager: React.FC<GlossaryManagerProps> = ({ languagePair, onChange, onClose }) => {
+  const [sets, setSets] = useState<GlossarySet[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTerms, setDraftTerms] = useState<GlossaryTerm[]>([]);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    const loaded = await listGlossaries();
+    setSets(loaded);
+    onChange(loaded);
+  };
+
+  useEffect(() => {
+    refresh()
+      .catch(err => console.error('Failed to load glossaries:', err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const store = async (set: GlossarySet) => {
+    try {
+      await saveGlossary(set);
+      await refresh();
+    } catch (err: any) {
+      setError(err.message || 'Could not save the glossary.');
+    }
+  };
+
+  const handleCreate = async () => {
+    const set = createGlossary(newName, languagePair);
+    setNewName('');
+    await store(set);
+    startEditing(set);
+  };
+
+  const startEditing = (set: GlossarySet) => {
+    setEditingId(set.id);
+    setDraftTerms([...set.terms, emptyTerm()]);
+  };
+
+  const updateDraft = (index: number, patch: Partial<GlossaryTerm>) => {
+    setDraftTerms(prev => {
+      const next = prev.map((t, i) => i === index ? { ...t, ...patch } : t);
+      // Keep one blank row at the bottom for the next term.
+      const last = next[next.length - 1];
+      return last.source || last.target ? [...next, emptyTerm()] : next;
+    });
+  };
+
+  const commitTerms = async (set: GlossarySet) => {
+    await store(setTerms(set, draftTerms));
+    setEditingId(null);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    setError('');
+    try {
+      await store(await importGlossaryFile(file, languagePair));
+    } catch (err: any) {
+      setError(err.message || 'Import failed.');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteGlossary(id);
+    setConfirmDeleteId(null);
+    await refresh();
+  };
+
+  const cellClass = "w-full min-w-0 rounded-lg border border-gray-200 bg-gray-50 px-2 py-1 text-[12px] focus:outline-none focus:ring-2 focus:ring-indigo-200";
+
+  return (
+    <div className="absolute inset-0 z-30 bg-gray-50 flex flex-col animate-in fade-in">
+      <div className="bg-white px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+        <h2 className="font-outfit font-bold text-lg text-gray-800">Glossaries</h2>
+        <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-700 transition-colors" title="Close">
+          <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18M6 6l12 12"/></svg>
+        </button>
+      </div>
+
+      <div className="px-6 py-3 bg-white border-b border-gray-100">
+        <div className="flex items-center space-x-2">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+            placeholder={`New ${pairName(languagePair)} glossary...`}
+            className="flex-1 rounded-2xl border border-gray-200 bg-gray-50 px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200"
+          />
+          <button
+            onClick={handleCreate}
+            className="px-3 py-2 rounded-2xl bg-indigo-600 text-[10px] font-black text-white uppercase tracking-wider"
+          >
+            Add
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-2 rounded-2xl border border-gray-200 text-[10px] font-black text-gray-500 uppercase tracking-wider hover:text-indigo-600"
+            title="Import a CSV or Salin JSON glossary"
+          >
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv,application/json,.json"
+            className="hidden"
+            onChange={(e) => handleImport(e.target.files?.[0])}
+          />
+        </div>
+        {error && <p className="mt-2 text-[11px] text-red-600">{error}</p>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-4 space-y-3">
+        {!isLoading && sets.length === 0 && (
+          <p className="text-center text-sm italic text-gray-400 mt-10">
+            No glossaries yet. Add one or import a CSV with source and target columns.
+          </p>
+        )}
+        {sets.map(set => {
+          const applies = appliesToPair(set, languagePair);
+          return (
+            <div key={set.id} className={`bg-white rounded-2xl border border-gray-100 shadow-sm px-4 py-3 ${applies ? '' : 'opacity-60'}`}>
+              <div className="flex items-start justify-between space-x-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold text-gray-800 truncate">{set.name}</p>
+                  <p className="text-[10px] text-gray-400 font-bold uppercase tracking-wider mt-1">
+                    {set.sourceLanguage} ↔ {set.targetLanguage}{' • '}{set.terms.length} terms
+                    {!applies && ' • other language pair'}
+                  </p>
+                </div>
+                <label className="flex items-center space-x-1.5 text-[9px] font-black uppercase tracking-widest text-gray-500">
+                  <input
+                    type="checkbox"
+                    checked={set.active}
+                    onChange={(e) => store({ ...set, active: e.target.checked })}
+                    className="accent-indigo-600"
+                  />
+                  <span>Active</span>
+                </label>
+              </div>
+
+              {editingId === set.id && (
+                <div className="mt-3 space-y-1.5">
+                  <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-1.5 text-[9px] font-black uppercase tracking-widest text-gray-400">
+                    <span>{set.sourceLanguage}</span><span>{set.targetLanguage}</span><span>Note</span><span />
+                  </div>
+                  {draftTerms.map((term, i) => (
+                    <div key={i} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-1.5 items-center">
+                      <input value={term.source} onChange={(e) => updateDraft(i, { source: e.target.value })} className={cellClass} />
+                      <input value={term.target} onChange={(e) => updateDraft(i, { target: e.target.value })} className={cellClass} />
+                      <input value={term.note || ''} onChange={(e) => updateDraft(i, { note: e.target.value })} className={cellClass} />
+                      <button
+                        onClick={() => setDraftTerms(prev => prev.length > 1 ? prev.filter((_, k) => k !== i) : [emptyTerm()])}
+                        className="p-1 text-gray-300 hover:text-red-500"
+                        title="Remove term"
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18M6 6l12 12"/></svg>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center justify-end space-x-3 mt-3">
+                {confirmDeleteId === set.id ? (
+                  <>
+                    <span className="text-[10px] text-red-600 font-bold uppercase">Delete forever?</span>
+                    <button onClick={() => handleDelete(set.id)} className="text-[10px] font-black text-red-600 uppercase tracking-wider">Yes</button>
+                    <button onClick={() => setConfirmDeleteId(null)} className="text-[10px] font-black text-gray-400 uppercase tracking-wider">No</button>
+                  </>
+                ) : editingId === set.id ? (
+                  <>
+                    <button onClick={() => setEditingId(null)} className="text-[10px] font-black text-gray-400 hover:text-gray-700 uppercase tracking-wider">Cancel</button>
+                    <button onClick={() => commitTerms(set)} className="px-3 py-1 rounded-xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-wider">Save</button>
+                  </>
+                ) : (
+                  <>
+                    <button onClick={() => setConfirmDeleteId(set.id)} className="text-[10px] font-black text-gray-400 hover:text-red-500 uppercase tracking-wider">Delete</button>
+                    <button onClick={() => downloadFile(exportGlossary(set, 'csv'))} className="text-[10px] font-black text-gray-400 hover:text-indigo-600 uppercase tracking-wider">CSV</button>
+                    <button onClick={() => downloadFile(exportGlossary(set, 'json'))} className="text-[10px] font-black text-gray-400 hover:text-indigo-600 uppercase tracking-wider">JSON</button>
+                    <button onClick={() => startEditing(set)} className="px-3 py-1 rounded-xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-wider">Edit terms</button>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryManager;
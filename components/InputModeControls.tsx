@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { InputMode, InputSettings, VadSettings } from '../types';
+
+interface InputModeControlsProps {
+  settings: InputSettings;
+  onChange: (settings: InputSettings) => void;
+  // Current mic RMS, drawn against the VAD thresholds while tuning.
+  level: number;
+}
+
+const MODES: { mode: InputMode, label: string }[] = [
+  { mode: InputMode.CONTINUOUS, label: 'Always On' },
+  { mode: InputMode.HOLD, label: 'Hold' },
+  { mode: InputMode.TOGGLE, label: 'Tap' },
+  { mode: InputMode.VAD, label: 'Auto' },
+];
+
+// Same scale as the visualizer: an RMS of 0.2 fills the meter.
+const toPercent = (rms: number) => Math.min(100, rms * 500);
+
+const InputModeControls: React.FC<InputModeControlsProps> = ({ settings, onChange, level }) => {
+  const [isTuning, setIsTuning] = useState(false);
+
+  const updateVad = (patch: Partial<VadSettings>) => {
+    const vad = { ...settings.vad, ...patch };
+    // Keep the close threshold at or below the open threshold.
+    if ('startThreshold' in patch) vad.stopThreshold = Math.min(vad.stopThreshold, vad.startThreshold);
+    if ('stopThreshold' in patch) vad.startThreshold = Math.max(vad.startThreshold, vad.stopThreshold);
+    onChange({ ...settings, vad });
+  };
+
+  const sliderClass = "w-full accent-indigo-600";
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center space-x-2">
+        <div className="flex flex-1 bg-gray-100 p-1 rounded-2xl">
+          {MODES.map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={() => onChange({ ...settings, mode })}
+              className={`flex-1 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${
+                settings.mode === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-400'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {settings.mode === InputMode.VAD && (
+          <button
+            onClick={() => setIsTuning(!isTuning)}
+            className={`p-2 transition-colors ${isTuning ? 'text-indigo-600' : 'text-gray-400 hover:text-indigo-600'}`}
+            title="Tune voice detection"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M4 21v-7M4 10V3M12 21v-9M12 8V3M20 21v-5M20 12V3M1 14h6M9 8h6M17 16h6"/></svg>
+          </button>
+        )}
+      </div>
+
+      {settings.mode === InputMode.VAD && isTuning && (
+        <div className="mt-3 p-4 bg-gray-50 rounded-3xl border border-gray-100 space-y-3 animate-in fade-in slide-in-from-bottom-2">
+          <div className="relative h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className={`absolute inset-y-0 left-0 transition-all duration-75 ${level >= settings.vad.startThreshold ? 'bg-emerald-500' : 'bg-gray-400'}`}
+              style={{ width: `${toPercent(level)}%` }}
+            />
+            <div className="absolute inset-y-0 w-0.5 bg-indigo-600" style={{ left: `${toPercent(settings.vad.startThreshold)}%` }} />
+            <div className="absolute inset-y-0 w-0.5 bg-indigo-300" style={{ left: `${toPercent(settings.vad.stopThreshold)}%` }} />
+          </div>
+
+          <label className="block text-[10px] font-bold text-gray-500">
+            <span className="flex justify-between"><span>Start talking level</span><span>{Math.round(toPercent(settings.vad.startThreshold))}</span></span>
+            <input
+              type="range" min={0.002} max={0.1} step={0.001}
+              value={settings.vad.startThreshold}
+              onChange={(e) => updateVad({ startThreshold: Number(e.target.value) })}
+              className={sliderClass}
+            />
+          </label>
+          <label className="block text-[10px] font-bold text-gray-500">
+            <span className="flex justify-between"><span>Stop talking level</span><span>{Math.round(toPercent(settings.vad.stopThreshold))}</span></span>
+            <input
+              type="range" min={0.001} max={0.1} step={0.001}
+              value={settings.vad.stopThreshold}
+              onChange={(e) => updateVad({ stopThreshold: Number(e.target.value) })}
+              className={sliderClass}
+            />
+          </label>
+          <label className="block text-[10px] font-bold text-gray-500">
+            <span className="flex justify-between"><span>Pause before sending</span><span>{(settings.vad.hangoverMs / 1000).toFixed(1)}s</span></span>
+            <input
+              type="range" min={200} max={2500} step={100}
+              value={settings.vad.hangoverMs}
+              onChange={(e) => updateVad({ hangoverMs: Number(e.target.value) })}
+              className={sliderClass}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InputModeControls;
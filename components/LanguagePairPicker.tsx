@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { LanguagePair } from '../types';
+import { LANGUAGES, PAIR_PRESETS, pairLabel, pairName, isSamePair } from '../services/languages';
+
+interface LanguagePairPickerProps {
+  pair: LanguagePair;
+  onChange: (pair: LanguagePair) => void;
+}
+
+const LanguagePairPicker: React.FC<LanguagePairPickerProps> = ({ pair, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (patch: Partial<LanguagePair>) => {
+    const next = { ...pair, ...patch };
+    if (next.source === next.target) return;
+    onChange(next);
+  };
+
+  const selectClass = "flex-1 min-w-0 rounded-xl border border-gray-200 bg-gray-50 px-2 py-2 text-xs font-bold text-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-200";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-3 py-1.5 rounded-2xl border border-indigo-100 bg-indigo-50 text-[10px] font-black text-indigo-600 uppercase tracking-wider shadow-sm"
+        title={pairName(pair)}
+      >
+        {pairLabel(pair)}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-white rounded-3xl border border-gray-100 shadow-2xl p-4 z-30 animate-in fade-in slide-in-from-top-2">
+          <p className="text-[9px] font-black text-gray-400 uppercase tracking-widest mb-2">Languages</p>
+          <div className="flex items-center space-x-2">
+            <select value={pair.source} onChange={(e) => update({ source: e.target.value })} className={selectClass}>
+              {LANGUAGES.map(l => <option key={l.code} value={l.code} disabled={l.code === pair.target}>{l.name}</option>)}
+            </select>
+            <button
+              onClick={() => update({ source: pair.target, target: pair.source })}
+              className="p-2 text-gray-400 hover:text-indigo-600 transition-colors"
+              title="Swap languages"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m16 3 4 4-4 4M20 7H4M8 21l-4-4 4-4M4 17h16"/></svg>
+            </button>
+            <select value={pair.target} onChange={(e) => update({ target: e.target.value })} className={selectClass}>
+              {LANGUAGES.map(l => <option key={l.code} value={l.code} disabled={l.code === pair.source}>{l.name}</option>)}
+            </select>
+          </div>
+
+          <label className="flex items-center justify-between mt-3 px-1 text-[11px] font-bold text-gray-600">
+            <span>Auto-detect direction</span>
+            <input type="checkbox" checked={pair.autoDetect} onChange={(e) => update({ autoDetect: e.target.checked })} className="accent-indigo-600" />
+          </label>
+
+          <p className="text-[9px] font-black text-gray-400 uppercase tracking-widest mt-4 mb-2">Profiles</p>
+          <div className="flex flex-wrap gap-1.5">
+            {PAIR_PRESETS.map(preset => (
+              <button
+                key={pairLabel(preset)}
+                onClick={() => { onChange(preset); setIsOpen(false); }}
+                className={`px-2.5 py-1 rounded-xl text-[10px] font-bold transition-colors ${
+                  isSamePair(preset, pair) ? 'bg-indigo-600 text-white' : 'bg-gray-50 text-gray-500 border border-gray-100 hover:text-indigo-600'
+                }`}
+              >
+                {pairName(preset)}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LanguagePairPicker;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { PasscodeRecord, checkPasscode } from '../services/passcode';
+
+interface LockScreenProps {
+  passcode: PasscodeRecord;
+  onUnlock: () => void;
+  // Forgotten passcode: wipes history and settings on this device.
+  onReset: () => Promise<void>;
+}
+
+const LockScreen: React.FC<LockScreenProps> = ({ passcode, onUnlock, onReset }) => {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code || isChecking) return;
+    setIsChecking(true);
+    const ok = await checkPasscode(code, passcode);
+    setIsChecking(false);
+    if (ok) {
+      onUnlock();
+    } else {
+      setCode('');
+      setError('Wrong passcode.');
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-gray-50 flex flex-col items-center justify-center px-8 animate-in fade-in">
+      <div className="w-14 h-14 rounded-full bg-indigo-600 flex items-center justify-center text-white mb-4">
+        <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect width="18" height="11" x="3" y="11" rx="2" ry="2"/><path d="M7 11V7a5 5 0 0 1 10 0v4"/></svg>
+      </div>
+      <h2 className="font-outfit font-bold text-lg text-gray-800">Salin is locked</h2>
+      <p className="text-[11px] text-gray-400 mb-6">Enter your passcode to continue.</p>
+
+      <form onSubmit={submit} className="w-full max-w-[240px] space-y-3">
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="current-password"
+          autoFocus
+          value={code}
+          onChange={(e) => { setCode(e.target.value.trim()); setError(''); }}
+          aria-label="Passcode"
+          className="w-full rounded-2xl border border-gray-200 bg-white px-4 py-3 text-center text-lg tracking-[0.5em] font-mono focus:outline-none focus:ring-2 focus:ring-indigo-200"
+        />
+        {error && <p className="text-center text-[11px] text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={!code || isChecking}
+          className="w-full py-3 rounded-2xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-40"
+        >
+          Unlock
+        </button>
+      </form>
+
+      <div className="mt-10 text-center">
+        {confirmReset ? (
+          <>
+            <p className="text-[11px] text-red-600 font-bold max-w-[260px]">
+              This deletes all conversations, recordings, glossaries and settings on this device.
+            </p>
+            <div className="mt-2 flex justify-center space-x-4">
+              <button onClick={onReset} className="text-[10px] font-black text-red-600 uppercase tracking-wider">Erase everything</button>
+              <button onClick={() => setConfirmReset(false)} className="text-[10px] font-black text-gray-400 uppercase tracking-wider">Cancel</button>
+            </div>
+          </>
+        ) : (
+          <button onClick={() => setConfirmReset(true)} className="text-[10px] font-black text-gray-400 hover:text-gray-700 uppercase tracking-wider">
+            Forgot passcode?
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LockScreen;
@@ -0,0 +1,62 @@
+import React from 'react';
+
+interface OfflineTranslatorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  isReady: boolean;
+  // Saves the text to be translated online once the connection returns.
+  onQueue?: () => void;
+  notice?: string;
+}
+
+const OfflineTranslator: React.FC<OfflineTranslatorProps> = ({ value, onChange, onSubmit, isReady, onQueue, notice }) => {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="px-4 pt-4 pb-2 bg-amber-50 border-t border-amber-100">
+      <div className="flex items-center justify-between mb-2 px-1">
+        <p className="text-[10px] font-black text-amber-700 uppercase tracking-widest">Offline Phrasebook</p>
+        <p className="text-[9px] font-bold text-amber-500 uppercase tracking-wider">English ↔ Filipino</p>
+      </div>
+      <div className="flex items-end space-x-2">
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={2}
+          disabled={!isReady && !onQueue}
+          placeholder={isReady || onQueue ? 'Type a phrase or tap a past bubble...' : 'Loading phrasebook...'}
+          className="flex-1 resize-none rounded-2xl border border-amber-200 bg-white px-3 py-2 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-amber-300"
+        />
+        <div className="flex flex-col space-y-1.5">
+          <button
+            onClick={onSubmit}
+            disabled={!isReady || !value.trim()}
+            className="px-4 py-2 rounded-2xl bg-amber-500 text-white text-[10px] font-black uppercase tracking-widest shadow-sm disabled:opacity-40 active:scale-95 transition-all"
+          >
+            Translate
+          </button>
+          {onQueue && (
+            <button
+              onClick={onQueue}
+              disabled={!value.trim()}
+              className="px-4 py-2 rounded-2xl border border-amber-300 bg-white text-amber-700 text-[10px] font-black uppercase tracking-widest disabled:opacity-40 active:scale-95 transition-all"
+              title="Translate online when the connection is back"
+            >
+              Later
+            </button>
+          )}
+        </div>
+      </div>
+      {notice && <p className="mt-2 px-1 text-[11px] text-amber-700 leading-snug">{notice}</p>}
+    </div>
+  );
+};
+
+export default OfflineTranslator;
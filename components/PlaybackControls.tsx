@@ -0,0 +1,70 @@
+import React from 'react';
+import { PlaybackState } from '../services/playback';
+import { MAX_SPEECH_RATE, MIN_SPEECH_RATE } from '../services/settings';
+
+interface PlaybackControlsProps {
+  state: PlaybackState;
+  onPause: () => void;
+  onResume: () => void;
+  onSkip: () => void;
+  isMuted: boolean;
+  onMutedChange: (muted: boolean) => void;
+  volume: number;
+  onVolumeChange: (volume: number) => void;
+  rate: number;
+  onRateChange: (rate: number) => void;
+}
+
+const RATES = [MIN_SPEECH_RATE, 0.9, 1, 1.1, MAX_SPEECH_RATE];
+
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({ state, onPause, onResume, onSkip, isMuted, onMutedChange, volume, onVolumeChange, rate, onRateChange }) => {
+  // Steps to the next preset above the current rate, wrapping to the slowest.
+  const nextRate = RATES.find(r => r > rate + 0.001) ?? RATES[0];
+  const buttonClass = "p-2 rounded-xl transition-colors disabled:opacity-30";
+  const quiet = "text-gray-400 hover:text-indigo-600";
+
+  return (
+    <div className="px-6 pb-4 flex items-center space-x-1">
+      {state === 'paused' ? (
+        <button onClick={onResume} className={`${buttonClass} text-indigo-600`} title="Resume speech">
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><path d="M7 4v16l13-8z"/></svg>
+        </button>
+      ) : (
+        <button onClick={onPause} disabled={state === 'idle'} className={`${buttonClass} ${quiet}`} title="Pause speech">
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><rect x="6" y="4" width="4" height="16" rx="1"/><rect x="14" y="4" width="4" height="16" rx="1"/></svg>
+        </button>
+      )}
+      <button onClick={onSkip} disabled={state === 'idle'} className={`${buttonClass} ${quiet}`} title="Skip this reply">
+        <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m5 4 10 8-10 8z"/><line x1="19" y1="5" x2="19" y2="19"/></svg>
+      </button>
+      <button
+        onClick={() => onMutedChange(!isMuted)}
+        className={`${buttonClass} ${isMuted ? 'text-rose-500' : quiet}`}
+        title={isMuted ? 'Unmute' : 'Mute'}
+      >
+        {isMuted ? (
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M11 5 6 9H2v6h4l5 4z"/><line x1="22" y1="9" x2="16" y2="15"/><line x1="16" y1="9" x2="22" y2="15"/></svg>
+        ) : (
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M11 5 6 9H2v6h4l5 4z"/><path d="M15.5 8.5a5 5 0 0 1 0 7M19 5a10 10 0 0 1 0 14"/></svg>
+        )}
+      </button>
+      <input
+        type="range" min={0} max={1} step={0.05}
+        value={volume}
+        onChange={(e) => onVolumeChange(Number(e.target.value))}
+        disabled={isMuted}
+        className="flex-1 accent-indigo-600 disabled:opacity-30"
+        aria-label="Speech volume"
+      />
+      <button
+        onClick={() => onRateChange(nextRate)}
+        className="ml-1 px-2.5 py-1 rounded-xl bg-gray-100 text-[10px] font-black text-gray-500 tabular-nums"
+        title="Playback speed"
+      >
+        {rate.toFixed(2)}×
+      </button>
+    </div>
+  );
+};
+
+export default PlaybackControls;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { PracticeReport } from '../types';
+import { getLanguage } from '../services/languages';
+
+interface PracticeReportViewProps {
+  report: PracticeReport;
+  onClose: () => void;
+}
+
+const sectionTitle = "text-[9px] font-black text-gray-400 uppercase tracking-widest mb-2";
+
+const PracticeReportView: React.FC<PracticeReportViewProps> = ({ report, onClose }) => {
+  const missed = report.goals.filter(g => !report.goalsMet.includes(g));
+
+  return (
+    <div className="absolute inset-0 z-40 bg-gray-50 flex flex-col animate-in fade-in">
+      <div className="bg-white px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+        <div className="min-w-0">
+          <h2 className="font-outfit font-bold text-lg text-gray-800 truncate">{report.scenarioTitle}</h2>
+          <p className="text-[10px] text-gray-400 font-bold uppercase tracking-wider">
+            {getLanguage(report.language).name} • {report.learnerTurns} turns • {report.createdAt.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+          </p>
+        </div>
+        <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-700 transition-colors" title="Close">
+          <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18M6 6l12 12"/></svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-5 space-y-6">
+        {report.summary && <p className="text-sm text-gray-700 leading-relaxed">{report.summary}</p>}
+
+        {(report.goalsMet.length > 0 || missed.length > 0) && (
+          <section>
+            <p className={sectionTitle}>Goals</p>
+            <ul className="space-y-1">
+              {report.goalsMet.map(goal => (
+                <li key={goal} className="text-sm text-emerald-700"><span className="font-black mr-2">✓</span>{goal}</li>
+              ))}
+              {missed.map(goal => (
+                <li key={goal} className="text-sm text-gray-400"><span className="font-black mr-2">○</span>{goal}</li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {report.mistakes.length > 0 && (
+          <section>
+            <p className={sectionTitle}>Mistakes</p>
+            <div className="space-y-2">
+              {report.mistakes.map((m, i) => (
+                <div key={i} className="bg-white rounded-2xl border border-gray-100 shadow-sm px-4 py-3">
+                  <p className="text-sm text-rose-600 line-through decoration-rose-300">{m.said}</p>
+                  <p className="text-sm font-bold text-emerald-700 mt-1">{m.better}</p>
+                  {m.explanation && <p className="text-[11px] text-gray-500 mt-1">{m.explanation}</p>}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {report.suggestions.length > 0 && (
+          <section>
+            <p className={sectionTitle}>Try saying</p>
+            <ul className="space-y-1.5">
+              {report.suggestions.map((s, i) => <li key={i} className="text-sm text-gray-700">“{s}”</li>)}
+            </ul>
+          </section>
+        )}
+
+        {report.newWords.length > 0 && (
+          <section>
+            <p className={sectionTitle}>New words</p>
+            <div className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5">
+              {report.newWords.map(w => (
+                <React.Fragment key={w.word}>
+                  <span className="text-sm font-bold text-indigo-700">{w.word}</span>
+                  <span className="text-sm text-gray-600">{w.meaning}</span>
+                </React.Fragment>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PracticeReportView;
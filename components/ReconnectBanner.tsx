@@ -0,0 +1,41 @@
+import React, { useEffect, useState } from 'react';
+
+interface ReconnectBannerProps {
+  reconnectAt: number;
+  attempt: number;
+  maxAttempts: number;
+  isOnline: boolean;
+  getBufferedSeconds: () => number;
+}
+
+const ReconnectBanner: React.FC<ReconnectBannerProps> = ({ reconnectAt, attempt, maxAttempts, isOnline, getBufferedSeconds }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  const secondsLeft = Math.max(0, Math.ceil((reconnectAt - now) / 1000));
+  const bufferedSeconds = getBufferedSeconds();
+
+  return (
+    <div className="px-6 py-3 bg-amber-50 border-b border-amber-100 animate-in slide-in-from-top">
+      <div className="flex items-center space-x-3">
+        <span className="w-2 h-2 bg-amber-500 rounded-full animate-ping" />
+        <div className="flex-1">
+          <p className="text-[11px] text-amber-800 leading-tight font-bold uppercase">
+            Connection lost • {secondsLeft > 0 ? `Retrying in ${secondsLeft}s` : 'Reconnecting...'}
+          </p>
+          <p className="text-[11px] text-amber-700 leading-snug mt-0.5">
+            Attempt {attempt} of {maxAttempts}
+            {!isOnline && ' • waiting for signal'}
+            {bufferedSeconds >= 1 && ` • ${Math.round(bufferedSeconds)}s of speech saved`}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReconnectBanner;
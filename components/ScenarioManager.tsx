@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import { LanguagePair, PracticeReport, Scenario } from '../types';
+import { createScenario, deleteScenario, listPracticeReports, listScenarios, saveScenario } from '../services/scenarios';
+import { LANGUAGES, getLanguage } from '../services/languages';
+import PracticeReportView from './PracticeReportView';
+
+interface ScenarioManagerProps {
+  selectedId: string | null;
+  // null goes back to free chat.
+  onSelect: (scenario: Scenario | null) => void;
+  languagePair: LanguagePair;
+  onClose: () => void;
+}
+
+interface Draft {
+  title: string;
+  persona: string;
+  goals: string;
+  vocabulary: string;
+  language: string;
+}
+
+const toDraft = (s: Scenario): Draft => ({
+  title: s.title, persona: s.persona, goals: s.goals.join('\n'), vocabulary: s.vocabulary.join('\n'), language: s.language,
+});
+
+// Goals go one per line; vocabulary also accepts commas.
+const fromDraft = (d: Draft) => createScenario({
+  title: d.title,
+  persona: d.persona,
+  goals: d.goals.split('\n'),
+  vocabulary: d.vocabulary.split(/[\n,]/),
+  language: d.language,
+});
+
+const ScenarioManager: React.FC<ScenarioManagerProps> = ({ selectedId, onSelect, languagePair, onClose }) => {
+  const [tab, setTab] = useState<'scenarios' | 'feedback'>('scenarios');
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [reports, setReports] = useState<PracticeReport[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [openReport, setOpenReport] = useState<PracticeReport | null>(null);
+  const [error, setError] = useState('');
+
+  const refresh = () => listScenarios()
+    .then(setScenarios)
+    .catch(err => console.error('Failed to load scenarios:', err));
+
+  useEffect(() => {
+    refresh();
+    listPracticeReports()
+      .then(setReports)
+      .catch(err => console.error('Failed to load practice reports:', err));
+  }, []);
+
+  const startEditing = (scenario: Scenario | null) => {
+    setError('');
+    setEditingId(scenario?.id ?? 'new');
+    setDraft(scenario ? toDraft(scenario) : { title: '', persona: '', goals: '', vocabulary: '', language: languagePair.target });
+  };
+
+  const commit = async () => {
+    if (!draft) return;
+    if (!draft.persona.trim()) {
+      setError('Describe who Salin should play.');
+      return;
+    }
+    const fields = fromDraft(draft);
+    const existing = scenarios.find(s => s.id === editingId);
+    try {
+      const saved = await saveScenario(existing ? { ...fields, id: existing.id } : fields);
+      if (saved.id === selectedId) onSelect(saved);
+      setEditingId(null);
+      setDraft(null);
+      await refresh();
+    } catch (err: any) {
+      setError(err.message || 'Could not save the scenario.');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteScenario(id);
+    setConfirmDeleteId(null);
+    if (id === selectedId) onSelect(null);
+    await refresh();
+  };
+
+  const inputClass = "w-full rounded-2xl border border-gray-200 bg-gray-50 px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200";
+  const tabClass = (active: boolean) => `flex-1 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+    active ? 'bg-white text-emerald-600 shadow-sm' : 'text-gray-400'
+  }`;
+
+  const editor = draft && (
+    <div className="bg-white rounded-2xl border border-emerald-100 shadow-sm px-4 py-3 space-y-2">
+      <input value={draft.title} onChange={(e) => setDraft({ ...draft, title: e.target.value })} placeholder="Title, e.g. Pharmacy counter" className={inputClass} />
+      <textarea
+        value={draft.persona}
+        onChange={(e) => setDraft({ ...draft, persona: e.target.value })}
+        placeholder="Who Salin plays and the setting"
+        rows={2}
+        className={inputClass}
+      />
+      <textarea
+        value={draft.goals}
+        onChange={(e) => setDraft({ ...draft, goals: e.target.value })}
+        placeholder="Goals for the learner, one per line"
+        rows={3}
+        className={inputClass}
+      />
+      <textarea
+        value={draft.vocabulary}
+        onChange={(e) => setDraft({ ...draft, vocabulary: e.target.value })}
+        placeholder="Vocabulary to practise, one per line or comma separated"
+        rows={2}
+        className={inputClass}
+      />
+      <select value={draft.language} onChange={(e) => setDraft({ ...draft, language: e.target.value })} className={inputClass}>
+        {LANGUAGES.map(l => <option key={l.code} value={l.code}>Practise {l.name}</option>)}
+      </select>
+      {error && <p className="text-[11px] text-red-600">{error}</p>}
+      <div className="flex justify-end space-x-3">
+        <button onClick={() => { setEditingId(null); setDraft(null); }} className="text-[10px] font-black text-gray-400 hover:text-gray-700 uppercase tracking-wider">Cancel</button>
+        <button onClick={commit} className="px-3 py-1 rounded-xl bg-emerald-600 text-white text-[10px] font-black uppercase tracking-wider">Save</button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="absolute inset-0 z-30 bg-gray-50 flex flex-col animate-in fade-in">
+      <div className="bg-white px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+        <h2 className="font-outfit font-bold text-lg text-gray-800">Practice</h2>
+        <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-700 transition-colors" title="Close">
+          <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18M6 6l12 12"/></svg>
+        </button>
+      </div>
+
+      <div className="px-6 py-3 bg-white border-b border-gray-100">
+        <div className="flex bg-gray-100 p-1 rounded-2xl">
+          <button onClick={() => setTab('scenarios')} className={tabClass(tab === 'scenarios')}>Scenarios</button>
+          <button onClick={() => setTab('feedback')} className={tabClass(tab === 'feedback')}>Feedback ({reports.length})</button>
+        </div>
+      </div>
+
+      {tab === 'scenarios' ? (
+        <div className="flex-1 overflow-y-auto px-4 py-4 space-y-3">
+          <button
+            onClick={() => { onSelect(null); onClose(); }}
+            className={`w-full text-left bg-white rounded-2xl border shadow-sm px-4 py-3 ${selectedId === null ? 'border-emerald-300 ring-2 ring-emerald-100' : 'border-gray-100'}`}
+          >
+            <p className="text-sm font-bold text-gray-800">Free chat</p>
+            <p className="text-[11px] text-gray-400 mt-0.5">Talk with Salin about anything, no role-play.</p>
+          </button>
+
+          {scenarios.map(scenario => editingId === scenario.id ? (
+            <React.Fragment key={scenario.id}>{editor}</React.Fragment>
+          ) : (
+            <div
+              key={scenario.id}
+              className={`bg-white rounded-2xl border shadow-sm px-4 py-3 ${selectedId === scenario.id ? 'border-emerald-300 ring-2 ring-emerald-100' : 'border-gray-100'}`}
+            >
+              <div className="flex items-start justify-between space-x-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold text-gray-800">{scenario.title}</p>
+                  <p className="text-[10px] text-gray-400 font-bold uppercase tracking-wider mt-0.5">
+                    {getLanguage(scenario.language).name} • {scenario.goals.length} goals • {scenario.vocabulary.length} words{scenario.builtIn ? '' : ' • yours'}
+                  </p>
+                  <p className="text-[12px] text-gray-500 mt-1.5 leading-snug">{scenario.persona}</p>
+                </div>
+              </div>
+              <div className="flex items-center justify-end space-x-3 mt-3">
+                {confirmDeleteId === scenario.id ? (
+                  <>
+                    <span className="text-[10px] text-red-600 font-bold uppercase">Delete forever?</span>
+                    <button onClick={() => handleDelete(scenario.id)} className="text-[10px] font-black text-red-600 uppercase tracking-wider">Yes</button>
+                    <button onClick={() => setConfirmDeleteId(null)} className="text-[10px] font-black text-gray-400 uppercase tracking-wider">No</button>
+                  </>
+                ) : (
+                  <>
+                    {!scenario.builtIn && (
+                      <>
+                        <button onClick={() => setConfirmDeleteId(scenario.id)} className="text-[10px] font-black text-gray-400 hover:text-red-500 uppercase tracking-wider">Delete</button>
+                        <button onClick={() => startEditing(scenario)} className="text-[10px] font-black text-gray-400 hover:text-emerald-600 uppercase tracking-wider">Edit</button>
+                      </>
+                    )}
+                    <button
+                      onClick={() => { onSelect(scenario); onClose(); }}
+                      className="px-3 py-1 rounded-xl bg-emerald-600 text-white text-[10px] font-black uppercase tracking-wider"
+                    >
+                      {selectedId === scenario.id ? 'Selected' : 'Practise'}
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {editingId === 'new' ? editor : (
+            <button
+              onClick={() => startEditing(null)}
+              className="w-full py-3 rounded-2xl border-2 border-dashed border-gray-200 text-[10px] font-black text-gray-400 uppercase tracking-wider hover:text-emerald-600 hover:border-emerald-200"
+            >
+              New scenario
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto px-4 py-4 space-y-3">
+          {reports.length === 0 && (
+            <p className="text-center text-sm italic text-gray-400 mt-10">
+              Finish a practice session to get feedback on your turns.
+            </p>
+          )}
+          {reports.map(report => (
+            <button
+              key={report.id}
+              onClick={() => setOpenReport(report)}
+              className="w-full text-left bg-white rounded-2xl border border-gray-100 shadow-sm px-4 py-3 active:scale-[0.98]"
+            >
+              <p className="text-sm font-bold text-gray-800">{report.scenarioTitle}</p>
+              <p className="text-[10px] text-gray-400 font-bold uppercase tracking-wider mt-0.5">
+                {report.createdAt.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })} • {report.mistakes.length} mistakes • {report.newWords.length} new words
+              </p>
+              {report.summary && <p className="text-[12px] text-gray-500 mt-1.5 line-clamp-2">{report.summary}</p>}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {openReport && (
+        <PracticeReportView
+          report={openReport}
+          onClose={() => setOpenReport(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ScenarioManager;
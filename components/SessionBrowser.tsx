@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppMode, ConversationSession, PrivacySettings } from '../types';
+import { searchSessions, renameSession, deleteSession, importSession } from '../services/history-store';
+import { parseTranscriptJson } from '../services/transcript-export';
+import { redactEntries } from '../services/privacy';
+import ExportMenu from './ExportMenu';
+
+interface SessionBrowserProps {
+  activeSessionIds: string[];
+  privacy: PrivacySettings;
+  onOpen: (session: ConversationSession) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatRange = (session: ConversationSession) => {
+  const day = session.startedAt.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' });
+  const time = (d: Date) => d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return session.endedAt
+    ? `${day} • ${time(session.startedAt)} – ${time(session.endedAt)}`
+    : `${day} • ${time(session.startedAt)}`;
+};
+
+const SessionBrowser: React.FC<SessionBrowserProps> = ({ activeSessionIds, privacy, onOpen, onDeleted, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [sessions, setSessions] = useState<ConversationSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [importError, setImportError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = (q: string) => {
+    searchSessions(q)
+      .then(setSessions)
+      .catch(err => console.error('Failed to load sessions:', err))
+      .finally(() => setIsLoading(false));
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => refresh(query), 150);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const commitRename = async (id: string) => {
+    await renameSession(id, editName);
+    setEditingId(null);
+    refresh(query);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    setImportError('');
+    try {
+      const doc = parseTranscriptJson(await file.text());
+      await importSession(doc.session, redactEntries(doc.entries, privacy));
+      refresh(query);
+    } catch (err: any) {
+      setImportError(err.message || 'Import failed.');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteSession(id);
+    setConfirmDeleteId(null);
+    onDeleted(id);
+    refresh(query);
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 bg-gray-50 flex flex-col animate-in fade-in">
+      <div className="bg-white px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+        <h2 className="font-outfit font-bold text-lg text-gray-800">Past Conversations</h2>
+        <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-700 transition-colors" title="Close">
+          <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18M6 6l12 12"/></svg>
+        </button>
+      </div>
+
+      <div className="px-6 py-3 bg-white border-b border-gray-100">
+        <div className="flex items-center space-x-2">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search names and transcripts..."
+            className="flex-1 rounded-2xl border border-gray-200 bg-gray-50 px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-2 rounded-2xl border border-gray-200 text-[10px] font-black text-gray-500 uppercase tracking-wider hover:text-indigo-600"
+            title="Import a Salin JSON transcript"
+          >
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => handleImport(e.target.files?.[0])}
+          />
+        </div>
+        {importError && <p className="mt-2 text-[11px] text-red-600">{importError}</p>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-4 space-y-3">
+        {!isLoading && sessions.length === 0 && (
+          <p className="text-center text-sm italic text-gray-400 mt-10">
+            {query ? 'No conversations match your search.' : 'No saved conversations yet.'}
+          </p>
+        )}
+        {sessions.map(session => (
+          <div key={session.id} className="bg-white rounded-2xl border border-gray-100 shadow-sm px-4 py-3">
+            <div className="flex items-start justify-between space-x-2">
+              <div className="flex-1 min-w-0">
+                {editingId === session.id ? (
+                  <input
+                    autoFocus
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') commitRename(session.id); if (e.key === 'Escape') setEditingId(null); }}
+                    onBlur={() => commitRename(session.id)}
+                    className="w-full rounded-lg border border-indigo-200 px-2 py-1 text-sm font-bold text-gray-800 focus:outline-none"
+                  />
+                ) : (
+                  <p className="text-sm font-bold text-gray-800 truncate">{session.name}</p>
+                )}
+                <p className="text-[10px] text-gray-400 font-bold uppercase tracking-wider mt-1">
+                  <span className={session.mode === AppMode.TRANSLATE ? 'text-indigo-500' : 'text-emerald-500'}>{session.mode}</span>
+                  {' • '}{formatRange(session)}{' • '}{session.entryCount} lines
+                </p>
+                {session.preview && <p className="text-[12px] text-gray-500 mt-1 truncate">{session.preview}</p>}
+              </div>
+              {activeSessionIds.includes(session.id) && (
+                <span className="px-2 py-0.5 rounded-full bg-indigo-50 text-[9px] font-black text-indigo-600 uppercase tracking-widest">Open</span>
+              )}
+            </div>
+
+            <div className="flex items-center justify-end space-x-3 mt-3">
+              {confirmDeleteId === session.id ? (
+                <>
+                  <span className="text-[10px] text-red-600 font-bold uppercase">Delete forever?</span>
+                  <button onClick={() => handleDelete(session.id)} className="text-[10px] font-black text-red-600 uppercase tracking-wider">Yes</button>
+                  <button onClick={() => setConfirmDeleteId(null)} className="text-[10px] font-black text-gray-400 uppercase tracking-wider">No</button>
+                </>
+              ) : (
+                <>
+                  <button onClick={() => { setEditingId(session.id); setEditName(session.name); }} className="text-[10px] font-black text-gray-400 hover:text-gray-700 uppercase tracking-wider">Rename</button>
+                  <button onClick={() => setConfirmDeleteId(session.id)} className="text-[10px] font-black text-gray-400 hover:text-red-500 uppercase tracking-wider">Delete</button>
+                  <button onClick={() => setExportingId(exportingId === session.id ? null : session.id)} className="text-[10px] font-black text-gray-400 hover:text-indigo-600 uppercase tracking-wider">Export</button>
+                  <button onClick={() => onOpen(session)} className="px-3 py-1 rounded-xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-wider">Open</button>
+                </>
+              )}
+            </div>
+            {exportingId === session.id && <ExportMenu session={session} privacy={privacy} />}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SessionBrowser;
@@ -0,0 +1,365 @@
+import React, { useEffect, useState } from 'react';
+import { PiiCategory, PrivacySettings, SessionSettings } from '../types';
+import { CredentialSettings, CredentialSource, DEFAULT_BROKER_URL } from '../services/credentials';
+import { PII_CATEGORIES, RETENTION_OPTIONS } from '../services/privacy';
+import { MIN_PASSCODE_LENGTH } from '../services/passcode';
+import { DEFAULT_SESSION_SETTINGS, FORMALITY_LEVELS, MAX_SPEECH_RATE, MIN_SPEECH_RATE, MicrophoneOption, PREBUILT_VOICES, listMicrophones } from '../services/settings';
+
+interface SettingsPanelProps {
+  settings: SessionSettings;
+  onChange: (settings: SessionSettings) => void;
+  credentials: CredentialSettings;
+  onCredentialsChange: (credentials: CredentialSettings) => void;
+  privacy: PrivacySettings;
+  onPrivacyChange: (privacy: PrivacySettings) => void;
+  hasPasscode: boolean;
+  // null removes the passcode.
+  onPasscodeChange: (code: string | null) => Promise<void>;
+  onPreviewVoice: (voiceName: string) => void;
+  isPreviewing: boolean;
+  // A session is running; most changes wait for the next one.
+  isLive: boolean;
+  onClose: () => void;
+}
+
+const PROCESSING: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl', label: string, hint: string }[] = [
+  { key: 'echoCancellation', label: 'Echo cancellation', hint: 'Keeps Salin from hearing its own voice on speaker.' },
+  { key: 'noiseSuppression', label: 'Noise suppression', hint: 'Filters steady background noise such as fans.' },
+  { key: 'autoGainControl', label: 'Automatic gain', hint: 'Evens out quiet and loud speakers.' },
+];
+
+const CREDENTIAL_SOURCES: { source: CredentialSource, label: string }[] = [
+  { source: 'key', label: 'My API key' },
+  { source: 'broker', label: 'Token service' },
+];
+
+const sectionTitle = "text-[9px] font-black text-gray-400 uppercase tracking-widest mb-2";
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  settings, onChange, credentials, onCredentialsChange, privacy, onPrivacyChange, hasPasscode, onPasscodeChange, onPreviewVoice, isPreviewing, isLive, onClose,
+}) => {
+  const [microphones, setMicrophones] = useState<MicrophoneOption[]>([]);
+  // null while the passcode form is closed.
+  const [passcodeDraft, setPasscodeDraft] = useState<string | null>(null);
+  const [passcodeError, setPasscodeError] = useState('');
+
+  useEffect(() => {
+    const refresh = () => listMicrophones()
+      .then(setMicrophones)
+      .catch(err => console.warn('Could not list microphones:', err));
+    refresh();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refresh);
+  }, []);
+
+  const update = (patch: Partial<SessionSettings>) => onChange({ ...settings, ...patch });
+  const updateCredentials = (patch: Partial<CredentialSettings>) => onCredentialsChange({ ...credentials, ...patch });
+  const updatePrivacy = (patch: Partial<PrivacySettings>) => onPrivacyChange({ ...privacy, ...patch });
+
+  const toggleCategory = (category: PiiCategory, on: boolean) => updatePrivacy({
+    categories: on ? [...privacy.categories, category] : privacy.categories.filter(c => c !== category),
+  });
+
+  const commitPasscode = async () => {
+    if (passcodeDraft === null) return;
+    if (!/^\d+$/.test(passcodeDraft) || passcodeDraft.length < MIN_PASSCODE_LENGTH) {
+      setPasscodeError(`Use at least ${MIN_PASSCODE_LENGTH} digits.`);
+      return;
+    }
+    await onPasscodeChange(passcodeDraft);
+    setPasscodeDraft(null);
+    setPasscodeError('');
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 bg-gray-50 flex flex-col animate-in fade-in">
+      <div className="bg-white px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+        <h2 className="font-outfit font-bold text-lg text-gray-800">Settings</h2>
+        <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-700 transition-colors" title="Close">
+          <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18M6 6l12 12"/></svg>
+        </button>
+      </div>
+
+      {isLive && (
+        <p className="px-6 py-2 bg-amber-50 border-b border-amber-100 text-[11px] font-bold text-amber-700">
+          Voice, model, microphone, register and recording changes apply from the next session.
+        </p>
+      )}
+
+      <div className="flex-1 overflow-y-auto px-6 py-5 space-y-6">
+        <section>
+          <p className={sectionTitle}>Formality</p>
+          <div className="flex bg-gray-100 p-1 rounded-2xl">
+            {FORMALITY_LEVELS.map(({ level, label }) => (
+              <button
+                key={level}
+                onClick={() => update({ formality: level })}
+                className={`flex-1 py-1.5 rounded-xl text-[10px] font-black uppercase transition-all ${
+                  settings.formality === level ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-400'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <p className={sectionTitle}>Voice</p>
+          <div className="grid grid-cols-2 gap-2">
+            {PREBUILT_VOICES.map(voice => (
+              <button
+                key={voice.name}
+                onClick={() => update({ voiceName: voice.name })}
+                className={`px-3 py-2 rounded-2xl border text-left transition-all ${
+                  settings.voiceName === voice.name ? 'border-indigo-600 bg-indigo-50' : 'border-gray-200 bg-white'
+                }`}
+              >
+                <span className="block text-sm font-bold text-gray-800">{voice.name}</span>
+                <span className="block text-[10px] text-gray-400">{voice.description}</span>
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => onPreviewVoice(settings.voiceName)}
+            disabled={isPreviewing}
+            className="mt-2 px-3 py-1.5 rounded-2xl border border-indigo-100 bg-indigo-50 text-[10px] font-black text-indigo-600 uppercase tracking-wider disabled:opacity-50"
+          >
+            {isPreviewing ? 'Playing...' : `Preview ${settings.voiceName}`}
+          </button>
+        </section>
+
+        <section>
+          <p className={sectionTitle}>Playback</p>
+          <label className="block text-[10px] font-bold text-gray-500">
+            <span className="flex justify-between"><span>Slower</span><span>{settings.speechRate.toFixed(2)}×</span><span>Faster</span></span>
+            <input
+              type="range" min={MIN_SPEECH_RATE} max={MAX_SPEECH_RATE} step={0.05}
+              value={settings.speechRate}
+              onChange={(e) => update({ speechRate: Number(e.target.value) })}
+              className="w-full accent-indigo-600"
+            />
+          </label>
+          <label className="mt-3 flex items-start space-x-3">
+            <input
+              type="checkbox"
+              checked={settings.bargeIn}
+              onChange={(e) => update({ bargeIn: e.target.checked })}
+              className="mt-0.5 accent-indigo-600"
+            />
+            <span>
+              <span className="block text-sm font-bold text-gray-700">Stop speaking when I talk</span>
+              <span className="block text-[11px] text-gray-400">
+                Cuts Salin off as soon as the microphone hears you. Works best with headphones or echo cancellation on.
+              </span>
+            </span>
+          </label>
+        </section>
+
+        <section>
+          <p className={sectionTitle}>Microphone</p>
+          <select
+            value={settings.microphoneId}
+            onChange={(e) => update({ microphoneId: e.target.value })}
+            className="w-full rounded-2xl border border-gray-200 bg-white px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200"
+          >
+            <option value="">System default</option>
+            {microphones.map(mic => <option key={mic.deviceId} value={mic.deviceId}>{mic.label}</option>)}
+            {settings.microphoneId && !microphones.some(m => m.deviceId === settings.microphoneId) && (
+              <option value={settings.microphoneId}>Saved microphone (not connected)</option>
+            )}
+          </select>
+          <div className="mt-3 space-y-2">
+            {PROCESSING.map(({ key, label, hint }) => (
+              <label key={key} className="flex items-start space-x-3">
+                <input
+                  type="checkbox"
+                  checked={settings[key]}
+                  onChange={(e) => update({ [key]: e.target.checked })}
+                  className="mt-0.5 accent-indigo-600"
+                />
+                <span>
+                  <span className="block text-sm font-bold text-gray-700">{label}</span>
+                  <span className="block text-[11px] text-gray-400">{hint}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <p className={sectionTitle}>Recording</p>
+          <label className="flex items-start space-x-3">
+            <input
+              type="checkbox"
+              checked={settings.recordAudio}
+              onChange={(e) => update({ recordAudio: e.target.checked })}
+              className="mt-0.5 accent-rose-600"
+            />
+            <span>
+              <span className="block text-sm font-bold text-gray-700">Record session audio</span>
+              <span className="block text-[11px] text-gray-400">
+                Saves both voices with the conversation for review. Only turn this on when everyone taking part has agreed to be recorded.
+              </span>
+            </span>
+          </label>
+        </section>
+
+        <section>
+          <p className={sectionTitle}>Privacy</p>
+          <label className="flex items-start space-x-3">
+            <input
+              type="checkbox"
+              checked={privacy.redact}
+              onChange={(e) => updatePrivacy({ redact: e.target.checked })}
+              className="mt-0.5 accent-indigo-600"
+            />
+            <span>
+              <span className="block text-sm font-bold text-gray-700">Mask personal details</span>
+              <span className="block text-[11px] text-gray-400">
+                Replaces them with labels like [PHONE] in saved history, messages waiting to be sent and exports, and speaker names with Party A and B. The screen still shows what was said, and recorded audio is not masked.
+              </span>
+            </span>
+          </label>
+          {privacy.redact && (
+            <div className="mt-3 pl-7 space-y-2">
+              <div className="flex flex-wrap gap-x-4 gap-y-1.5">
+                {PII_CATEGORIES.map(({ category, label }) => (
+                  <label key={category} className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={privacy.categories.includes(category)}
+                      onChange={(e) => toggleCategory(category, e.target.checked)}
+                      className="accent-indigo-600"
+                    />
+                    <span>{label}</span>
+                  </label>
+                ))}
+              </div>
+              <textarea
+                value={privacy.customPatterns.join('\n')}
+                onChange={(e) => updatePrivacy({ customPatterns: e.target.value.split('\n') })}
+                placeholder={'Also mask, one per line\nWard 3B\n/MRN-\\d+/'}
+                rows={3}
+                className="w-full rounded-2xl border border-gray-200 bg-white px-4 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-indigo-200"
+              />
+              <p className="text-[11px] text-gray-400">Plain text matches regardless of case; wrap a regular expression in slashes. Expressions over 100 characters or with a repeat inside a repeated group, like (a+)+, are ignored.</p>
+            </div>
+          )}
+
+          <p className="mt-4 text-sm font-bold text-gray-700">Keep history</p>
+          <select
+            value={privacy.retentionDays}
+            onChange={(e) => updatePrivacy({ retentionDays: Number(e.target.value) })}
+            className="mt-1 w-full rounded-2xl border border-gray-200 bg-white px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200"
+          >
+            {RETENTION_OPTIONS.map(({ days, label }) => <option key={days} value={days}>{label}</option>)}
+          </select>
+          {privacy.retentionDays > 0 && (
+            <p className="mt-1 text-[11px] text-gray-400">Older conversations, recordings and practice feedback are deleted from this device.</p>
+          )}
+
+          <p className="mt-4 text-sm font-bold text-gray-700">Passcode lock</p>
+          {passcodeDraft === null ? (
+            <div className="mt-1 flex items-center space-x-3">
+              <button
+                onClick={() => setPasscodeDraft('')}
+                className="text-[10px] font-black text-indigo-600 uppercase tracking-wider"
+              >
+                {hasPasscode ? 'Change passcode' : 'Set passcode'}
+              </button>
+              {hasPasscode && (
+                <button
+                  onClick={() => onPasscodeChange(null)}
+                  className="text-[10px] font-black text-gray-400 hover:text-red-500 uppercase tracking-wider"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          ) : (
+            <div className="mt-1 flex items-center space-x-3">
+              <input
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                autoFocus
+                value={passcodeDraft}
+                onChange={(e) => setPasscodeDraft(e.target.value.trim())}
+                onKeyDown={(e) => e.key === 'Enter' && commitPasscode()}
+                placeholder="New passcode"
+                className="flex-1 rounded-2xl border border-gray-200 bg-white px-4 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-indigo-200"
+              />
+              <button onClick={() => { setPasscodeDraft(null); setPasscodeError(''); }} className="text-[10px] font-black text-gray-400 hover:text-gray-700 uppercase tracking-wider">Cancel</button>
+              <button onClick={commitPasscode} className="px-3 py-1 rounded-xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-wider">Save</button>
+            </div>
+          )}
+          {passcodeError && <p className="mt-1 text-[11px] text-red-600">{passcodeError}</p>}
+          <p className="mt-1 text-[11px] text-gray-400">
+            Asked for when the app opens and after it has been in the background for a few minutes. It hides the app but does not encrypt what is saved.
+          </p>
+        </section>
+
+        <section>
+          <p className={sectionTitle}>Live model</p>
+          <input
+            value={settings.model}
+            onChange={(e) => update({ model: e.target.value.trim() })}
+            placeholder="Provider default"
+            className="w-full rounded-2xl border border-gray-200 bg-white px-4 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-indigo-200"
+          />
+        </section>
+
+        <section>
+          <p className={sectionTitle}>API access</p>
+          <div className="flex bg-gray-100 p-1 rounded-2xl">
+            {CREDENTIAL_SOURCES.map(({ source, label }) => (
+              <button
+                key={source}
+                onClick={() => updateCredentials({ source })}
+                className={`flex-1 py-1.5 rounded-xl text-[10px] font-black uppercase transition-all ${
+                  credentials.source === source ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-400'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {credentials.source === 'key' ? (
+            <>
+              <input
+                type="password"
+                autoComplete="off"
+                value={credentials.apiKey}
+                onChange={(e) => updateCredentials({ apiKey: e.target.value.trim() })}
+                placeholder="Gemini API key"
+                className="mt-2 w-full rounded-2xl border border-gray-200 bg-white px-4 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-indigo-200"
+              />
+              <p className="mt-1 text-[11px] text-gray-400">Stored only in this browser and sent only to the translation service.</p>
+            </>
+          ) : (
+            <>
+              <input
+                type="url"
+                value={credentials.brokerUrl}
+                onChange={(e) => updateCredentials({ brokerUrl: e.target.value.trim() })}
+                placeholder={DEFAULT_BROKER_URL || 'https://example.org/token'}
+                className="mt-2 w-full rounded-2xl border border-gray-200 bg-white px-4 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-indigo-200"
+              />
+              <p className="mt-1 text-[11px] text-gray-400">Your organisation's service hands out short-lived access for each session.</p>
+            </>
+          )}
+        </section>
+
+        <button
+          onClick={() => onChange(DEFAULT_SESSION_SETTINGS)}
+          className="text-[10px] font-black text-gray-400 hover:text-red-500 uppercase tracking-wider"
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { StandbySettings } from '../types';
+import { WakeWordModel } from '../services/wake-word';
+
+interface StandbyMenuProps {
+  settings: StandbySettings;
+  onChange: (settings: StandbySettings) => void;
+  wakeWord: WakeWordModel | null;
+  onTrainWakeWord: () => void;
+}
+
+const NAP_OPTIONS: { seconds: number, label: string }[] = [
+  { seconds: 0, label: 'Never' },
+  { seconds: 30, label: '30s' },
+  { seconds: 60, label: '1m' },
+  { seconds: 120, label: '2m' },
+  { seconds: 300, label: '5m' },
+];
+
+const StandbyMenu: React.FC<StandbyMenuProps> = ({ settings, onChange, wakeWord, onTrainWakeWord }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-2 transition-colors ${settings.napAfterSeconds ? 'text-indigo-600' : 'text-gray-400 hover:text-indigo-600'}`}
+        title="Standby"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 3a6 6 0 0 0 9 9 9 9 0 1 1-9-9Z"/></svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-white rounded-3xl border border-gray-100 shadow-2xl p-4 z-30 animate-in fade-in slide-in-from-top-2">
+          <p className="text-[9px] font-black text-gray-400 uppercase tracking-widest mb-2">Nap after silence</p>
+          <div className="flex bg-gray-100 p-1 rounded-2xl">
+            {NAP_OPTIONS.map(({ seconds, label }) => (
+              <button
+                key={seconds}
+                onClick={() => onChange({ ...settings, napAfterSeconds: seconds })}
+                className={`flex-1 py-1.5 rounded-xl text-[10px] font-black uppercase transition-all ${
+                  settings.napAfterSeconds === seconds ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-400'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[11px] text-gray-500 leading-snug mt-2">
+            While napping nothing is sent to the translator. Tap Salin to wake it.
+          </p>
+
+          <p className="text-[9px] font-black text-gray-400 uppercase tracking-widest mt-4 mb-2">Wake word</p>
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-bold text-gray-700">{wakeWord ? `"${wakeWord.word}"` : 'Not set'}</span>
+            <button
+              onClick={() => { setIsOpen(false); onTrainWakeWord(); }}
+              className="px-3 py-1.5 rounded-2xl border border-indigo-100 bg-indigo-50 text-[10px] font-black text-indigo-600 uppercase tracking-wider"
+            >
+              {wakeWord ? 'Retrain' : 'Set Up'}
+            </button>
+          </div>
+          {wakeWord && (
+            <label className="block mt-3 text-[10px] font-bold text-gray-500">
+              <span className="flex justify-between"><span>Sensitivity</span><span>{Math.round(settings.wakeSensitivity * 100)}%</span></span>
+              <input
+                type="range" min={0} max={1} step={0.05}
+                value={settings.wakeSensitivity}
+                onChange={(e) => onChange({ ...settings, wakeSensitivity: Number(e.target.value) })}
+                className="w-full accent-indigo-600"
+              />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StandbyMenu;
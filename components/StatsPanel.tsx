@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { getSession } from '../services/history-store';
+import { loadPreference, savePreference } from '../services/preferences';
+import { SessionMetrics, TurnMetrics, estimateAudioCost, exportMetrics, getSessionMetrics, summarizeMetrics } from '../services/session-metrics';
+import { downloadFile } from '../services/transcript-export';
+
+interface StatsPanelProps {
+  // The open conversation, whose earlier runs are loaded from history.
+  sessionId: string | null;
+  // The run in progress, if a session is live.
+  live: SessionMetrics | null;
+  onClose: () => void;
+}
+
+interface AudioPricing {
+  // Currency units per million audio tokens.
+  input: number;
+  output: number;
+}
+
+const PRICING_KEY = 'audioPricing';
+const DEFAULT_PRICING: AudioPricing = { input: 3, output: 12 };
+// Only the most recent turns fit the charts.
+const CHART_TURNS = 30;
+
+const sectionTitle = "text-[9px] font-black text-gray-400 uppercase tracking-widest mb-2";
+
+const formatMs = (ms?: number) => ms === undefined ? '—' : ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+const formatMinutes = (seconds: number) => `${(seconds / 60).toFixed(1)} min`;
+
+const Stat: React.FC<{ label: string, value: string }> = ({ label, value }) => (
+  <div className="bg-white rounded-2xl border border-gray-100 shadow-sm px-3 py-2">
+    <p className="text-[9px] font-black text-gray-400 uppercase tracking-widest">{label}</p>
+    <p className="text-lg font-outfit font-bold text-gray-800">{value}</p>
+  </div>
+);
+
+// One bar per turn, scaled to the tallest; interrupted turns are drawn in amber.
+const BarChart: React.FC<{ turns: TurnMetrics[], value: (turn: TurnMetrics) => number | undefined, format: (value: number) => string }> = ({ turns, value, format }) => {
+  const values = turns.map(value);
+  const max = Math.max(1, ...values.map(v => v || 0));
+  return (
+    <div className="bg-white rounded-2xl border border-gray-100 shadow-sm px-3 py-3">
+      <div className="flex items-end h-24 space-x-1">
+        {turns.map((turn, i) => (
+          <div
+            key={i}
+            title={values[i] === undefined ? 'No reply audio' : format(values[i]!)}
+            className={`flex-1 rounded-t ${turn.interrupted ? 'bg-amber-400' : 'bg-indigo-500'}`}
+            style={{ height: `${((values[i] || 0) / max) * 100}%`, minHeight: values[i] === undefined ? 0 : 2 }}
+          />
+        ))}
+      </div>
+      <p className="mt-1 text-[10px] text-gray-400 text-right">max {format(max)}</p>
+    </div>
+  );
+};
+
+/** Latency, interruptions and audio volume for the open conversation, live and past runs together. */
+const StatsPanel: React.FC<StatsPanelProps> = ({ sessionId, live, onClose }) => {
+  const [stored, setStored] = useState<SessionMetrics[]>([]);
+  const [sessionName, setSessionName] = useState('session');
+  const [pricing, setPricing] = useState<AudioPricing>(() => loadPreference(PRICING_KEY, DEFAULT_PRICING));
+
+  useEffect(() => {
+    if (!sessionId) return;
+    getSessionMetrics(sessionId)
+      .then(setStored)
+      .catch(err => console.warn('Metrics unavailable:', err));
+    getSession(sessionId)
+      .then(session => { if (session) setSessionName(session.name); })
+      .catch(() => {});
+  }, [sessionId]);
+
+  const runs = [...stored.filter(run => run.id !== live?.id), ...(live ? [live] : [])];
+  const summary = summarizeMetrics(runs);
+  const turns = runs.flatMap(run => run.turns).slice(-CHART_TURNS);
+
+  const changePricing = (patch: Partial<AudioPricing>) => {
+    const next = { ...pricing, ...patch };
+    setPricing(next);
+    savePreference(PRICING_KEY, next);
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 bg-gray-50 flex flex-col animate-in fade-in">
+      <div className="bg-white px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+        <h2 className="font-outfit font-bold text-lg text-gray-800">Session Stats</h2>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => downloadFile(exportMetrics(runs, sessionName))}
+            disabled={runs.length === 0}
+            className="px-3 py-1.5 rounded-2xl border border-gray-200 text-[10px] font-black text-gray-500 uppercase tracking-wider hover:text-indigo-600 disabled:opacity-40"
+          >
+            Export JSON
+          </button>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-700 transition-colors" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18M6 6l12 12"/></svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-5 space-y-6">
+        {runs.length === 0 ? (
+          <p className="text-center text-sm italic text-gray-400 mt-10">Start a live session to collect stats.</p>
+        ) : (
+          <>
+            <section className="grid grid-cols-3 gap-2">
+              <Stat label="Turns" value={String(summary.turns)} />
+              <Stat label="Median latency" value={formatMs(summary.medianLatencyMs)} />
+              <Stat label="p90 latency" value={formatMs(summary.p90LatencyMs)} />
+              <Stat label="Interrupted" value={String(summary.interruptions)} />
+              <Stat label="Reconnects" value={String(summary.reconnects)} />
+              <Stat label="Runs" value={String(runs.length)} />
+              <Stat label="Audio sent" value={formatMinutes(summary.inputSeconds)} />
+              <Stat label="Audio received" value={formatMinutes(summary.outputSeconds)} />
+              <Stat label="Est. cost" value={estimateAudioCost(summary, pricing.input, pricing.output).toFixed(3)} />
+            </section>
+
+            {turns.length > 0 && (
+              <>
+                <section>
+                  <p className={sectionTitle}>Time to first reply audio</p>
+                  <BarChart turns={turns} value={t => t.latencyMs} format={formatMs} />
+                </section>
+                <section>
+                  <p className={sectionTitle}>Turn duration</p>
+                  <BarChart turns={turns} value={t => t.durationMs} format={formatMs} />
+                </section>
+              </>
+            )}
+
+            <section>
+              <p className={sectionTitle}>Runs</p>
+              <div className="space-y-2">
+                {runs.map(run => (
+                  <div key={run.id} className="bg-white rounded-2xl border border-gray-100 shadow-sm px-4 py-2 text-[11px] text-gray-500">
+                    <span className="font-bold text-gray-700">{run.startedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                    {' • '}{run.provider}{run.model ? ` (${run.model})` : ''}{' • '}{run.voiceName}
+                    {' • '}{run.turns.length} turns{run === live ? ' • live' : ''}
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section>
+              <p className={sectionTitle}>Price per million audio tokens</p>
+              <div className="flex space-x-2">
+                {(['input', 'output'] as const).map(key => (
+                  <label key={key} className="flex-1 text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+                    {key}
+                    <input
+                      type="number" min={0} step={0.01}
+                      value={pricing[key]}
+                      onChange={(e) => changePricing({ [key]: Math.max(0, Number(e.target.value) || 0) })}
+                      className="mt-1 w-full rounded-2xl border border-gray-200 bg-white px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200"
+                    />
+                  </label>
+                ))}
+              </div>
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StatsPanel;
@@ -0,0 +1,63 @@
+import React from 'react';
+
+interface TextComposerProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  isBusy: boolean;
+  // Read the translation aloud as well as showing it.
+  speak: boolean;
+  onSpeakChange: (speak: boolean) => void;
+  hint: string;
+  notice?: string;
+}
+
+const TextComposer: React.FC<TextComposerProps> = ({ value, onChange, onSubmit, isBusy, speak, onSpeakChange, hint, notice }) => {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="px-4 pt-4 pb-2 bg-white border-t border-gray-100 animate-in slide-in-from-bottom-2">
+      <div className="flex items-center justify-between mb-2 px-1">
+        <p className="text-[10px] font-black text-indigo-600 uppercase tracking-widest">Type to Translate</p>
+        <p className="text-[9px] font-bold text-gray-400 uppercase tracking-wider">{hint}</p>
+      </div>
+      <div className="flex items-end space-x-2">
+        <button
+          onClick={() => onSpeakChange(!speak)}
+          className={`p-3 rounded-2xl border transition-colors ${speak ? 'border-indigo-100 bg-indigo-50 text-indigo-600' : 'border-gray-100 bg-gray-50 text-gray-400'}`}
+          title={speak ? 'Translations are read aloud' : 'Translations are shown only'}
+        >
+          {speak ? (
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M11 5 6 9H2v6h4l5 4V5Z"/><path d="M15.54 8.46a5 5 0 0 1 0 7.07M19.07 4.93a10 10 0 0 1 0 14.14"/></svg>
+          ) : (
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M11 5 6 9H2v6h4l5 4V5Z"/><line x1="22" y1="9" x2="16" y2="15"/><line x1="16" y1="9" x2="22" y2="15"/></svg>
+          )}
+        </button>
+        <textarea
+          autoFocus
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={2}
+          placeholder="Type a message, note or sign..."
+          className="flex-1 resize-none rounded-2xl border border-gray-200 bg-gray-50 px-3 py-2 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+        />
+        <button
+          onClick={onSubmit}
+          disabled={isBusy || !value.trim()}
+          className="px-4 py-3 rounded-2xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest shadow-sm disabled:opacity-40 active:scale-95 transition-all"
+        >
+          {isBusy ? '...' : 'Send'}
+        </button>
+      </div>
+      {notice && <p className="mt-2 px-1 text-[11px] text-red-600 leading-snug">{notice}</p>}
+    </div>
+  );
+};
+
+export default TextComposer;
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { AppMode, TranscriptionEntry } from '../types';
+import { encode } from '../services/audio-helpers';
+import { OutboxItem } from '../services/outbox';
+import TranscriptionList from './TranscriptionList';
+
+const entry = (fields: Partial<TranscriptionEntry> & Pick<TranscriptionEntry, 'speaker' | 'text'>): TranscriptionEntry => ({
+  id: Math.random().toString(36).substr(2, 9), timestamp: new Date(0), mode: AppMode.TRANSLATE, ...fields,
+});
+
+const pending = (fields: Partial<OutboxItem>): OutboxItem => ({
+  id: Math.random().toString(36).substr(2, 9),
+  mode: AppMode.TRANSLATE,
+  pair: { source: 'en', target: 'fil', autoDetect: true },
+  createdAt: new Date(0),
+  state: 'waiting',
+  attempts: 0,
+  ...fields,
+});
+
+const render = (props: React.ComponentProps<typeof TranscriptionList>) => renderToStaticMarkup(<TranscriptionList {...props} />);
+
+describe('TranscriptionList', () => {
+  it('shows the placeholder with nothing to show', () => {
+    expect(render({ entries: [] })).toContain('Translate speech instantly...');
+    expect(render({ entries: [], partial: { input: ' ', output: '' } })).toContain('Translate speech instantly...');
+  });
+
+  it('labels who said each line and who it was translated for', () => {
+    const html = render({
+      entries: [
+        entry({ speaker: 'user', text: 'Masakit po ang ulo ko.', origin: 'typed', language: 'fil', participant: { id: 'A', name: 'Maria' } }),
+        entry({ speaker: 'model', text: 'My head hurts.', participant: { id: 'B', name: 'Dr. Cruz' } }),
+        entry({ speaker: 'model', text: 'Salamat', origin: 'phrasebook' }),
+      ],
+    });
+    expect(html).not.toContain('Translate speech instantly...');
+    expect(html).toContain('Masakit po ang ulo ko.');
+    expect(html).toContain('Maria (typed)');
+    expect(html).toContain('fil • ');
+    expect(html).toContain('Salin → Dr. Cruz');
+    expect(html).toContain('Phrasebook');
+  });
+
+  it('flags distressed speakers and missed glossary terms', () => {
+    const html = render({
+      entries: [
+        entry({ speaker: 'user', text: 'Please hurry!', mood: 'angry' }),
+        entry({ speaker: 'model', text: 'Bilisan po!', glossaryViolations: [{ term: 'hurry', expected: 'dali' }] }),
+      ],
+    });
+    expect(html).toContain('ring-rose-300');
+    expect(html).toContain('angry • ');
+    expect(html).toContain('ring-amber-300');
+    expect(html).toContain('Glossary: hurry → dali');
+  });
+
+  it('shows the turn being transcribed after the settled lines', () => {
+    const html = render({
+      entries: [entry({ speaker: 'user', text: 'Magandang umaga.' })],
+      partial: { input: 'Kumusta ', output: 'How are' },
+    });
+    expect(html).toContain('Listening');
+    expect(html).toContain('Salin • speaking');
+    expect(html.indexOf('Magandang umaga.')).toBeLessThan(html.indexOf('Kumusta'));
+  });
+
+  it('lists queued items with their state and a cancel button', () => {
+    const clip = { data: encode(new Uint8Array(64000)), mimeType: 'audio/pcm;rate=16000' };
+    const html = render({
+      entries: [],
+      pending: [
+        pending({ text: 'Where is the pharmacy?' }),
+        pending({ audio: [clip], state: 'failed', lastError: 'Timed out' }),
+        pending({ text: 'Thank you', state: 'sending' }),
+      ],
+      onCancelPending: () => {},
+    });
+    expect(html).toContain('Where is the pharmacy?');
+    expect(html).toContain('Waiting for connection');
+    expect(html).toContain('Voice clip • 2s');
+    expect(html).toContain('Failed: Timed out • retrying');
+    expect(html).toContain('Translating...');
+    expect(html.match(/>Cancel</g)).toHaveLength(3);
+  });
+});
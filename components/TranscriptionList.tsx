@@ -1,27 +1,72 @@
 
-import React, { useEffect, useRef } from 'react';
-import { TranscriptionEntry } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { PartialTranscript, TranscriptionEntry } from '../types';
+import { DISTRESS_MOODS } from '../services/emotion';
+import { OutboxItem, outboxItemSeconds } from '../services/outbox';
+
+export interface EntryActions {
+  onReplay: (entry: TranscriptionEntry, slow: boolean) => void;
+  onCopy: (entry: TranscriptionEntry) => void;
+  // Omitted when a polite re-translation can't be fetched (e.g. offline).
+  onTranslatePolitely?: (entry: TranscriptionEntry) => void;
+}
 
 interface TranscriptionListProps {
   entries: TranscriptionEntry[];
+  onEntrySelect?: (entry: TranscriptionEntry) => void;
+  // Tapping a bubble reveals these actions under it.
+  actions?: EntryActions;
+  // Entry whose action is still running.
+  busyEntryId?: string | null;
+  // The live turn as it is being transcribed, shown after the settled entries.
+  partial?: PartialTranscript | null;
+  // Offline captures waiting to be translated, shown after the conversation.
+  pending?: OutboxItem[];
+  onCancelPending?: (id: string) => void;
 }
 
-const TranscriptionList: React.FC<TranscriptionListProps> = ({ entries }) => {
+const pendingStatus = (item: OutboxItem) => {
+  if (item.state === 'sending') return 'Translating...';
+  if (item.state === 'failed') return `Failed: ${item.lastError} • retrying`;
+  return 'Waiting for connection';
+};
+
+const speakerLabel = (entry: TranscriptionEntry) => {
+  if (entry.speaker === 'user') {
+    const name = entry.participant?.name || 'You';
+    return entry.origin === 'typed' ? `${name} (typed)` : name;
+  }
+  const source = entry.origin === 'phrasebook' ? 'Phrasebook' : entry.origin === 'polite' ? 'Salin (polite)' : 'Salin';
+  return entry.participant ? `${source} → ${entry.participant.name}` : source;
+};
+
+const TranscriptionList: React.FC<TranscriptionListProps> = ({ entries, onEntrySelect, actions, busyEntryId, partial, pending = [], onCancelPending }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
   const endRef = useRef<HTMLDivElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const handleSelect = (entry: TranscriptionEntry) => {
+    if (actions) setSelectedId(selectedId === entry.id ? null : entry.id);
+    onEntrySelect?.(entry);
+  };
+
+  const actionClass = "px-2.5 py-1 rounded-full bg-white border border-gray-100 shadow-sm text-[9px] font-black text-gray-500 uppercase tracking-wider hover:text-indigo-600 disabled:opacity-40 transition-colors";
 
   useEffect(() => {
     if (endRef.current) {
       endRef.current.scrollIntoView({ behavior: 'smooth', block: 'end' });
     }
-  }, [entries]);
+  }, [entries, pending.length, partial?.input, partial?.output]);
+
+  const partialInput = partial?.input.trim();
+  const partialOutput = partial?.output.trim();
 
   return (
     <div 
       ref={scrollRef}
       className="flex-1 overflow-y-auto px-4 py-6 space-y-4 max-h-[40vh] scroll-smooth"
     >
-      {entries.length === 0 ? (
+      {entries.length === 0 && pending.length === 0 && !partialInput && !partialOutput ? (
         <div className="h-full flex flex-col items-center justify-center text-gray-400 text-sm italic space-y-2 opacity-50 mt-10">
           <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 20v-6M9 20v-10M6 20v-4M15 20v-8M18 20v-12"/></svg>
           <p>Translate speech instantly...</p>
@@ -33,15 +78,75 @@ const TranscriptionList: React.FC<TranscriptionListProps> = ({ entries }) => {
               key={entry.id}
               className={`flex flex-col ${entry.speaker === 'user' ? 'items-end' : 'items-start'} transition-all animate-in fade-in slide-in-from-bottom-2`}
             >
-              <div className={`max-w-[85%] rounded-2xl px-4 py-3 shadow-sm ${
+              <div
+                onClick={onEntrySelect || actions ? () => handleSelect(entry) : undefined}
+                className={`max-w-[85%] rounded-2xl px-4 py-3 shadow-sm ${onEntrySelect || actions ? 'cursor-pointer active:scale-[0.98]' : ''} ${
                 entry.speaker === 'user' 
                   ? 'bg-indigo-600 text-white rounded-tr-none' 
                   : 'bg-white text-gray-800 border border-gray-100 rounded-tl-none'
-              }`}>
+              } ${entry.mood && DISTRESS_MOODS.includes(entry.mood) ? 'ring-2 ring-rose-300' : ''} ${entry.glossaryViolations?.length ? 'ring-2 ring-amber-300' : ''}`}>
                 <p className="text-sm font-medium leading-relaxed">{entry.text}</p>
+                {entry.glossaryViolations && entry.glossaryViolations.length > 0 && (
+                  <p className="mt-2 pt-2 border-t border-amber-100 text-[10px] font-bold text-amber-600" title="This line did not use the glossary term">
+                    Glossary: {entry.glossaryViolations.map(v => `${v.term} → ${v.expected}`).join(', ')}
+                  </p>
+                )}
               </div>
               <span className="text-[9px] font-bold text-gray-400 mt-1 px-1 uppercase tracking-tighter">
-                {entry.speaker === 'user' ? 'You' : 'Salin'} • {entry.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                {speakerLabel(entry)} • {entry.language && `${entry.language} • `}
+                {entry.mood && entry.mood !== 'neutral' && (
+                  <span className={DISTRESS_MOODS.includes(entry.mood) ? 'text-rose-500' : 'text-indigo-400'}>{entry.mood} • </span>
+                )}
+                {entry.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </span>
+              {actions && selectedId === entry.id && (
+                <div className="flex flex-wrap gap-1.5 mt-1.5 animate-in fade-in">
+                  {entry.speaker === 'model' && (
+                    <>
+                      <button onClick={() => actions.onReplay(entry, false)} disabled={!!busyEntryId} className={actionClass}>
+                        {busyEntryId === entry.id ? '...' : 'Replay'}
+                      </button>
+                      <button onClick={() => actions.onReplay(entry, true)} disabled={!!busyEntryId} className={actionClass}>Slower</button>
+                    </>
+                  )}
+                  <button onClick={() => actions.onCopy(entry)} className={actionClass}>Copy</button>
+                  {actions.onTranslatePolitely && (
+                    <button onClick={() => actions.onTranslatePolitely!(entry)} disabled={!!busyEntryId} className={actionClass}>Polite</button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+          {partialInput && (
+            <div className="flex flex-col items-end">
+              <div className="max-w-[85%] rounded-2xl rounded-tr-none px-4 py-3 bg-indigo-600/70 text-white shadow-sm">
+                <p className="text-sm font-medium leading-relaxed">{partialInput}<span className="animate-pulse">…</span></p>
+              </div>
+              <span className="text-[9px] font-bold text-gray-400 mt-1 px-1 uppercase tracking-tighter">Listening</span>
+            </div>
+          )}
+          {partialOutput && (
+            <div className="flex flex-col items-start">
+              <div className="max-w-[85%] rounded-2xl rounded-tl-none px-4 py-3 bg-white/70 text-gray-600 border border-dashed border-gray-200">
+                <p className="text-sm font-medium leading-relaxed">{partialOutput}<span className="animate-pulse">…</span></p>
+              </div>
+              <span className="text-[9px] font-bold text-gray-400 mt-1 px-1 uppercase tracking-tighter">Salin • speaking</span>
+            </div>
+          )}
+          {pending.map(item => (
+            <div key={item.id} className="flex flex-col items-end animate-in fade-in">
+              <div className={`max-w-[85%] rounded-2xl rounded-tr-none px-4 py-3 border-2 border-dashed ${
+                item.state === 'failed' ? 'border-rose-200 bg-rose-50' : 'border-indigo-200 bg-indigo-50'
+              }`}>
+                <p className="text-sm font-medium leading-relaxed text-gray-700">
+                  {item.text ?? `Voice clip • ${Math.max(1, Math.round(outboxItemSeconds(item)))}s`}
+                </p>
+              </div>
+              <span className="flex items-center text-[9px] font-bold text-gray-400 mt-1 px-1 uppercase tracking-tighter">
+                <span className={item.state === 'failed' ? 'text-rose-500' : ''}>{pendingStatus(item)}</span>
+                {onCancelPending && (
+                  <button onClick={() => onCancelPending(item.id)} className="ml-2 font-black text-gray-500 hover:text-rose-500 uppercase">Cancel</button>
+                )}
               </span>
             </div>
           ))}
@@ -0,0 +1,24 @@
+import React from 'react';
+
+interface UpdateBannerProps {
+  onReload: () => void;
+  onDismiss: () => void;
+  // Reloading ends the live session, so say so.
+  isLive: boolean;
+}
+
+const UpdateBanner: React.FC<UpdateBannerProps> = ({ onReload, onDismiss, isLive }) => (
+  <div className="px-6 py-3 bg-indigo-50 border-b border-indigo-100 animate-in slide-in-from-top">
+    <div className="flex items-center space-x-3">
+      <span className="w-2 h-2 bg-indigo-500 rounded-full" />
+      <div className="flex-1">
+        <p className="text-[11px] text-indigo-800 leading-tight font-bold uppercase">New version available</p>
+        {isLive && <p className="text-[11px] text-indigo-700 leading-snug mt-0.5">Reloading ends the current session.</p>}
+      </div>
+      <button onClick={onDismiss} className="text-[10px] font-black text-indigo-400 uppercase tracking-wider">Later</button>
+      <button onClick={onReload} className="px-3 py-1 rounded-xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-wider">Reload</button>
+    </div>
+  </div>
+);
+
+export default UpdateBanner;
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { ConnectionStatus } from '../types';
+import VoiceVisualizer from './VoiceVisualizer';
+
+type Props = React.ComponentProps<typeof VoiceVisualizer>;
+
+const render = (props: Partial<Props>) => renderToStaticMarkup(
+  <VoiceVisualizer status={ConnectionStatus.CONNECTED} isActive={false} isAwake isMicOpen volume={0} mood="neutral" {...props} />,
+);
+
+describe('VoiceVisualizer', () => {
+  it('introduces Salin until a session is connected', () => {
+    for (const status of [ConnectionStatus.IDLE, ConnectionStatus.CONNECTING, ConnectionStatus.RECONNECTING, ConnectionStatus.ERROR]) {
+      const html = render({ status });
+      expect(html).toContain('Meet Salin');
+      expect(html).toContain('bg-gray-300');
+    }
+  });
+
+  it('naps while connected but asleep, and offers a tap to wake', () => {
+    const html = render({ isAwake: false, onTap: () => {} });
+    expect(html).toContain('Salin is Napping');
+    expect(html).toContain('title="Tap to wake"');
+    expect(html).not.toContain('Detection:');
+  });
+
+  it('listens while awake and says so when the mic is gated', () => {
+    expect(render({})).toContain('Salin is listening...');
+    const gated = render({ isMicOpen: false });
+    expect(gated).toContain('Salin is waiting...');
+    expect(gated).toContain('Mic Gated');
+  });
+
+  it('shows the detected mood while speaking', () => {
+    const html = render({ isActive: true, mood: 'happy' });
+    expect(html).toContain('Salin is Feeling happy!');
+    expect(html).toContain('from-yellow-400');
+    expect(html).toContain('Detection: happy');
+  });
+});
@@ -1,15 +1,20 @@
 
 import React, { useEffect, useState } from 'react';
+import { Mood } from '../types';
 
 interface VoiceVisualizerProps {
   status: string;
   isActive: boolean;
   isAwake: boolean;
   volume: number;
-  mood: 'neutral' | 'happy' | 'sad' | 'angry' | 'surprised' | 'cool';
+  // False while the input gate is holding back mic audio.
+  isMicOpen: boolean;
+  // Set while napping; tapping the face wakes Salin.
+  onTap?: () => void;
+  mood: Mood;
 }
 
-const VoiceVisualizer: React.FC<VoiceVisualizerProps> = ({ status, isActive, isAwake, volume, mood }) => {
+const VoiceVisualizer: React.FC<VoiceVisualizerProps> = ({ status, isActive, isAwake, volume, isMicOpen, onTap, mood }) => {
   const [blink, setBlink] = useState(false);
   const normalizedVolume = Math.min(100, volume * 500);
 
@@ -23,6 +28,7 @@ const VoiceVisualizer: React.FC<VoiceVisualizerProps> = ({ status, isActive, isA
   }, [isAwake, isActive]);
 
   const actuallyAwake = isAwake || isActive;
+  const isGated = status === 'CONNECTED' && actuallyAwake && !isMicOpen;
 
   const getCoreColor = () => {
     if (status !== 'CONNECTED') return 'bg-gray-300';
@@ -74,7 +80,10 @@ const VoiceVisualizer: React.FC<VoiceVisualizerProps> = ({ status, isActive, isA
         />
         
         {/* Face */}
-        <div className={`z-10 w-40 h-40 rounded-full flex flex-col items-center justify-center shadow-2xl transition-all duration-700 overflow-hidden relative border-4 ${actuallyAwake ? 'border-white/30' : 'border-black/10'} ${getCoreColor()}`}>
+        <div
+          onClick={onTap}
+          title={onTap ? 'Tap to wake' : undefined}
+          className={`${onTap ? 'cursor-pointer active:scale-95' : ''} z-10 w-40 h-40 rounded-full flex flex-col items-center justify-center shadow-2xl transition-all duration-700 overflow-hidden relative border-4 ${actuallyAwake ? 'border-white/30' : 'border-black/10'} ${getCoreColor()}`}>
           
           {/* Eyebrows */}
           <div className="flex space-x-12 absolute top-10">
@@ -103,9 +112,16 @@ const VoiceVisualizer: React.FC<VoiceVisualizerProps> = ({ status, isActive, isA
         <h2 className="text-2xl font-outfit font-bold text-gray-800 tracking-tight capitalize">
           {status !== 'CONNECTED' ? "Meet Salin" : 
            !actuallyAwake ? "Salin is Napping" : 
-           isActive ? `Salin is Feeling ${mood}!` : `Salin is listening...`}
+           isActive ? `Salin is Feeling ${mood}!` :
+           isGated ? "Salin is waiting..." : `Salin is listening...`}
         </h2>
-        <div className="mt-2 flex justify-center">
+        <div className="mt-2 flex justify-center space-x-2">
+          {isGated && (
+            <div className="px-3 py-1 bg-gray-100 border border-gray-200 rounded-full flex items-center space-x-1.5">
+              <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" className="text-gray-500"><line x1="2" y1="2" x2="22" y2="22"/><path d="M18.89 13.23A7.12 7.12 0 0 0 19 12v-2"/><path d="M5 10v2a7 7 0 0 0 12 5"/><path d="M15 9.34V5a3 3 0 0 0-5.68-1.33"/><path d="M9 9v3a3 3 0 0 0 5.12 2.12"/><line x1="12" y1="19" x2="12" y2="22"/></svg>
+              <span className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Mic Gated</span>
+            </div>
+          )}
           {actuallyAwake && (
             <div className="px-3 py-1 bg-indigo-50 border border-indigo-100 rounded-full flex items-center space-x-2">
               <span className="w-2 h-2 bg-indigo-500 rounded-full animate-ping" />
@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { chunkToFloat32 } from '../services/audio-helpers';
+import { AudioCapture, startAudioCapture } from '../services/audio-capture';
+import { FeatureSequence, WakeWordModel, WAKE_WORD_SAMPLES, createUtteranceSegmenter, extractFeatures, saveWakeWordModel } from '../services/wake-word';
+
+interface WakeWordSetupProps {
+  model: WakeWordModel | null;
+  // RMS that counts as speech when cutting out each recording.
+  level: number;
+  onSaved: (model: WakeWordModel | null) => void;
+  onClose: () => void;
+}
+
+const WakeWordSetup: React.FC<WakeWordSetupProps> = ({ model, level, onSaved, onClose }) => {
+  const [word, setWord] = useState(model?.word || 'Salin');
+  const [samples, setSamples] = useState<FeatureSequence[]>([]);
+  const [isRecording, setIsRecording] = useState(false);
+  const [micLevel, setMicLevel] = useState(0);
+  const [error, setError] = useState('');
+  const stopRef = useRef<(() => void) | null>(null);
+
+  const stopRecording = () => {
+    stopRef.current?.();
+    stopRef.current = null;
+    setIsRecording(false);
+    setMicLevel(0);
+  };
+
+  useEffect(() => stopRecording, []);
+
+  useEffect(() => {
+    if (samples.length >= WAKE_WORD_SAMPLES) stopRecording();
+  }, [samples.length]);
+
+  const startRecording = async () => {
+    setError('');
+    setSamples([]);
+    let stream: MediaStream | null = null;
+    let ctx: AudioContext | null = null;
+    let capture: AudioCapture | null = null;
+    stopRef.current = () => {
+      capture?.stop();
+      ctx?.close().catch(() => {});
+      stream?.getTracks().forEach(track => track.stop());
+    };
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true } });
+      const AudioCtx = (window.AudioContext || (window as any).webkitAudioContext);
+      ctx = new AudioCtx();
+      await ctx.resume();
+      const segmenter = createUtteranceSegmenter(level, (utterance) => {
+        const features = extractFeatures(utterance);
+        setSamples(prev => prev.length < WAKE_WORD_SAMPLES ? [...prev, features] : prev);
+      });
+      capture = await startAudioCapture(ctx, stream, {
+        onChunk: (chunk) => segmenter.push(chunkToFloat32(chunk)),
+        onLevel: setMicLevel,
+      });
+      setIsRecording(true);
+    } catch (err: any) {
+      stopRecording();
+      setError(err.name === 'NotAllowedError' ? 'Microphone access was denied.' : `Microphone error: ${err.message}`);
+    }
+  };
+
+  const save = async (next: WakeWordModel | null) => {
+    try {
+      await saveWakeWordModel(next);
+      onSaved(next);
+      onClose();
+    } catch (err: any) {
+      setError(`Could not save the wake word: ${err.message}`);
+    }
+  };
+
+  const isComplete = samples.length >= WAKE_WORD_SAMPLES;
+
+  return (
+    <div className="absolute inset-0 z-30 bg-gray-50 flex flex-col animate-in fade-in">
+      <div className="bg-white px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+        <h2 className="font-outfit font-bold text-lg text-gray-800">Wake Word</h2>
+        <button onClick={() => { stopRecording(); onClose(); }} className="p-2 text-gray-400 hover:text-gray-700 transition-colors" title="Close">
+          <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18M6 6l12 12"/></svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-6 space-y-6">
+        <p className="text-sm text-gray-600 leading-relaxed">
+          While napping, Salin listens on this device only for the word you record here. Say it {WAKE_WORD_SAMPLES} times, pausing in between, in the room where you'll use it.
+        </p>
+
+        <label className="block">
+          <span className="text-[9px] font-black text-gray-400 uppercase tracking-widest">Word</span>
+          <input
+            value={word}
+            onChange={(e) => setWord(e.target.value)}
+            disabled={isRecording}
+            className="mt-1 w-full rounded-2xl border border-gray-200 bg-white px-4 py-2 text-sm font-bold text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+          />
+        </label>
+
+        <div className="flex flex-col items-center space-y-4">
+          <div className="flex space-x-3">
+            {Array.from({ length: WAKE_WORD_SAMPLES }, (_, i) => (
+              <span key={i} className={`w-4 h-4 rounded-full transition-colors ${i < samples.length ? 'bg-indigo-600' : 'bg-gray-200'}`} />
+            ))}
+          </div>
+          <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div className={`h-full transition-all duration-75 ${micLevel >= level ? 'bg-emerald-500' : 'bg-gray-400'}`} style={{ width: `${Math.min(100, micLevel * 500)}%` }} />
+          </div>
+          <p className="text-[11px] font-bold text-gray-500 uppercase tracking-wider">
+            {isRecording ? `Say "${word}" (${samples.length + 1} of ${WAKE_WORD_SAMPLES})` :
+             isComplete ? 'All samples recorded' : 'Ready to record'}
+          </p>
+        </div>
+
+        {error && <p className="text-[12px] text-red-600">{error}</p>}
+      </div>
+
+      <div className="p-6 bg-white border-t border-gray-100 space-y-3">
+        {isComplete ? (
+          <button
+            onClick={() => save({ word: word.trim() || 'Salin', templates: samples })}
+            className="w-full py-4 rounded-3xl font-outfit font-bold text-lg bg-gradient-to-r from-indigo-600 to-indigo-800 text-white shadow-xl active:scale-95 transition-all"
+          >
+            Save Wake Word
+          </button>
+        ) : (
+          <button
+            onClick={isRecording ? stopRecording : startRecording}
+            className={`w-full py-4 rounded-3xl font-outfit font-bold text-lg shadow-xl active:scale-95 transition-all ${
+              isRecording ? 'bg-slate-100 text-slate-600 border border-slate-200' : 'bg-gradient-to-r from-indigo-600 to-indigo-800 text-white'
+            }`}
+          >
+            {isRecording ? 'Stop Recording' : 'Record Samples'}
+          </button>
+        )}
+        {isComplete && (
+          <button onClick={startRecording} className="w-full text-[10px] font-black text-gray-500 uppercase tracking-wider hover:text-indigo-600">
+            Record Again
+          </button>
+        )}
+        {model && !isRecording && (
+          <button onClick={() => save(null)} className="w-full text-[10px] font-black text-red-500 uppercase tracking-wider">
+            Remove Wake Word
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WakeWordSetup;
@@ -0,0 +1,58 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Plugin, ResolvedConfig } from 'vite';
+
+/**
+ * Emits `sw.js` with the build's precache list baked in. The version is a
+ * hash of everything precached, so a release that changes any file gets a
+ * fresh cache and an unchanged rebuild keeps the old one.
+ */
+
+const SOURCE = path.resolve(__dirname, 'sw.js');
+
+function listFiles(dir: string, base = dir): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const full = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(full, base) : [path.relative(base, full).split(path.sep).join('/')];
+  });
+}
+
+export function serviceWorkerPlugin(): Plugin {
+  let config: ResolvedConfig;
+
+  return {
+    name: 'salin-service-worker',
+    apply: 'build',
+    // After Vite's HTML plugin, so index.html is in the bundle.
+    enforce: 'post',
+    configResolved(resolved) {
+      config = resolved;
+    },
+    generateBundle(_options, bundle) {
+      const hash = createHash('sha256');
+      const files = new Map<string, string | Uint8Array>();
+
+      for (const output of Object.values(bundle)) {
+        files.set(output.fileName, output.type === 'chunk' ? output.code : output.source);
+      }
+      for (const file of listFiles(config.publicDir)) {
+        if (!files.has(file)) files.set(file, fs.readFileSync(path.join(config.publicDir, file)));
+      }
+
+      const urls = [...files.keys()].filter(file => !file.endsWith('.map')).sort();
+      urls.forEach(file => hash.update(file).update(files.get(file)!));
+      const source = fs.readFileSync(SOURCE, 'utf-8');
+      hash.update(source);
+
+      const version = hash.digest('hex').slice(0, 12);
+      const precache = ['./', ...urls.map(file => `./${file}`)];
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: `self.__SALIN_VERSION__ = ${JSON.stringify(version)};\nself.__SALIN_PRECACHE__ = ${JSON.stringify(precache)};\n\n${source}`,
+      });
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import captureWorkletUrl from './capture-worklet.ts?worker&url';
+import { AudioChunk } from './translation-provider';
+import { INPUT_SAMPLE_RATE, computeRms, createPcmBlob, createResampler, floatTo16BitPCM } from './audio-helpers';
+
+export interface AudioCaptureHandlers {
+  // One encoded 16 kHz chunk plus its RMS energy.
+  onChunk: (chunk: AudioChunk, rms: number) => void;
+  // Throttled input level for metering.
+  onLevel: (rms: number) => void;
+}
+
+export interface AudioCapture {
+  stop: () => void;
+}
+
+const METER_INTERVAL_MS = 100;
+
+/**
+ * Starts streaming the mic through the capture worklet. Browsers without
+ * AudioWorklet fall back to a ScriptProcessorNode running the same resampler
+ * on the main thread.
+ */
+export async function startAudioCapture(ctx: AudioContext, stream: MediaStream, handlers: AudioCaptureHandlers): Promise<AudioCapture> {
+  const source = ctx.createMediaStreamSource(stream);
+
+  if (ctx.audioWorklet) {
+    await ctx.audioWorklet.addModule(captureWorkletUrl);
+    const node = new AudioWorkletNode(ctx, 'salin-capture', {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCount: 1,
+      processorOptions: { targetSampleRate: INPUT_SAMPLE_RATE, meterIntervalMs: METER_INTERVAL_MS },
+    });
+    node.port.onmessage = (e: MessageEvent) => {
+      if (e.data.type === 'chunk') handlers.onChunk(createPcmBlob(new Int16Array(e.data.pcm), e.data.sampleRate), e.data.rms);
+      else if (e.data.type === 'level') handlers.onLevel(e.data.rms);
+    };
+    source.connect(node);
+    // The node outputs silence; connecting it keeps the graph pulling audio through it.
+    node.connect(ctx.destination);
+    return {
+      stop: () => {
+        node.port.onmessage = null;
+        try { source.disconnect(); node.disconnect(); } catch (e) {}
+      },
+    };
+  }
+
+  const resample = createResampler(ctx.sampleRate, INPUT_SAMPLE_RATE);
+  const scriptProcessor = ctx.createScriptProcessor(4096, 1, 1);
+  let lastLevelAt = 0;
+  scriptProcessor.onaudioprocess = (e) => {
+    const inputData = e.inputBuffer.getChannelData(0);
+    const resampled = resample(inputData);
+    const rms = computeRms(inputData);
+    handlers.onChunk(createPcmBlob(floatTo16BitPCM(resampled), INPUT_SAMPLE_RATE), computeRms(resampled));
+    e.outputBuffer.getChannelData(0).fill(0);
+    if (e.timeStamp - lastLevelAt >= METER_INTERVAL_MS) {
+      lastLevelAt = e.timeStamp;
+      handlers.onLevel(rms);
+    }
+  };
+  source.connect(scriptProcessor);
+  scriptProcessor.connect(ctx.destination);
+  return {
+    stop: () => {
+      scriptProcessor.onaudioprocess = null;
+      try { source.disconnect(); scriptProcessor.disconnect(); } catch (e) {}
+    },
+  };
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encode, decode, decodeAudioData, floatTo16BitPCM, createBlob, createPcmBlob, computeRms, createResampler, pcmChunkSeconds, chunkToFloat32, joinPcmChunks, encodeWav,
+} from './audio-helpers';
+
+const sine = (freq: number, rate: number, length: number, offset = 0) =>
+  Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * freq * (i + offset)) / rate));
+
+describe('encode / decode', () => {
+  it('round-trips arbitrary bytes through base64', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(decode(encode(bytes))).toEqual(bytes);
+  });
+});
+
+describe('floatTo16BitPCM', () => {
+  it('scales the full range asymmetrically to Int16 limits', () => {
+    expect(Array.from(floatTo16BitPCM(Float32Array.from([-1, 0, 1])))).toEqual([-32768, 0, 32767]);
+  });
+
+  it('clamps out-of-range samples', () => {
+    expect(Array.from(floatTo16BitPCM(Float32Array.from([-2.5, 3])))).toEqual([-32768, 32767]);
+  });
+
+  it('truncates toward zero', () => {
+    expect(floatTo16BitPCM(Float32Array.from([0.5]))[0]).toBe(16383);
+  });
+});
+
+describe('createBlob / createPcmBlob', () => {
+  it('labels the data with the given sample rate', () => {
+    expect(createBlob(new Float32Array(4)).mimeType).toBe('audio/pcm;rate=16000');
+    expect(createPcmBlob(new Int16Array(4), 24000).mimeType).toBe('audio/pcm;rate=24000');
+  });
+
+  it('encodes little-endian Int16 samples', () => {
+    const bytes = decode(createBlob(Float32Array.from([1, -1])).data);
+    expect(Array.from(new Int16Array(bytes.buffer))).toEqual([32767, -32768]);
+  });
+
+  it('only encodes the viewed part of a shared buffer', () => {
+    const backing = new Int16Array([1, 2, 3, 4]);
+    const bytes = decode(createPcmBlob(backing.subarray(1, 3)).data);
+    expect(Array.from(new Int16Array(bytes.buffer))).toEqual([2, 3]);
+  });
+});
+
+describe('joinPcmChunks', () => {
+  it('concatenates decoded chunks in order', () => {
+    const joined = joinPcmChunks([createPcmBlob(Int16Array.from([1, 2])).data, createPcmBlob(Int16Array.from([3])).data]);
+    expect(Array.from(new Int16Array(joined))).toEqual([1, 2, 3]);
+  });
+});
+
+describe('chunkToFloat32', () => {
+  it('reverses createBlob to within one Int16 step', () => {
+    const samples = Float32Array.from([0, 0.25, -0.5, 0.999]);
+    const restored = chunkToFloat32(createBlob(samples));
+    samples.forEach((v, i) => expect(restored[i]).toBeCloseTo(v, 4));
+  });
+});
+
+describe('pcmChunkSeconds', () => {
+  it('derives duration from the byte length and the mime rate', () => {
+    expect(pcmChunkSeconds(createPcmBlob(new Int16Array(1600), 16000))).toBeCloseTo(0.1, 3);
+    expect(pcmChunkSeconds(createPcmBlob(new Int16Array(2400), 24000))).toBeCloseTo(0.1, 3);
+  });
+});
+
+describe('decodeAudioData', () => {
+  const fakeContext = () => ({
+    createBuffer: (channels: number, frames: number, sampleRate: number) => {
+      const data = Array.from({ length: channels }, () => new Float32Array(frames));
+      return { sampleRate, length: frames, numberOfChannels: channels, getChannelData: (c: number) => data[c] };
+    },
+  }) as unknown as AudioContext;
+
+  it('converts Int16 PCM into normalised float samples', async () => {
+    const pcm = new Int16Array([0, 16384, -32768]);
+    const buffer = await decodeAudioData(new Uint8Array(pcm.buffer), fakeContext(), 24000, 1);
+    expect(buffer.sampleRate).toBe(24000);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0, 0.5, -1]);
+  });
+
+  it('de-interleaves multi-channel data', async () => {
+    const pcm = new Int16Array([16384, -16384, 8192, -8192]);
+    const buffer = await decodeAudioData(new Uint8Array(pcm.buffer), fakeContext(), 16000, 2);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, 0.25]);
+    expect(Array.from(buffer.getChannelData(1))).toEqual([-0.5, -0.25]);
+  });
+
+  it('respects the byte offset of the input view', async () => {
+    const bytes = new Uint8Array(new Int16Array([32767, 16384]).buffer);
+    const buffer = await decodeAudioData(bytes.subarray(2), fakeContext(), 16000, 1);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5]);
+  });
+});
+
+describe('computeRms', () => {
+  it('returns 0 for silence and empty input', () => {
+    expect(computeRms(new Float32Array(8))).toBe(0);
+    expect(computeRms(new Float32Array(0))).toBe(0);
+  });
+
+  it('is 1/√2 for a full-scale sine', () => {
+    expect(computeRms(sine(1000, 48000, 48000))).toBeCloseTo(Math.SQRT1_2, 3);
+  });
+});
+
+describe('createResampler', () => {
+  it('passes audio through untouched when rates match', () => {
+    const input = Float32Array.from([0.1, -0.2, 0.3]);
+    const output = createResampler(16000, 16000)(input);
+    expect(output).toEqual(input);
+    expect(output).not.toBe(input);
+  });
+
+  it('produces the expected number of samples across arbitrary block sizes', () => {
+    const resample = createResampler(48000, 16000);
+    let total = 0;
+    for (let i = 0; i < 375; i++) total += resample(new Float32Array(128)).length;
+    // 48000 input samples → 16000 output, minus the filter's look-ahead.
+    expect(total).toBeGreaterThan(16000 - 32);
+    expect(total).toBeLessThanOrEqual(16000);
+  });
+
+  it('preserves an in-band tone when downsampling 48 kHz → 16 kHz', () => {
+    const resample = createResampler(48000, 16000);
+    const chunks: Float32Array[] = [];
+    for (let block = 0; block < 100; block++) chunks.push(resample(sine(440, 48000, 128, block * 128)));
+    const output = Float32Array.from(chunks.flatMap(c => Array.from(c)));
+    for (let i = 100; i < output.length; i += 37) {
+      expect(output[i]).toBeCloseTo(Math.sin((2 * Math.PI * 440 * i) / 16000), 2);
+    }
+  });
+
+  it('suppresses tones above the output Nyquist frequency', () => {
+    const resample = createResampler(48000, 16000);
+    const output = resample(sine(12000, 48000, 4800));
+    expect(computeRms(output.subarray(50))).toBeLessThan(0.05);
+  });
+
+  it('handles non-integer ratios such as 44.1 kHz', () => {
+    const resample = createResampler(44100, 16000);
+    const output = resample(sine(300, 44100, 44100));
+    expect(output.length).toBeGreaterThan(16000 - 32);
+    for (let i = 200; i < output.length; i += 101) {
+      expect(output[i]).toBeCloseTo(Math.sin((2 * Math.PI * 300 * i) / 16000), 2);
+    }
+  });
+});
+
+describe('encodeWav', () => {
+  it('writes a 16-bit PCM header and interleaves channels', () => {
+    const wav = encodeWav([Float32Array.from([0.5, -0.5]), Float32Array.from([1])], 24000);
+    const view = new DataView(wav);
+    const text = (offset: number) => String.fromCharCode(...new Uint8Array(wav, offset, 4));
+    expect([text(0), text(8), text(12), text(36)]).toEqual(['RIFF', 'WAVE', 'fmt ', 'data']);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(96000);
+    expect(view.getUint32(40, true)).toBe(8);
+    expect([0, 1, 2, 3].map(i => view.getInt16(44 + i * 2, true))).toEqual([16383, 32767, -16384, 0]);
+  });
+});
@@ -1,8 +1,9 @@
+import type { AudioChunk } from "./translation-provider";
 
-import { Blob as GeminiBlob } from "@google/genai";
+export const INPUT_SAMPLE_RATE = 16000;
 
 export function decode(base64: string): Uint8Array {
-  const binaryString = window.atob(base64);
+  const binaryString = atob(base64);
   const len = binaryString.length;
   const bytes = new Uint8Array(len);
   for (let i = 0; i < len; i++) {
@@ -17,7 +18,7 @@ export function encode(bytes: Uint8Array): string {
   for (let i = 0; i < len; i++) {
     binary += String.fromCharCode(bytes[i]);
   }
-  return window.btoa(binary);
+  return btoa(binary);
 }
 
 export async function decodeAudioData(
@@ -40,7 +41,7 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createBlob(data: Float32Array): GeminiBlob {
+export function floatTo16BitPCM(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
@@ -48,9 +49,132 @@ export function createBlob(data: Float32Array): GeminiBlob {
     const s = Math.max(-1, Math.min(1, data[i]));
     int16[i] = s < 0 ? s * 32768 : s * 32767;
   }
+  return int16;
+}
+
+export function createPcmBlob(int16: Int16Array, sampleRate: number = INPUT_SAMPLE_RATE): AudioChunk {
   return {
     // Correctly slice the buffer to match the Int16Array length
     data: encode(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength)),
-    mimeType: 'audio/pcm;rate=16000',
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
+
+export function createBlob(data: Float32Array, sampleRate: number = INPUT_SAMPLE_RATE): AudioChunk {
+  return createPcmBlob(floatTo16BitPCM(data), sampleRate);
+}
+
+/** Duration of a base64 Int16 PCM chunk, read from its `rate=` mime parameter. */
+export function pcmChunkSeconds(chunk: AudioChunk): number {
+  const rate = Number(/rate=(\d+)/.exec(chunk.mimeType)?.[1] || INPUT_SAMPLE_RATE);
+  return (chunk.data.length * 3) / 4 / 2 / rate;
+}
+
+/** Concatenates base64 PCM chunks (e.g. one model turn) into a single buffer. */
+export function joinPcmChunks(chunks: string[]): ArrayBuffer {
+  const parts = chunks.map(decode);
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out.buffer;
+}
+
+/** Inverse of createPcmBlob: the chunk's samples as floats in [-1, 1). */
+export function chunkToFloat32(chunk: AudioChunk): Float32Array {
+  const bytes = decode(chunk.data);
+  const int16 = new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 2);
+  const out = new Float32Array(int16.length);
+  for (let i = 0; i < int16.length; i++) out[i] = int16[i] / 32768;
+  return out;
+}
+
+export function computeRms(data: Float32Array): number {
+  if (data.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) sum += data[i] * data[i];
+  return Math.sqrt(sum / data.length);
+}
+
+export type Resampler = (input: Float32Array) => Float32Array;
+
+/**
+ * Streaming windowed-sinc resampler. State carries over between calls, so the
+ * input can arrive in arbitrary block sizes (e.g. 128-frame worklet quanta).
+ * When downsampling the kernel doubles as the anti-aliasing low-pass filter.
+ */
+export function createResampler(inputRate: number, outputRate: number, taps = 32): Resampler {
+  if (inputRate === outputRate) return (input) => input.slice();
+
+  const step = inputRate / outputRate;
+  const cutoff = Math.min(1, outputRate / inputRate) * 0.9;
+  const half = taps / 2;
+  let history = new Float32Array(0);
+  // Position of the next output sample, in input samples from the start of `history`.
+  let position = 0;
+
+  const kernel = (x: number) => {
+    if (x <= -half || x >= half) return 0;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * cutoff * x) / (Math.PI * cutoff * x);
+    const blackman = 0.42 + 0.5 * Math.cos((Math.PI * x) / half) + 0.08 * Math.cos((2 * Math.PI * x) / half);
+    return sinc * blackman;
+  };
+
+  return (input) => {
+    const buffer = new Float32Array(history.length + input.length);
+    buffer.set(history);
+    buffer.set(input, history.length);
+
+    const out: number[] = [];
+    while (Math.floor(position) + half < buffer.length) {
+      const center = Math.floor(position);
+      const frac = position - center;
+      let sum = 0;
+      let norm = 0;
+      for (let k = -half + 1; k <= half; k++) {
+        const idx = center + k;
+        if (idx < 0) continue;
+        const w = kernel(k - frac);
+        sum += buffer[idx] * w;
+        norm += w;
+      }
+      out.push(norm ? sum / norm : 0);
+      position += step;
+    }
+
+    const keepFrom = Math.max(0, Math.min(buffer.length, Math.floor(position) - half));
+    history = buffer.slice(keepFrom);
+    position -= keepFrom;
+    return Float32Array.from(out);
+  };
+}
+
+/** A 16-bit PCM WAV file. Channels are interleaved; shorter ones are padded with silence. */
+export function encodeWav(channels: Float32Array[], sampleRate: number): ArrayBuffer {
+  const frames = Math.max(0, ...channels.map(c => c.length));
+  const blockAlign = channels.length * 2;
+  const dataSize = frames * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const text = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  text(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  text(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const pcm = channels.map(floatTo16BitPCM);
+  for (let i = 0; i < frames; i++) {
+    pcm.forEach((channel, c) => view.setInt16(44 + i * blockAlign + c * 2, channel[i] || 0, true));
+  }
+  return view.buffer;
+}
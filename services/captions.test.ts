@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { AppMode, TranscriptionEntry } from '../types';
+import { CAPTION_FONT_SIZES, captionLines, stepFontSize } from './captions';
+
+const entry = (id: string, speaker: 'user' | 'model', text: string): TranscriptionEntry => ({
+  id, speaker, text, timestamp: new Date(0), mode: AppMode.TRANSLATE,
+});
+
+describe('captionLines', () => {
+  it('puts the turn in progress after the settled lines', () => {
+    const lines = captionLines([entry('1', 'user', 'Hello')], { input: ' Where is ', output: '' });
+    expect(lines.map(l => [l.text, l.isPartial])).toEqual([['Hello', false], ['Where is', true]]);
+  });
+
+  it('keeps only the most recent lines', () => {
+    const entries = ['a', 'b', 'c', 'd'].map(id => entry(id, 'model', id));
+    const lines = captionLines(entries, { input: 'e', output: 'f' }, 3);
+    expect(lines.map(l => l.text)).toEqual(['d', 'e', 'f']);
+  });
+
+  it('shows nothing extra when no fragment has arrived', () => {
+    expect(captionLines([], null)).toEqual([]);
+    expect(captionLines([], { input: ' ', output: '' })).toEqual([]);
+  });
+});
+
+describe('stepFontSize', () => {
+  it('moves between the listed sizes and stops at either end', () => {
+    expect(stepFontSize(40, 1)).toBe(48);
+    expect(stepFontSize(40, -1)).toBe(32);
+    expect(stepFontSize(CAPTION_FONT_SIZES[0], -1)).toBe(CAPTION_FONT_SIZES[0]);
+    const largest = CAPTION_FONT_SIZES[CAPTION_FONT_SIZES.length - 1];
+    expect(stepFontSize(largest, 1)).toBe(largest);
+  });
+});
@@ -0,0 +1,48 @@
+import { CaptionSettings, PartialTranscript, TranscriptionEntry } from '../types';
+import { loadPreference, savePreference } from './preferences';
+
+// Steps for the A−/A+ buttons; the smallest is still readable at arm's length.
+export const CAPTION_FONT_SIZES = [24, 32, 40, 48, 64, 80];
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
+  fontSize: 40,
+  highContrast: false,
+};
+
+const CAPTIONS_KEY = 'captions';
+
+export function loadCaptionSettings(): CaptionSettings {
+  const settings = loadPreference(CAPTIONS_KEY, DEFAULT_CAPTION_SETTINGS);
+  return {
+    ...settings,
+    fontSize: CAPTION_FONT_SIZES.includes(settings.fontSize) ? settings.fontSize : DEFAULT_CAPTION_SETTINGS.fontSize,
+  };
+}
+
+export function saveCaptionSettings(settings: CaptionSettings) {
+  savePreference(CAPTIONS_KEY, settings);
+}
+
+/** The next listed size up or down from `size`, stopping at either end. */
+export function stepFontSize(size: number, direction: 1 | -1): number {
+  const next = direction > 0
+    ? CAPTION_FONT_SIZES.find(s => s > size)
+    : [...CAPTION_FONT_SIZES].reverse().find(s => s < size);
+  return next ?? size;
+}
+
+export interface CaptionLine {
+  id: string;
+  speaker: 'user' | 'model';
+  text: string;
+  // Still being spoken; the text may change.
+  isPartial: boolean;
+}
+
+/** The tail of the conversation for caption mode, with the turn in progress last. */
+export function captionLines(entries: TranscriptionEntry[], partial: PartialTranscript | null, limit = 6): CaptionLine[] {
+  const lines: CaptionLine[] = entries.map(e => ({ id: e.id, speaker: e.speaker, text: e.text, isPartial: false }));
+  if (partial?.input.trim()) lines.push({ id: 'partial-input', speaker: 'user', text: partial.input.trim(), isPartial: true });
+  if (partial?.output.trim()) lines.push({ id: 'partial-output', speaker: 'model', text: partial.output.trim(), isPartial: true });
+  return lines.slice(-limit);
+}
@@ -0,0 +1,82 @@
+import { createResampler, floatTo16BitPCM, INPUT_SAMPLE_RATE } from './audio-helpers';
+
+// AudioWorkletGlobalScope members; the DOM lib does not describe them.
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: any);
+}
+declare function registerProcessor(name: string, ctor: new (options?: any) => AudioWorkletProcessor): void;
+
+export interface CaptureProcessorOptions {
+  targetSampleRate?: number;
+  // Samples (at the target rate) per posted chunk.
+  chunkSize?: number;
+  // Minimum time between level messages.
+  meterIntervalMs?: number;
+}
+
+/**
+ * Runs on the audio thread: resamples the mic to 16 kHz, encodes Int16 PCM
+ * and posts fixed-size chunks (with their RMS) plus a throttled level meter,
+ * so the main thread only handles already-encoded audio.
+ */
+class CaptureProcessor extends AudioWorkletProcessor {
+  private resample;
+  private pending: Float32Array;
+  private pendingLength = 0;
+  private chunkSize: number;
+  private meterEvery: number;
+  private meterSum = 0;
+  private meterCount = 0;
+  private targetSampleRate: number;
+
+  constructor(options?: { processorOptions?: CaptureProcessorOptions }) {
+    super(options);
+    const { targetSampleRate = INPUT_SAMPLE_RATE, chunkSize = 2048, meterIntervalMs = 100 } = options?.processorOptions || {};
+    this.targetSampleRate = targetSampleRate;
+    this.resample = createResampler(sampleRate, targetSampleRate);
+    this.chunkSize = chunkSize;
+    this.pending = new Float32Array(chunkSize * 2);
+    this.meterEvery = Math.round((sampleRate * meterIntervalMs) / 1000);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) this.meterSum += channel[i] * channel[i];
+    this.meterCount += channel.length;
+    if (this.meterCount >= this.meterEvery) {
+      this.port.postMessage({ type: 'level', rms: Math.sqrt(this.meterSum / this.meterCount) });
+      this.meterSum = 0;
+      this.meterCount = 0;
+    }
+
+    const resampled = this.resample(channel);
+    if (this.pendingLength + resampled.length > this.pending.length) {
+      const grown = new Float32Array((this.pendingLength + resampled.length) * 2);
+      grown.set(this.pending.subarray(0, this.pendingLength));
+      this.pending = grown;
+    }
+    this.pending.set(resampled, this.pendingLength);
+    this.pendingLength += resampled.length;
+
+    while (this.pendingLength >= this.chunkSize) {
+      const block = this.pending.slice(0, this.chunkSize);
+      this.pending.copyWithin(0, this.chunkSize, this.pendingLength);
+      this.pendingLength -= this.chunkSize;
+
+      let sum = 0;
+      for (let i = 0; i < block.length; i++) sum += block[i] * block[i];
+      const pcm = floatTo16BitPCM(block);
+      this.port.postMessage(
+        { type: 'chunk', pcm: pcm.buffer, rms: Math.sqrt(sum / block.length), sampleRate: this.targetSampleRate },
+        [pcm.buffer],
+      );
+    }
+    return true;
+  }
+}
+
+registerProcessor('salin-capture', CaptureProcessor);
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { CredentialError, CredentialSettings, DEFAULT_CREDENTIAL_SETTINGS, createCredentialProvider, needsNewCredential } from './credentials';
+
+describe('createCredentialProvider', () => {
+  it('uses the key entered on this device', async () => {
+    let settings: CredentialSettings = { ...DEFAULT_CREDENTIAL_SETTINGS, source: 'key', apiKey: ' my-key ' };
+    const credentials = createCredentialProvider(() => settings);
+    expect(await credentials.getCredential()).toEqual({ kind: 'apiKey', value: 'my-key' });
+
+    settings = { ...settings, apiKey: '' };
+    await expect(credentials.getCredential()).rejects.toMatchObject({ code: 'missing' });
+  });
+
+  it('switches to the broker when the settings change', async () => {
+    let settings: CredentialSettings = { source: 'key', apiKey: 'my-key', brokerUrl: '' };
+    const credentials = createCredentialProvider(() => settings);
+    await credentials.getCredential();
+
+    settings = { ...settings, source: 'broker' };
+    // No broker address is configured in tests.
+    await expect(credentials.getCredential()).rejects.toMatchObject({ code: 'missing' });
+  });
+});
+
+describe('needsNewCredential', () => {
+  it('is true only for problems the user has to fix', () => {
+    expect(needsNewCredential(new CredentialError('rejected', ''))).toBe(true);
+    expect(needsNewCredential(new CredentialError('missing', ''))).toBe(true);
+    expect(needsNewCredential(new CredentialError('expired', ''))).toBe(false);
+    expect(needsNewCredential(new CredentialError('unreachable', ''))).toBe(false);
+    expect(needsNewCredential(new Error('Network down'))).toBe(false);
+  });
+});
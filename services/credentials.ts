@@ -0,0 +1,113 @@
+import { loadPreference, savePreference } from './preferences';
+
+/**
+ * Where the live backend's credential comes from. Deployed builds never carry
+ * a key: either the user enters their own (kept on this device only) or the
+ * app fetches a short-lived token from a broker that holds the real key.
+ */
+
+export type CredentialSource = 'key' | 'broker';
+
+export interface CredentialSettings {
+  source: CredentialSource;
+  apiKey: string;
+  // Empty uses the deployment's TOKEN_BROKER_URL.
+  brokerUrl: string;
+}
+
+export interface Credential {
+  kind: 'apiKey' | 'ephemeral';
+  value: string;
+  expiresAt?: Date;
+}
+
+export interface CredentialProvider {
+  getCredential: () => Promise<Credential>;
+}
+
+export type CredentialErrorCode = 'missing' | 'rejected' | 'expired' | 'unreachable';
+
+export class CredentialError extends Error {
+  code: CredentialErrorCode;
+
+  constructor(code: CredentialErrorCode, message: string) {
+    super(message);
+    this.name = 'CredentialError';
+    this.code = code;
+  }
+}
+
+/** Errors that retrying won't fix; the user has to change a setting or sign in again. */
+export const needsNewCredential = (err: unknown): err is CredentialError =>
+  err instanceof CredentialError && (err.code === 'missing' || err.code === 'rejected');
+
+export const DEFAULT_BROKER_URL = process.env.TOKEN_BROKER_URL || '';
+// Only the dev server defines this; production builds never inline a key.
+const DEV_API_KEY = process.env.API_KEY || '';
+
+const CREDENTIALS_KEY = 'credentials';
+
+export const DEFAULT_CREDENTIAL_SETTINGS: CredentialSettings = {
+  source: DEFAULT_BROKER_URL ? 'broker' : 'key',
+  apiKey: '',
+  brokerUrl: '',
+};
+
+export function loadCredentialSettings(): CredentialSettings {
+  return loadPreference(CREDENTIALS_KEY, DEFAULT_CREDENTIAL_SETTINGS);
+}
+
+export function saveCredentialSettings(settings: CredentialSettings) {
+  savePreference(CREDENTIALS_KEY, settings);
+}
+
+export function createApiKeyCredentials(getKey: () => string): CredentialProvider {
+  return {
+    async getCredential() {
+      const key = getKey().trim() || DEV_API_KEY;
+      if (!key) throw new CredentialError('missing', 'No API key is set. Add one under Settings → API access.');
+      return { kind: 'apiKey', value: key };
+    },
+  };
+}
+
+/**
+ * Asks the broker for a single-use token before each connection. The broker
+ * answers `{ token, expiresAt }`; a 401 or 403 means the user's own sign-in
+ * with the broker has lapsed.
+ */
+export function createBrokerCredentials(getUrl: () => string, fetchImpl: typeof fetch = (input, init) => fetch(input, init)): CredentialProvider {
+  return {
+    async getCredential() {
+      const url = getUrl().trim() || DEFAULT_BROKER_URL;
+      if (!url) throw new CredentialError('missing', 'No token service is configured. Set its address under Settings → API access.');
+
+      let response: Response;
+      try {
+        response = await fetchImpl(url, { method: 'POST', credentials: 'include', headers: { Accept: 'application/json' } });
+      } catch {
+        throw new CredentialError('unreachable', 'The token service could not be reached.');
+      }
+      if (response.status === 401 || response.status === 403) {
+        throw new CredentialError('rejected', 'The token service turned down this device. Sign in again or ask your administrator for access.');
+      }
+      if (!response.ok) throw new CredentialError('unreachable', `The token service failed (${response.status}).`);
+
+      const body = await response.json().catch(() => null);
+      if (typeof body?.token !== 'string' || !body.token) {
+        throw new CredentialError('unreachable', 'The token service sent an unexpected reply.');
+      }
+      const expiresAt = body.expiresAt ? new Date(body.expiresAt) : undefined;
+      return { kind: 'ephemeral', value: body.token, expiresAt: expiresAt && !isNaN(expiresAt.getTime()) ? expiresAt : undefined };
+    },
+  };
+}
+
+/** Reads the settings on every call, so a changed key or broker applies to the next request. */
+export function createCredentialProvider(getSettings: () => CredentialSettings): CredentialProvider {
+  const key = createApiKeyCredentials(() => getSettings().apiKey);
+  const broker = createBrokerCredentials(() => getSettings().brokerUrl);
+  return {
+    getCredential: () => (getSettings().source === 'broker' ? broker : key).getCredential(),
+  };
+}
@@ -0,0 +1,115 @@
+const DB_NAME = 'salin';
+const DB_VERSION = 8;
+
+export const STORES = {
+  PHRASEBOOK: 'phrasebook',
+  META: 'meta',
+  SESSIONS: 'sessions',
+  ENTRIES: 'entries',
+  AUDIO: 'audio',
+  GLOSSARIES: 'glossaries',
+  OUTBOX: 'outbox',
+  RECORDINGS: 'recordings',
+  METRICS: 'metrics',
+  SCENARIOS: 'scenarios',
+  PRACTICE_REPORTS: 'practiceReports',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Each version bump adds its stores here so existing installs upgrade in place.
+function upgrade(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORES.PHRASEBOOK, { keyPath: 'en' });
+    db.createObjectStore(STORES.META);
+  }
+  if (oldVersion < 2) {
+    const sessions = db.createObjectStore(STORES.SESSIONS, { keyPath: 'id' });
+    sessions.createIndex('startedAt', 'startedAt');
+    const entries = db.createObjectStore(STORES.ENTRIES, { keyPath: 'id' });
+    entries.createIndex('sessionId', 'sessionId');
+  }
+  if (oldVersion < 3) {
+    const audio = db.createObjectStore(STORES.AUDIO, { keyPath: 'entryId' });
+    audio.createIndex('sessionId', 'sessionId');
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(STORES.GLOSSARIES, { keyPath: 'id' });
+  }
+  if (oldVersion < 5) {
+    db.createObjectStore(STORES.OUTBOX, { keyPath: 'id' });
+  }
+  if (oldVersion < 6) {
+    const recordings = db.createObjectStore(STORES.RECORDINGS, { keyPath: 'id' });
+    recordings.createIndex('sessionId', 'sessionId');
+  }
+  if (oldVersion < 7) {
+    const metrics = db.createObjectStore(STORES.METRICS, { keyPath: 'id' });
+    metrics.createIndex('sessionId', 'sessionId');
+  }
+  if (oldVersion < 8) {
+    db.createObjectStore(STORES.SCENARIOS, { keyPath: 'id' });
+    const reports = db.createObjectStore(STORES.PRACTICE_REPORTS, { keyPath: 'id' });
+    reports.createIndex('sessionId', 'sessionId');
+  }
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (e) => upgrade(request.result, e.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function promisifyTransaction(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function getMeta<T>(key: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.META, 'readonly').objectStore(STORES.META);
+  return promisifyRequest<T>(store.get(key));
+}
+
+export async function setMeta<T>(key: string, value: T): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.META, 'readwrite');
+  tx.objectStore(STORES.META).put(value, key);
+  await promisifyTransaction(tx);
+}
+
+/** Deletes the whole database; the next openDatabase() starts from an empty one. */
+export async function eraseAllData(): Promise<void> {
+  if (dbPromise) {
+    const db = await dbPromise.catch(() => null);
+    db?.close();
+    dbPromise = null;
+  }
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    // Another tab still has it open; the delete finishes once that tab closes.
+    request.onblocked = () => resolve();
+  });
+}
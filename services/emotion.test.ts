@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { INPUT_SAMPLE_RATE } from './audio-helpers';
+import { ProsodyFeatures, classifyEmotion, createProsodyTracker, estimatePitch, scoreLexicon } from './emotion';
+
+const voiced = (hz: number, seconds: number, gain = 0.2) =>
+  Float32Array.from({ length: Math.round(seconds * INPUT_SAMPLE_RATE) }, (_, i) => {
+    const t = i / INPUT_SAMPLE_RATE;
+    return gain * (Math.sin(2 * Math.PI * hz * t) + 0.5 * Math.sin(4 * Math.PI * hz * t));
+  });
+
+const prosody = (patch: Partial<ProsodyFeatures>): ProsodyFeatures => ({
+  activeSeconds: 2, energy: 0.05, relativeEnergy: 1, pitchHz: 180, pitchVariation: 2.5, ...patch,
+});
+
+describe('scoreLexicon', () => {
+  it('matches English and Filipino phrases', () => {
+    expect(scoreLexicon('Maraming salamat po, doc!').happy).toBe(2);
+    expect(scoreLexicon('Bakit ang tagal?').angry).toBe(2);
+    expect(scoreLexicon('My chest hurts and I am scared').sad).toBe(2);
+  });
+
+  it('turns negated positive words towards sad', () => {
+    const scores = scoreLexicon('Hindi mabuti ang pakiramdam ko');
+    expect(scores.happy).toBe(0);
+    expect(scores.sad).toBe(0.5);
+  });
+});
+
+describe('estimatePitch', () => {
+  it('finds the fundamental of a voiced frame', () => {
+    expect(estimatePitch(voiced(150, 0.032))).toBeGreaterThan(145);
+    expect(estimatePitch(voiced(150, 0.032))).toBeLessThan(155);
+    expect(estimatePitch(voiced(260, 0.032))).toBeCloseTo(260, -1);
+  });
+
+  it('reports silence and noise as unvoiced', () => {
+    expect(estimatePitch(new Float32Array(512))).toBe(0);
+    let seed = 3;
+    const noise = Float32Array.from({ length: 512 }, () => ((seed = (seed * 16807) % 2147483647) / 2147483647) - 0.5);
+    expect(estimatePitch(noise)).toBe(0);
+  });
+});
+
+describe('createProsodyTracker', () => {
+  it('measures energy against the running baseline and pitch spread per turn', () => {
+    const tracker = createProsodyTracker();
+    tracker.push(voiced(150, 1, 0.05));
+    const calm = tracker.takeTurn()!;
+    expect(calm.relativeEnergy).toBe(1);
+    expect(calm.pitchHz).toBeCloseTo(150, -1);
+    expect(calm.pitchVariation).toBeLessThan(0.5);
+
+    tracker.push(voiced(150, 0.5, 0.2));
+    tracker.push(voiced(300, 0.5, 0.2));
+    const raised = tracker.takeTurn()!;
+    expect(raised.relativeEnergy).toBeGreaterThan(3);
+    expect(raised.pitchVariation).toBeGreaterThan(5);
+  });
+
+  it('ignores silence', () => {
+    const tracker = createProsodyTracker();
+    tracker.push(new Float32Array(16000));
+    expect(tracker.takeTurn()).toBeNull();
+  });
+});
+
+describe('classifyEmotion', () => {
+  it('stays neutral without clear cues', () => {
+    expect(classifyEmotion('Where is the pharmacy?', prosody({})).mood).toBe('neutral');
+    expect(classifyEmotion('Where is the pharmacy?', null).mood).toBe('neutral');
+  });
+
+  it('reads words when the voice is unremarkable', () => {
+    expect(classifyEmotion('Thank you so much, that is wonderful', prosody({})).mood).toBe('happy');
+    expect(classifyEmotion('Masakit po ang tiyan ko, natatakot ako', null).mood).toBe('sad');
+  });
+
+  it('lets an agitated voice turn a complaint into anger', () => {
+    const text = 'Why is this taking so long, I am tired of waiting';
+    expect(classifyEmotion(text, prosody({})).mood).toBe('sad');
+    expect(classifyEmotion(text, prosody({ relativeEnergy: 2.5, pitchVariation: 5 })).mood).toBe('angry');
+  });
+
+  it('marks a flat, quiet voice with sad words as sad and calm positive speech as cool', () => {
+    expect(classifyEmotion('okay lang, walang problema', prosody({ relativeEnergy: 0.5, pitchVariation: 1 })).mood).toBe('cool');
+    expect(classifyEmotion('I lost my wallet', prosody({ relativeEnergy: 0.5, pitchVariation: 1 })).mood).toBe('sad');
+  });
+});
@@ -0,0 +1,227 @@
+import { Mood } from '../types';
+import { INPUT_SAMPLE_RATE } from './audio-helpers';
+
+/**
+ * Lightweight, on-device emotion cue for each user turn. Words give the
+ * valence (pleasant vs. distressed) and the voice's prosody gives the arousal
+ * (calm vs. agitated); the two together pick one of the visualizer's moods.
+ * It is a hint for staff, not a diagnosis, so anything ambiguous stays neutral.
+ */
+
+export interface ProsodyFeatures {
+  // Seconds of frames loud enough to count as speech.
+  activeSeconds: number;
+  // Mean RMS of the active frames.
+  energy: number;
+  // Turn energy relative to the speaker's running average; 1 is typical.
+  relativeEnergy: number;
+  // Median fundamental frequency of voiced frames, 0 when none were found.
+  pitchHz: number;
+  // Spread of the pitch contour in semitones.
+  pitchVariation: number;
+}
+
+export interface EmotionResult {
+  mood: Mood;
+  // 0–1, how far the winning mood stands out.
+  confidence: number;
+}
+
+const FRAME_SIZE = 512;
+const ACTIVE_RMS = 0.01;
+const MIN_PITCH_HZ = 70;
+const MAX_PITCH_HZ = 400;
+const VOICING_THRESHOLD = 0.5;
+
+type Lexicon = Record<Exclude<Mood, 'neutral'>, string[]>;
+
+// English and Filipino cues; multi-word phrases are matched as a whole.
+const LEXICON: Lexicon = {
+  happy: [
+    'thank you', 'thanks', 'great', 'good', 'glad', 'happy', 'wonderful', 'love', 'perfect', 'better', 'excellent', 'nice',
+    'salamat', 'maraming salamat', 'masaya', 'mabuti', 'maganda', 'ayos', 'galing', 'mahal', 'buti naman', 'gumaling',
+  ],
+  sad: [
+    'sad', 'sorry', 'died', 'passed away', 'lost', 'alone', 'tired', 'cry', 'crying', 'hurts', 'pain', 'worried', 'scared', 'afraid', 'help',
+    'malungkot', 'patawad', 'namatay', 'pumanaw', 'nawala', 'mag-isa', 'pagod', 'iyak', 'umiiyak', 'masakit', 'sakit', 'nag-aalala', 'takot', 'natatakot', 'tulong', 'tulungan', 'hirap', 'nahihirapan',
+  ],
+  angry: [
+    'angry', 'mad', 'furious', 'unacceptable', 'ridiculous', 'why so long', 'waiting forever', 'stupid', 'hate', 'complain', 'enough',
+    'galit', 'nagagalit', 'bwisit', 'buwisit', 'ang tagal', 'bakit ang tagal', 'kainis', 'nakakainis', 'ayoko na', 'tama na', 'reklamo',
+  ],
+  surprised: [
+    'wow', 'really', 'oh my', 'no way', 'unbelievable', 'seriously',
+    'talaga', 'grabe', 'hala', 'ay naku', 'naku', 'totoo', 'sus',
+  ],
+  cool: [
+    'okay', 'fine', 'sure', 'no problem', 'alright', 'calm', 'relax',
+    'sige', 'okay lang', 'ayos lang', 'walang problema', 'kalma', 'oo naman',
+  ],
+};
+
+const NEGATORS = new Set(['not', 'no', 'never', "don't", "isn't", 'hindi', 'di', 'wala', 'huwag']);
+
+const tokenize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}'\s-]/gu, ' ').split(/\s+/).filter(Boolean);
+
+/** Per-mood word scores for a transcript. Negated positive words count towards sad instead. */
+export function scoreLexicon(text: string): Record<keyof Lexicon, number> {
+  const tokens = tokenize(text);
+  const scores = { happy: 0, sad: 0, angry: 0, surprised: 0, cool: 0 };
+
+  (Object.keys(LEXICON) as (keyof Lexicon)[]).forEach(mood => {
+    for (const phrase of LEXICON[mood]) {
+      const words = phrase.split(' ');
+      for (let i = 0; i + words.length <= tokens.length; i++) {
+        if (!words.every((w, k) => tokens[i + k] === w)) continue;
+        const negated = i > 0 && NEGATORS.has(tokens[i - 1]);
+        if (negated && (mood === 'happy' || mood === 'cool')) scores.sad += 0.5;
+        else if (!negated) scores[mood] += 1;
+      }
+    }
+  });
+
+  if (/[!?]\s*[!?]/.test(text)) scores.surprised += 0.5;
+  return scores;
+}
+
+/** Normalised-autocorrelation pitch estimate for one frame, or 0 if unvoiced. */
+export function estimatePitch(frame: Float32Array, sampleRate = INPUT_SAMPLE_RATE): number {
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+  const maxLag = Math.min(frame.length - 1, Math.ceil(sampleRate / MIN_PITCH_HZ));
+  const correlation = new Float64Array(maxLag + 2);
+  let best = 0;
+
+  for (let lag = minLag; lag <= maxLag + 1; lag++) {
+    let cross = 0;
+    let energyA = 0;
+    let energyB = 0;
+    for (let i = 0; i + lag < frame.length; i++) {
+      cross += frame[i] * frame[i + lag];
+      energyA += frame[i] * frame[i];
+      energyB += frame[i + lag] * frame[i + lag];
+    }
+    correlation[lag] = cross / (Math.sqrt(energyA * energyB) || 1);
+    if (lag <= maxLag) best = Math.max(best, correlation[lag]);
+  }
+  if (best < VOICING_THRESHOLD) return 0;
+
+  // Multiples of the period correlate almost as well; take the first strong peak
+  // to avoid reporting an octave too low.
+  for (let lag = minLag + 1; lag <= maxLag; lag++) {
+    const isPeak = correlation[lag] >= correlation[lag - 1] && correlation[lag] >= correlation[lag + 1];
+    if (isPeak && correlation[lag] >= best * 0.9) return sampleRate / lag;
+  }
+  return 0;
+}
+
+export interface ProsodyTracker {
+  push: (samples: Float32Array) => void;
+  // Features of everything pushed since the last call, or null if nothing was spoken.
+  takeTurn: () => ProsodyFeatures | null;
+  reset: () => void;
+}
+
+/**
+ * Accumulates per-frame energy and pitch for the current turn and keeps a
+ * running energy baseline across turns, so loudness is judged against how
+ * this speaker and microphone usually sound.
+ */
+export function createProsodyTracker(sampleRate = INPUT_SAMPLE_RATE): ProsodyTracker {
+  let pending = new Float32Array(0);
+  let energies: number[] = [];
+  let pitches: number[] = [];
+  let baseline = 0;
+
+  return {
+    push(samples) {
+      const buffer = new Float32Array(pending.length + samples.length);
+      buffer.set(pending);
+      buffer.set(samples, pending.length);
+      let offset = 0;
+      for (; offset + FRAME_SIZE <= buffer.length; offset += FRAME_SIZE) {
+        const frame = buffer.subarray(offset, offset + FRAME_SIZE);
+        let sum = 0;
+        for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+        const rms = Math.sqrt(sum / frame.length);
+        if (rms < ACTIVE_RMS) continue;
+        energies.push(rms);
+        const pitch = estimatePitch(frame, sampleRate);
+        if (pitch) pitches.push(pitch);
+      }
+      pending = buffer.slice(offset);
+    },
+    takeTurn() {
+      const turnEnergies = energies;
+      const turnPitches = pitches.sort((a, b) => a - b);
+      pending = new Float32Array(0);
+      energies = [];
+      pitches = [];
+      if (turnEnergies.length === 0) return null;
+
+      const energy = turnEnergies.reduce((a, b) => a + b, 0) / turnEnergies.length;
+      const relativeEnergy = baseline ? energy / baseline : 1;
+      baseline = baseline ? baseline * 0.8 + energy * 0.2 : energy;
+
+      let pitchHz = 0;
+      let pitchVariation = 0;
+      if (turnPitches.length > 0) {
+        pitchHz = turnPitches[Math.floor(turnPitches.length / 2)];
+        const semitones = turnPitches.map(p => 12 * Math.log2(p / pitchHz));
+        const mean = semitones.reduce((a, b) => a + b, 0) / semitones.length;
+        pitchVariation = Math.sqrt(semitones.reduce((a, s) => a + (s - mean) * (s - mean), 0) / semitones.length);
+      }
+
+      return {
+        activeSeconds: (turnEnergies.length * FRAME_SIZE) / sampleRate,
+        energy,
+        relativeEnergy,
+        pitchHz,
+        pitchVariation,
+      };
+    },
+    reset() {
+      pending = new Float32Array(0);
+      energies = [];
+      pitches = [];
+      baseline = 0;
+    },
+  };
+}
+
+/** -1 (flat, quiet) to 1 (loud, animated); 0 without audio. */
+export function getArousal(prosody: ProsodyFeatures | null): number {
+  if (!prosody) return 0;
+  const loudness = Math.tanh(Math.log2(prosody.relativeEnergy || 1));
+  const animation = prosody.pitchHz ? Math.tanh((prosody.pitchVariation - 2.5) / 2) : 0;
+  return 0.5 * loudness + 0.5 * animation;
+}
+
+const MIN_MOOD_SCORE = 0.6;
+
+export function classifyEmotion(text: string, prosody: ProsodyFeatures | null): EmotionResult {
+  const lexicon = scoreLexicon(text);
+  const arousal = getArousal(prosody);
+  const valence = lexicon.happy + lexicon.cool - lexicon.sad - lexicon.angry;
+
+  const scores: Record<keyof Lexicon, number> = { ...lexicon };
+  if (arousal > 0.3) {
+    // Raised, animated voice amplifies whichever way the words lean.
+    if (valence < 0) scores.angry += arousal * 1.5;
+    else if (valence > 0) scores.happy += arousal * 0.5;
+    else scores.surprised += arousal * 0.5;
+  } else if (arousal < -0.3) {
+    if (valence < 0) scores.sad += -arousal;
+    else if (valence > 0) scores.cool += -arousal * 0.5;
+    else if (arousal < -0.6) scores.sad += 0.5;
+  }
+  if (prosody && prosody.pitchVariation > 6) scores.surprised += 0.5;
+
+  const ranked = (Object.keys(scores) as (keyof Lexicon)[]).sort((a, b) => scores[b] - scores[a]);
+  const top = scores[ranked[0]];
+  if (top < MIN_MOOD_SCORE || top === scores[ranked[1]]) return { mood: 'neutral', confidence: 0 };
+
+  const total = ranked.reduce((sum, m) => sum + scores[m], 0);
+  return { mood: ranked[0], confidence: Math.min(1, top / (total + 1) + 0.25) };
+}
+
+export const DISTRESS_MOODS: Mood[] = ['sad', 'angry'];
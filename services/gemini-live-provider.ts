@@ -0,0 +1,174 @@
+import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
+import { encode, joinPcmChunks } from './audio-helpers';
+import { Credential, CredentialError, CredentialProvider } from './credentials';
+import { SpeechRequest, TranslationProvider } from './translation-provider';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+const DEFAULT_TEXT_MODEL = 'gemini-2.5-flash';
+const DEFAULT_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+const LIVE_TURN_TIMEOUT_MS = 30000;
+const READ_ALOUD_INSTRUCTION = 'Read the user\'s message aloud exactly as written. Do not translate, answer or add anything.';
+
+interface GeminiLiveOptions {
+  credentials: CredentialProvider;
+  model?: string;
+  textModel?: string;
+  ttsModel?: string;
+}
+
+// Ephemeral tokens are only accepted by the v1alpha API.
+const createClient = (credential: Credential) => new GoogleGenAI(credential.kind === 'ephemeral'
+  ? { apiKey: credential.value, httpOptions: { apiVersion: 'v1alpha' } }
+  : { apiKey: credential.value });
+
+/** Auth failures become CredentialErrors, so the app can tell them apart from a flaky network. */
+function toCredentialError(err: any, credential: Credential): CredentialError | null {
+  const status = err?.status;
+  const message = String(err?.message || err?.reason || '');
+  const refused = status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message);
+  if (!refused && !/expired/i.test(message)) return null;
+  // A token that stops working has run out; fetching a fresh one fixes it.
+  return credential.kind === 'ephemeral'
+    ? new CredentialError('expired', 'Your access token expired.')
+    : new CredentialError('rejected', 'The API key was rejected. Check it under Settings → API access.');
+}
+
+export function createGeminiLiveProvider({ credentials, model = DEFAULT_MODEL, textModel = DEFAULT_TEXT_MODEL, ttsModel = DEFAULT_TTS_MODEL }: GeminiLiveOptions): TranslationProvider {
+  const withCredential = async <T>(request: (ai: GoogleGenAI, credential: Credential) => Promise<T>): Promise<T> => {
+    const credential = await credentials.getCredential();
+    try {
+      return await request(createClient(credential), credential);
+    } catch (err) {
+      throw toCredentialError(err, credential) || err;
+    }
+  };
+
+  // Ephemeral tokens only open live sessions, so one-off requests run as a single live turn.
+  const liveTurn = (ai: GoogleGenAI, systemInstruction: string, voiceName: string, text: string) =>
+    new Promise<{ text: string, audio: string[] }>((resolve, reject) => {
+      let output = '';
+      const audio: string[] = [];
+      let settled = false;
+      let close = () => {};
+      const finish = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        close();
+        if (error) reject(error);
+        else resolve({ text: output.trim(), audio });
+      };
+      const timer = setTimeout(() => finish(new Error('The translator took too long to answer.')), LIVE_TURN_TIMEOUT_MS);
+
+      ai.live.connect({
+        model,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          systemInstruction,
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+          outputAudioTranscription: {},
+        },
+        callbacks: {
+          onmessage: (message: LiveServerMessage) => {
+            const content = message.serverContent;
+            const base64Audio = content?.modelTurn?.parts?.[0]?.inlineData?.data;
+            if (base64Audio) audio.push(base64Audio);
+            if (content?.outputTranscription?.text) output += content.outputTranscription.text;
+            if (content?.turnComplete) finish();
+          },
+          onerror: (e: any) => finish(new Error(e.message || 'The session encountered an error.')),
+          onclose: (e: any) => finish(new Error(e?.reason || 'The session closed before it answered.')),
+        },
+      }).then(session => {
+        close = () => session.close();
+        if (settled) session.close();
+        else session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+      }).catch(finish);
+    });
+
+  const synthesizeSpeech = ({ text, voiceName, slow }: SpeechRequest) => withCredential(async (ai, credential) => {
+    if (credential.kind === 'ephemeral') {
+      const instruction = slow ? `${READ_ALOUD_INSTRUCTION} Speak slowly and clearly, pausing between phrases.` : READ_ALOUD_INSTRUCTION;
+      const turn = await liveTurn(ai, instruction, voiceName, text);
+      if (turn.audio.length === 0) throw new Error('No speech was returned.');
+      return encode(new Uint8Array(joinPcmChunks(turn.audio)));
+    }
+    const speech = await ai.models.generateContent({
+      model: ttsModel,
+      contents: slow ? `Say slowly and clearly, pausing between phrases: ${text}` : text,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+      },
+    });
+    if (!speech.data) throw new Error('No speech was returned.');
+    return speech.data;
+  });
+
+  return {
+    id: 'gemini-live',
+    label: 'Gemini Live',
+    requiresNetwork: true,
+    outputSampleRate: 24000,
+
+    async connect(config, events) {
+      return withCredential(async (ai, credential) => {
+        const session = await ai.live.connect({
+          model: config.model || model,
+          config: {
+            responseModalities: [Modality.AUDIO],
+            systemInstruction: config.systemInstruction,
+            speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: config.voiceName } } },
+            outputAudioTranscription: {},
+            inputAudioTranscription: {},
+          },
+          callbacks: {
+            onopen: () => events.onOpen(),
+            onmessage: (message: LiveServerMessage) => {
+              const content = message.serverContent;
+              const base64Audio = content?.modelTurn?.parts?.[0]?.inlineData?.data;
+              if (base64Audio) events.onAudio(base64Audio);
+              if (content?.inputTranscription?.text) events.onInputTranscript(content.inputTranscription.text);
+              if (content?.outputTranscription?.text) events.onOutputTranscript(content.outputTranscription.text);
+              if (content?.turnComplete) events.onTurnComplete();
+              if (content?.interrupted) events.onInterrupted();
+            },
+            onerror: (e: any) => events.onError(new Error(e.message || 'The session encountered an error.')),
+            // The server closes the socket with a reason when the credential stops being valid.
+            onclose: (e: any) => {
+              const failure = toCredentialError(e, credential);
+              if (failure) events.onError(failure);
+              else events.onClose();
+            },
+          },
+        });
+
+        return {
+          sendAudio: (chunk) => session.sendRealtimeInput({ media: chunk }),
+          endAudioStream: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+          sendText: (text) => session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true }),
+          close: () => session.close(),
+        };
+      });
+    },
+
+    translateText: ({ systemInstruction, text, voiceName, speak }) => withCredential(async (ai, credential) => {
+      if (credential.kind === 'ephemeral') {
+        const turn = await liveTurn(ai, systemInstruction, voiceName, text);
+        if (!turn.text) throw new Error('No translation was returned.');
+        return speak && turn.audio.length > 0 ? { text: turn.text, audio: encode(new Uint8Array(joinPcmChunks(turn.audio))) } : { text: turn.text };
+      }
+      const response = await ai.models.generateContent({
+        model: textModel,
+        contents: text,
+        config: { systemInstruction },
+      });
+      const translation = response.text?.trim();
+      if (!translation) throw new Error('No translation was returned.');
+      if (!speak) return { text: translation };
+      return { text: translation, audio: await synthesizeSpeech({ text: translation, voiceName }) };
+    }),
+
+    synthesizeSpeech,
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { LanguagePair } from '../types';
+import { buildGlossaryInstruction, checkGlossary, containsTerm, createGlossary, parseGlossaryCsv, parseGlossaryJson, toGlossaryCsv, toGlossaryJson } from './glossary';
+
+const pair: LanguagePair = { source: 'en', target: 'fil', autoDetect: true };
+
+const clinic = createGlossary('Clinic', pair, [
+  { source: 'blood pressure', target: 'presyon', note: 'not "altapresyon"' },
+  { source: 'fever', target: 'lagnat' },
+]);
+
+describe('containsTerm', () => {
+  it('matches whole words and phrases regardless of case', () => {
+    expect(containsTerm('Your Blood  Pressure is high.', 'blood pressure')).toBe(true);
+    expect(containsTerm('No feverish feeling', 'fever')).toBe(false);
+    expect(containsTerm('May lagnat po ako', 'lagnat')).toBe(true);
+  });
+});
+
+describe('checkGlossary', () => {
+  it('flags a term whose expected rendering is missing', () => {
+    expect(checkGlossary('I have a fever', 'May sinat ako', [clinic], pair, 'en')).toEqual([{ term: 'fever', expected: 'lagnat' }]);
+    expect(checkGlossary('I have a fever', 'May lagnat ako', [clinic], pair, 'en')).toEqual([]);
+  });
+
+  it('checks the reverse direction and respects the spoken language', () => {
+    expect(checkGlossary('May lagnat ako', 'I feel hot', [clinic], pair, 'fil')).toEqual([{ term: 'lagnat', expected: 'fever' }]);
+    expect(checkGlossary('May lagnat ako', 'I feel hot', [clinic], pair, 'en')).toEqual([]);
+  });
+
+  it('ignores inactive sets and other language pairs', () => {
+    expect(checkGlossary('fever', 'sinat', [{ ...clinic, active: false }], pair)).toEqual([]);
+    expect(checkGlossary('fever', 'sinat', [clinic], { source: 'en', target: 'ceb', autoDetect: true })).toEqual([]);
+  });
+});
+
+describe('buildGlossaryInstruction', () => {
+  it('lists active terms for the pair, and nothing otherwise', () => {
+    const text = buildGlossaryInstruction([clinic], pair);
+    expect(text).toContain('"blood pressure" (English) = "presyon" (Filipino) — not "altapresyon"');
+    expect(buildGlossaryInstruction([clinic], { source: 'en', target: 'ja', autoDetect: true })).toBe('');
+  });
+});
+
+describe('glossary files', () => {
+  it('round-trips CSV with quoted cells and a language header', () => {
+    const parsed = parseGlossaryCsv(toGlossaryCsv(clinic), 'Copy', { source: 'en', target: 'ceb', autoDetect: true });
+    expect(parsed.sourceLanguage).toBe('en');
+    expect(parsed.targetLanguage).toBe('fil');
+    expect(parsed.terms).toEqual(clinic.terms);
+  });
+
+  it('reads headerless CSV in the fallback direction', () => {
+    const parsed = parseGlossaryCsv('ward,"silid, pasyente"\r\nnurse,nars\n', 'Ward', pair);
+    expect(parsed.terms).toEqual([
+      { source: 'ward', target: 'silid, pasyente', note: undefined },
+      { source: 'nurse', target: 'nars', note: undefined },
+    ]);
+  });
+
+  it('round-trips JSON and rejects foreign files', () => {
+    const parsed = parseGlossaryJson(toGlossaryJson(clinic));
+    expect(parsed.name).toBe('Clinic');
+    expect(parsed.terms).toEqual(clinic.terms);
+    expect(parsed.id).not.toBe(clinic.id);
+    expect(() => parseGlossaryJson('{"format":"other","terms":[]}')).toThrow('not a Salin glossary');
+  });
+});
@@ -0,0 +1,244 @@
+import { GlossarySet, GlossaryTerm, GlossaryViolation, LanguagePair } from '../types';
+import { openDatabase, promisifyRequest, promisifyTransaction, STORES } from './db';
+import { getLanguage } from './languages';
+import { ExportedFile, csvCell, fileBaseName } from './transcript-export';
+
+/**
+ * Named sets of source→target terms (drug names, clinic rooms, job titles)
+ * that translations must render a fixed way. Active sets are added to the
+ * model's instructions, and each finished turn is checked against them so
+ * lines that ignored a term can be flagged for the user.
+ */
+
+const GLOSSARY_FORMAT_ID = 'salin-glossary';
+const GLOSSARY_FORMAT_VERSION = 1;
+
+export async function listGlossaries(): Promise<GlossarySet[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.GLOSSARIES, 'readonly').objectStore(STORES.GLOSSARIES);
+  const sets = await promisifyRequest<GlossarySet[]>(store.getAll());
+  return sets.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveGlossary(set: GlossarySet): Promise<GlossarySet> {
+  const saved = { ...set, updatedAt: new Date() };
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.GLOSSARIES, 'readwrite');
+  tx.objectStore(STORES.GLOSSARIES).put(saved);
+  await promisifyTransaction(tx);
+  return saved;
+}
+
+export async function deleteGlossary(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.GLOSSARIES, 'readwrite');
+  tx.objectStore(STORES.GLOSSARIES).delete(id);
+  await promisifyTransaction(tx);
+}
+
+export function createGlossary(name: string, pair: LanguagePair, terms: GlossaryTerm[] = []): GlossarySet {
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    name: name.trim() || 'Untitled glossary',
+    sourceLanguage: pair.source,
+    targetLanguage: pair.target,
+    terms,
+    active: true,
+    updatedAt: new Date(),
+  };
+}
+
+const cleanTerms = (terms: GlossaryTerm[]) =>
+  terms
+    .map(t => ({ source: t.source.trim(), target: t.target.trim(), note: t.note?.trim() || undefined }))
+    .filter(t => t.source && t.target);
+
+/** Whether a set's languages are the two sides of the pair, in either order. */
+export function appliesToPair(set: GlossarySet, pair: LanguagePair): boolean {
+  return (set.sourceLanguage === pair.source && set.targetLanguage === pair.target)
+    || (set.sourceLanguage === pair.target && set.targetLanguage === pair.source);
+}
+
+export function getActiveTerms(sets: GlossarySet[], pair: LanguagePair): GlossarySet[] {
+  return sets.filter(s => s.active && s.terms.length > 0 && appliesToPair(s, pair));
+}
+
+/** Instruction text listing every active term for the pair, or '' when there are none. */
+export function buildGlossaryInstruction(sets: GlossarySet[], pair: LanguagePair): string {
+  const lines = getActiveTerms(sets, pair).flatMap(set => {
+    const from = getLanguage(set.sourceLanguage).name;
+    const to = getLanguage(set.targetLanguage).name;
+    return set.terms.map(t => `"${t.source}" (${from}) = "${t.target}" (${to})${t.note ? ` — ${t.note}` : ''}`);
+  });
+  if (lines.length === 0) return '';
+  return `Always translate these glossary terms exactly as given, in both directions: ${lines.join('; ')}.`;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Languages written without spaces can't rely on word edges.
+const UNSPACED_SCRIPT = /[\u3040-\u30ff\u4e00-\u9fff\uac00-\ud7af]/;
+
+/** Case-insensitive whole-word (or whole-phrase) match. */
+export function containsTerm(text: string, term: string): boolean {
+  if (!term) return false;
+  if (UNSPACED_SCRIPT.test(term)) return text.includes(term);
+  const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term).replace(/\s+/g, '\\s+')}($|[^\\p{L}\\p{N}])`, 'iu');
+  return pattern.test(text);
+}
+
+/**
+ * Terms present in what was said whose glossary rendering is missing from the
+ * translation. `spokenLanguage` narrows the check to one direction; without it
+ * both sides of each term are tried.
+ */
+export function checkGlossary(
+  spoken: string,
+  translation: string,
+  sets: GlossarySet[],
+  pair: LanguagePair,
+  spokenLanguage?: string,
+): GlossaryViolation[] {
+  const violations: GlossaryViolation[] = [];
+  const seen = new Set<string>();
+  for (const set of getActiveTerms(sets, pair)) {
+    for (const t of set.terms) {
+      const directions: [string, string, string][] = [
+        [set.sourceLanguage, t.source, t.target],
+        [set.targetLanguage, t.target, t.source],
+      ];
+      for (const [language, term, expected] of directions) {
+        if (spokenLanguage && spokenLanguage !== language) continue;
+        const key = `${term}\u0000${expected}`.toLowerCase();
+        if (seen.has(key) || !containsTerm(spoken, term) || containsTerm(translation, expected)) continue;
+        seen.add(key);
+        violations.push({ term, expected });
+      }
+    }
+  }
+  return violations;
+}
+
+// Minimal RFC 4180 reader: quoted cells may hold commas, quotes and newlines.
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim()));
+}
+
+/** Header row names the two languages by code, so the file carries its own direction. */
+export function toGlossaryCsv(set: GlossarySet): string {
+  const lines = [
+    [set.sourceLanguage, set.targetLanguage, 'note'].join(','),
+    ...set.terms.map(t => [t.source, t.target, t.note || ''].map(csvCell).join(',')),
+  ];
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Reads a two- or three-column CSV. A header of language codes sets the
+ * direction; files without one are taken to follow `fallbackPair`.
+ */
+export function parseGlossaryCsv(text: string, name: string, fallbackPair: LanguagePair): GlossarySet {
+  const rows = parseCsvRows(text);
+  if (rows.length === 0) throw new Error('The file has no rows.');
+
+  let pair = fallbackPair;
+  const [first, second] = rows[0].map(c => c.trim().toLowerCase());
+  const isKnown = (code: string) => getLanguage(code).code === code;
+  if (isKnown(first) && isKnown(second)) {
+    pair = { ...fallbackPair, source: first, target: second };
+    rows.shift();
+  } else if (first === 'source' && second === 'target') {
+    rows.shift();
+  }
+
+  const terms = cleanTerms(rows.map((r, i) => {
+    if (r.length < 2) throw new Error(`Row ${i + 1} needs a source and a target term.`);
+    return { source: r[0], target: r[1], note: r[2] };
+  }));
+  if (terms.length === 0) throw new Error('The file has no terms.');
+  return createGlossary(name, pair, terms);
+}
+
+export function toGlossaryJson(set: GlossarySet): string {
+  return JSON.stringify({
+    format: GLOSSARY_FORMAT_ID,
+    version: GLOSSARY_FORMAT_VERSION,
+    name: set.name,
+    sourceLanguage: set.sourceLanguage,
+    targetLanguage: set.targetLanguage,
+    terms: set.terms,
+  }, null, 2);
+}
+
+export function parseGlossaryJson(text: string): GlossarySet {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (raw?.format !== GLOSSARY_FORMAT_ID || !Array.isArray(raw.terms)) {
+    throw new Error('The file is not a Salin glossary export.');
+  }
+  if (raw.version > GLOSSARY_FORMAT_VERSION) {
+    throw new Error('This glossary was exported by a newer version of Salin.');
+  }
+  const terms = cleanTerms(raw.terms.map((t: any, i: number): GlossaryTerm => {
+    if (typeof t?.source !== 'string' || typeof t?.target !== 'string') throw new Error(`Term ${i + 1} is malformed.`);
+    return { source: t.source, target: t.target, note: typeof t.note === 'string' ? t.note : undefined };
+  }));
+  return createGlossary(String(raw.name || 'Imported glossary'), {
+    source: String(raw.sourceLanguage),
+    target: String(raw.targetLanguage),
+    autoDetect: true,
+  }, terms);
+}
+
+/** Picks the parser from the file name; anything that isn't .json is read as CSV. */
+export async function importGlossaryFile(file: File, fallbackPair: LanguagePair): Promise<GlossarySet> {
+  const text = await file.text();
+  if (/\.json$/i.test(file.name) || file.type === 'application/json') return parseGlossaryJson(text);
+  return parseGlossaryCsv(text, file.name.replace(/\.[^.]+$/, ''), fallbackPair);
+}
+
+export function exportGlossary(set: GlossarySet, format: 'csv' | 'json'): ExportedFile {
+  const base = fileBaseName(set.name, 'glossary');
+  return format === 'csv'
+    ? { filename: `${base}.csv`, mimeType: 'text/csv', content: toGlossaryCsv(set) }
+    : { filename: `${base}.json`, mimeType: 'application/json', content: toGlossaryJson(set) };
+}
+
+export function setTerms(set: GlossarySet, terms: GlossaryTerm[]): GlossarySet {
+  return { ...set, terms: cleanTerms(terms) };
+}
@@ -0,0 +1,54 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { AppMode, TranscriptionEntry } from '../types';
+import { openDatabase, promisifyRequest, STORES } from './db';
+import { appendEntries, createSession, getSession, getSessionEntries, purgeExpiredHistory } from './history-store';
+import { createOutboxItem, listOutbox, saveOutboxItem } from './outbox';
+import { SessionMetrics, saveSessionMetrics } from './session-metrics';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-03-10T09:00:00Z').getTime();
+const cutoff = new Date(NOW - 7 * DAY);
+const daysAgo = (days: number) => new Date(NOW - days * DAY);
+const PAIR = { source: 'en', target: 'fil', autoDetect: true };
+
+const entry = (text: string, timestamp: Date): TranscriptionEntry => ({
+  id: Math.random().toString(36).substr(2, 9), speaker: 'user', text, timestamp, mode: AppMode.TRANSLATE,
+});
+
+const metricsRun = (id: string, startedAt: Date, sessionId?: string): SessionMetrics => ({
+  id, sessionId, mode: AppMode.TRANSLATE, provider: 'mock', voiceName: 'Kore', startedAt, turns: [], interruptions: 0, reconnects: 0, inputSeconds: 0, outputSeconds: 0,
+});
+
+async function metricsIds(): Promise<string[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.METRICS, 'readonly').objectStore(STORES.METRICS);
+  return (await promisifyRequest<SessionMetrics[]>(store.getAll())).map(m => m.id).sort();
+}
+
+describe('purgeExpiredHistory', () => {
+  it('drops old lines, emptied sessions, metrics runs and queued captures', async () => {
+    const old = await createSession(AppMode.TRANSLATE, 'Old', daysAgo(30));
+    await appendEntries(old.id, [entry('Magandang umaga', daysAgo(30))]);
+    const mixed = await createSession(AppMode.TRANSLATE, 'Mixed', daysAgo(10));
+    await appendEntries(mixed.id, [entry('Kumusta', daysAgo(10)), entry('Salamat po', daysAgo(1))]);
+
+    await saveSessionMetrics(metricsRun('old-run', daysAgo(30), old.id));
+    await saveSessionMetrics(metricsRun('stray-run', daysAgo(20)));
+    await saveSessionMetrics(metricsRun('new-run', daysAgo(1), mixed.id));
+
+    const expiredClip = { ...createOutboxItem(AppMode.TRANSLATE, PAIR, { text: 'Nasaan ang CR?' }), createdAt: daysAgo(9) };
+    const freshClip = { ...createOutboxItem(AppMode.TRANSLATE, PAIR, { text: 'Magkano ito?' }), createdAt: daysAgo(2) };
+    await saveOutboxItem(expiredClip);
+    await saveOutboxItem(freshClip);
+
+    const result = await purgeExpiredHistory(cutoff);
+
+    expect(result).toEqual({ entries: 2, sessionIds: [old.id], outboxIds: [expiredClip.id] });
+    expect(await getSession(old.id)).toBeUndefined();
+    expect((await getSessionEntries(mixed.id)).map(e => e.text)).toEqual(['Salamat po']);
+    expect(await getSession(mixed.id)).toMatchObject({ entryCount: 1, preview: 'Salamat po' });
+    expect(await metricsIds()).toEqual(['new-run']);
+    expect((await listOutbox()).map(item => item.id)).toEqual([freshClip.id]);
+  });
+});
@@ -0,0 +1,208 @@
+import { AppMode, ConversationSession, EntryAudio, TranscriptionEntry } from '../types';
+import { openDatabase, promisifyRequest, promisifyTransaction, STORES } from './db';
+
+type StoredEntry = TranscriptionEntry & { sessionId: string };
+
+const PREVIEW_LENGTH = 80;
+
+export function defaultSessionName(mode: AppMode, startedAt: Date): string {
+  const label = mode === AppMode.TRANSLATE ? 'Translation' : 'Chat';
+  return `${label} · ${startedAt.toLocaleDateString([], { month: 'short', day: 'numeric' })}, ${startedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+export async function createSession(mode: AppMode, name?: string, startedAt = new Date()): Promise<ConversationSession> {
+  const session: ConversationSession = {
+    id: Math.random().toString(36).substr(2, 9),
+    name: name || defaultSessionName(mode, startedAt),
+    mode,
+    startedAt,
+    entryCount: 0,
+  };
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.SESSIONS, 'readwrite');
+  tx.objectStore(STORES.SESSIONS).put(session);
+  await promisifyTransaction(tx);
+  return session;
+}
+
+/**
+ * Stores an imported transcript as a new session. Entry ids are regenerated so
+ * importing the same file twice never overwrites an existing conversation.
+ */
+export async function importSession(
+  session: Pick<ConversationSession, 'name' | 'mode' | 'startedAt'>,
+  entries: TranscriptionEntry[],
+): Promise<ConversationSession> {
+  const created = await createSession(session.mode, session.name, session.startedAt);
+  // Exports carry text only, so imported lines have no audio to replay.
+  await appendEntries(created.id, entries.map(e => ({ ...e, id: Math.random().toString(36).substr(2, 9), hasAudio: undefined })));
+  return created;
+}
+
+export async function listSessions(): Promise<ConversationSession[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.SESSIONS, 'readonly').objectStore(STORES.SESSIONS);
+  const sessions = await promisifyRequest<ConversationSession[]>(store.getAll());
+  return sessions.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+}
+
+export async function getSession(id: string): Promise<ConversationSession | undefined> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.SESSIONS, 'readonly').objectStore(STORES.SESSIONS);
+  return promisifyRequest<ConversationSession | undefined>(store.get(id));
+}
+
+export async function getSessionEntries(sessionId: string): Promise<TranscriptionEntry[]> {
+  const db = await openDatabase();
+  const index = db.transaction(STORES.ENTRIES, 'readonly').objectStore(STORES.ENTRIES).index('sessionId');
+  const stored = await promisifyRequest<StoredEntry[]>(index.getAll(sessionId));
+  return stored
+    .map(({ sessionId: _, ...entry }) => entry)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+export async function appendEntries(sessionId: string, entries: TranscriptionEntry[], audio: EntryAudio[] = []): Promise<void> {
+  if (entries.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.SESSIONS, STORES.ENTRIES, STORES.AUDIO], 'readwrite');
+  const entryStore = tx.objectStore(STORES.ENTRIES);
+  entries.forEach(entry => entryStore.put({ ...entry, sessionId }));
+  audio.forEach(clip => tx.objectStore(STORES.AUDIO).put({ ...clip, sessionId }));
+
+  const sessionStore = tx.objectStore(STORES.SESSIONS);
+  const session = await promisifyRequest<ConversationSession | undefined>(sessionStore.get(sessionId));
+  if (session) {
+    const last = entries[entries.length - 1];
+    sessionStore.put({
+      ...session,
+      endedAt: last.timestamp,
+      entryCount: session.entryCount + entries.length,
+      preview: session.preview || entries[0].text.slice(0, PREVIEW_LENGTH),
+    });
+  }
+  await promisifyTransaction(tx);
+}
+
+export async function renameSession(id: string, name: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.SESSIONS, 'readwrite');
+  const store = tx.objectStore(STORES.SESSIONS);
+  const session = await promisifyRequest<ConversationSession | undefined>(store.get(id));
+  if (session) store.put({ ...session, name: name.trim() || session.name });
+  await promisifyTransaction(tx);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.SESSIONS, STORES.ENTRIES, STORES.AUDIO, STORES.RECORDINGS, STORES.METRICS, STORES.PRACTICE_REPORTS], 'readwrite');
+  tx.objectStore(STORES.SESSIONS).delete(id);
+  for (const name of [STORES.ENTRIES, STORES.AUDIO, STORES.RECORDINGS, STORES.METRICS, STORES.PRACTICE_REPORTS]) {
+    const keys = await promisifyRequest(tx.objectStore(name).index('sessionId').getAllKeys(id));
+    keys.forEach(key => tx.objectStore(name).delete(key));
+  }
+  await promisifyTransaction(tx);
+}
+
+export interface PurgeResult {
+  entries: number;
+  // Sessions removed because nothing in them was newer than the cutoff.
+  sessionIds: string[];
+  // Queued offline captures that expired before they could be sent.
+  outboxIds: string[];
+}
+
+/**
+ * Retention sweep: drops entries and their audio from before the cutoff,
+ * along with sessions left with nothing newer, and recordings, metrics runs,
+ * practice reports and queued offline captures made before it. Partly expired
+ * sessions keep their newer lines.
+ */
+export async function purgeExpiredHistory(cutoff: Date): Promise<PurgeResult> {
+  const stores = [STORES.SESSIONS, STORES.ENTRIES, STORES.AUDIO, STORES.RECORDINGS, STORES.METRICS, STORES.PRACTICE_REPORTS, STORES.OUTBOX];
+  const db = await openDatabase();
+  const tx = db.transaction(stores, 'readwrite');
+  const entryStore = tx.objectStore(STORES.ENTRIES);
+  const entries = await promisifyRequest<StoredEntry[]>(entryStore.getAll());
+  const kept = new Map<string, StoredEntry[]>();
+  let expired = 0;
+  for (const entry of entries) {
+    if (entry.timestamp < cutoff) {
+      entryStore.delete(entry.id);
+      tx.objectStore(STORES.AUDIO).delete(entry.id);
+      expired++;
+    } else {
+      kept.set(entry.sessionId, [...(kept.get(entry.sessionId) || []), entry]);
+    }
+  }
+
+  const sessionStore = tx.objectStore(STORES.SESSIONS);
+  const sessions = await promisifyRequest<ConversationSession[]>(sessionStore.getAll());
+  const sessionIds: string[] = [];
+  for (const session of sessions) {
+    const remaining = (kept.get(session.id) || []).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    if (remaining.length === 0 && (session.endedAt || session.startedAt) < cutoff) {
+      sessionStore.delete(session.id);
+      sessionIds.push(session.id);
+      for (const name of [STORES.AUDIO, STORES.RECORDINGS, STORES.METRICS, STORES.PRACTICE_REPORTS]) {
+        const keys = await promisifyRequest(tx.objectStore(name).index('sessionId').getAllKeys(session.id));
+        keys.forEach(key => tx.objectStore(name).delete(key));
+      }
+    } else if (remaining.length !== session.entryCount) {
+      sessionStore.put({ ...session, entryCount: remaining.length, preview: remaining[0]?.text.slice(0, PREVIEW_LENGTH) });
+    }
+  }
+
+  // Records in these stores are keyed by a string id; anything without a date is kept.
+  const expiredBefore = async (store: IDBObjectStore, field: 'startedAt' | 'createdAt') => {
+    const items = await promisifyRequest<Record<string, unknown>[]>(store.getAll());
+    return items.flatMap(item => {
+      const date = item[field];
+      if (!(date instanceof Date) || date >= cutoff || typeof item.id !== 'string') return [];
+      store.delete(item.id);
+      return [item.id];
+    });
+  };
+  await expiredBefore(tx.objectStore(STORES.RECORDINGS), 'startedAt');
+  await expiredBefore(tx.objectStore(STORES.METRICS), 'startedAt');
+  await expiredBefore(tx.objectStore(STORES.PRACTICE_REPORTS), 'createdAt');
+  const outboxIds = await expiredBefore(tx.objectStore(STORES.OUTBOX), 'createdAt');
+
+  await promisifyTransaction(tx);
+  return { entries: expired, sessionIds, outboxIds };
+}
+
+export async function getEntryAudio(entryId: string): Promise<EntryAudio | undefined> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.AUDIO, 'readonly').objectStore(STORES.AUDIO);
+  const stored = await promisifyRequest<(EntryAudio & { sessionId: string }) | undefined>(store.get(entryId));
+  if (!stored) return undefined;
+  const { sessionId: _, ...audio } = stored;
+  return audio;
+}
+
+/** Attaches audio to an already stored entry, e.g. speech synthesised on first replay. */
+export async function saveEntryAudio(sessionId: string, audio: EntryAudio): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.ENTRIES, STORES.AUDIO], 'readwrite');
+  tx.objectStore(STORES.AUDIO).put({ ...audio, sessionId });
+  const entryStore = tx.objectStore(STORES.ENTRIES);
+  const entry = await promisifyRequest<StoredEntry | undefined>(entryStore.get(audio.entryId));
+  if (entry) entryStore.put({ ...entry, hasAudio: true });
+  await promisifyTransaction(tx);
+}
+
+/**
+ * Case-insensitive match against session names and every stored entry's text.
+ * Histories are small enough on-device that a full scan is fine.
+ */
+export async function searchSessions(query: string): Promise<ConversationSession[]> {
+  const sessions = await listSessions();
+  const needle = query.trim().toLowerCase();
+  if (!needle) return sessions;
+
+  const db = await openDatabase();
+  const store = db.transaction(STORES.ENTRIES, 'readonly').objectStore(STORES.ENTRIES);
+  const entries = await promisifyRequest<StoredEntry[]>(store.getAll());
+  const matching = new Set(entries.filter(e => e.text.toLowerCase().includes(needle)).map(e => e.sessionId));
+  return sessions.filter(s => matching.has(s.id) || s.name.toLowerCase().includes(needle));
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InputMode, InputSettings } from '../types';
+import { createPcmBlob } from './audio-helpers';
+import { DEFAULT_INPUT_SETTINGS, createInputGate } from './input-gate';
+
+// 2048 samples at 16 kHz: 128 ms per chunk.
+const chunk = (tag: number) => createPcmBlob(new Int16Array(2048).fill(tag));
+const settings = (mode: InputMode): InputSettings => ({ ...DEFAULT_INPUT_SETTINGS, mode });
+
+describe('createInputGate', () => {
+  it('passes everything through in continuous mode', () => {
+    const onChange = vi.fn();
+    const gate = createInputGate(settings(InputMode.CONTINUOUS), onChange);
+    expect(gate.isOpen()).toBe(true);
+    expect(gate.process(chunk(1), 0)).toHaveLength(1);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('only sends while the talk button is held, with pre-roll on open', () => {
+    const onChange = vi.fn();
+    const gate = createInputGate(settings(InputMode.HOLD), onChange);
+    for (let i = 1; i <= 5; i++) expect(gate.process(chunk(i), 0.5)).toEqual([]);
+
+    gate.setManualOpen(true);
+    expect(onChange).toHaveBeenLastCalledWith(true);
+    expect(gate.process(chunk(6), 0)).toEqual([chunk(3), chunk(4), chunk(5), chunk(6)]);
+    expect(gate.process(chunk(7), 0)).toEqual([chunk(7)]);
+
+    gate.setManualOpen(false);
+    expect(onChange).toHaveBeenLastCalledWith(false);
+    expect(gate.process(chunk(8), 0.5)).toEqual([]);
+  });
+
+  it('opens on speech and closes after the hangover in VAD mode', () => {
+    const onChange = vi.fn();
+    const gate = createInputGate({ mode: InputMode.VAD, vad: { startThreshold: 0.05, stopThreshold: 0.02, hangoverMs: 300 } }, onChange);
+
+    expect(gate.process(chunk(1), 0.01)).toEqual([]);
+    expect(gate.process(chunk(2), 0.08)).toEqual([chunk(1), chunk(2)]);
+    // Between the thresholds keeps the gate open without counting as silence.
+    expect(gate.process(chunk(3), 0.03)).toHaveLength(1);
+    expect(gate.process(chunk(4), 0.01)).toHaveLength(1);
+    expect(gate.process(chunk(5), 0.01)).toHaveLength(1);
+    expect(gate.isOpen()).toBe(true);
+    expect(gate.process(chunk(6), 0.01)).toEqual([]);
+    expect(gate.isOpen()).toBe(false);
+    expect(onChange.mock.calls).toEqual([[true], [false]]);
+  });
+
+  it('resets manual state when the mode changes', () => {
+    const gate = createInputGate(settings(InputMode.TOGGLE), () => {});
+    gate.setManualOpen(true);
+    gate.configure(settings(InputMode.HOLD));
+    expect(gate.isOpen()).toBe(false);
+    gate.configure(settings(InputMode.CONTINUOUS));
+    expect(gate.isOpen()).toBe(true);
+  });
+});
@@ -0,0 +1,93 @@
+import { InputMode, InputSettings } from '../types';
+import { AudioChunk } from './translation-provider';
+import { pcmChunkSeconds } from './audio-helpers';
+
+export const DEFAULT_INPUT_SETTINGS: InputSettings = {
+  mode: InputMode.CONTINUOUS,
+  vad: {
+    startThreshold: 0.02,
+    stopThreshold: 0.012,
+    hangoverMs: 700,
+  },
+};
+
+// Chunks held while closed and sent when the gate opens, so the first
+// syllable isn't clipped (~0.4 s at 2048-sample chunks).
+const PREROLL_CHUNKS = 3;
+
+export interface InputGate {
+  // Feeds one captured chunk and returns the chunks that should be sent now.
+  process: (chunk: AudioChunk, rms: number) => AudioChunk[];
+  // Talk button state for HOLD and TOGGLE modes.
+  setManualOpen: (open: boolean) => void;
+  configure: (settings: InputSettings) => void;
+  reset: () => void;
+  isOpen: () => boolean;
+}
+
+/**
+ * Decides which microphone chunks reach the session. `onChange` fires on every
+ * open/close transition; a close marks the end of an utterance.
+ */
+export function createInputGate(initial: InputSettings, onChange: (open: boolean) => void): InputGate {
+  let settings = initial;
+  let open = false;
+  let manualOpen = false;
+  let silenceMs = 0;
+  let preroll: AudioChunk[] = [];
+  let flushPreroll = false;
+
+  const setOpen = (next: boolean) => {
+    if (next === open) return;
+    open = next;
+    flushPreroll = next;
+    silenceMs = 0;
+    onChange(open);
+  };
+
+  const initialState = () => {
+    manualOpen = false;
+    preroll = [];
+    setOpen(settings.mode === InputMode.CONTINUOUS);
+  };
+
+  // Start in the initial state without notifying; the caller's view already matches it.
+  open = settings.mode === InputMode.CONTINUOUS;
+
+  return {
+    process(chunk, rms) {
+      if (settings.mode === InputMode.VAD) {
+        const { startThreshold, stopThreshold, hangoverMs } = settings.vad;
+        if (rms >= startThreshold) {
+          setOpen(true);
+          silenceMs = 0;
+        } else if (open) {
+          silenceMs = rms < stopThreshold ? silenceMs + pcmChunkSeconds(chunk) * 1000 : 0;
+          if (silenceMs >= hangoverMs) setOpen(false);
+        }
+      }
+
+      if (!open) {
+        preroll.push(chunk);
+        if (preroll.length > PREROLL_CHUNKS) preroll.shift();
+        return [];
+      }
+      if (!flushPreroll) return [chunk];
+      const out = [...preroll, chunk];
+      preroll = [];
+      flushPreroll = false;
+      return out;
+    },
+    setManualOpen(next) {
+      manualOpen = next;
+      if (settings.mode === InputMode.HOLD || settings.mode === InputMode.TOGGLE) setOpen(manualOpen);
+    },
+    configure(next) {
+      const modeChanged = next.mode !== settings.mode;
+      settings = next;
+      if (modeChanged) initialState();
+    },
+    reset: initialState,
+    isOpen: () => open,
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { LanguagePair } from '../types';
+import { LANGUAGES, detectLanguage } from './languages';
+
+const pair = (source: string, target: string): LanguagePair => ({ source, target, autoDetect: true });
+
+// A typical line in each built-in profile.
+const SAMPLES: Record<string, string> = {
+  en: 'Where is the pharmacy? Thank you.',
+  fil: 'Saan po ang botika? Hindi ko alam.',
+  ceb: 'Asa ang botika? Dili ko kabalo.',
+  ilo: 'Ayan ti botika? Saan ko ammo, apo.',
+  hil: 'Diin ang botika? Indi ko kabalo gid.',
+  war: 'Hain an botika? Waray ako kasabot.',
+  pam: 'Nokarin ing botika? Ali ku balu.',
+  bcl: 'Hain an botika? Dai ko aram, tano daw?',
+  es: '¿Dónde está la farmacia? No lo sé.',
+  ja: '薬局はどこですか？',
+  ko: '약국이 어디예요?',
+  zh: '药店在哪里？',
+};
+
+describe('detectLanguage', () => {
+  it('has a sample for every built-in profile', () => {
+    expect(Object.keys(SAMPLES).sort()).toEqual(LANGUAGES.map(l => l.code).sort());
+  });
+
+  it.each(LANGUAGES.filter(l => l.code !== 'en').map(l => l.code))('tells %s apart from English', (code) => {
+    expect(detectLanguage(SAMPLES[code], pair('en', code))).toBe(code);
+    expect(detectLanguage(SAMPLES.en, pair('en', code))).toBe('en');
+  });
+
+  it('tells neighbouring Philippine languages apart by the words only one of them uses', () => {
+    expect(detectLanguage(SAMPLES.ceb, pair('fil', 'ceb'))).toBe('ceb');
+    expect(detectLanguage(SAMPLES.fil, pair('fil', 'ceb'))).toBe('fil');
+    expect(detectLanguage('Salamat po sa inyo', pair('fil', 'ceb'))).toBe('fil');
+    expect(detectLanguage('Salamat kaayo', pair('fil', 'ceb'))).toBe('ceb');
+    expect(detectLanguage(SAMPLES.hil, pair('ceb', 'hil'))).toBe('hil');
+  });
+
+  it('reads kana as Japanese even with kanji in the line', () => {
+    expect(detectLanguage(SAMPLES.ja, pair('ja', 'zh'))).toBe('ja');
+    expect(detectLanguage(SAMPLES.zh, pair('ja', 'zh'))).toBe('zh');
+  });
+
+  it('gives no answer for short lines both sides share', () => {
+    expect(detectLanguage('Salamat', pair('fil', 'ceb'))).toBeUndefined();
+    expect(detectLanguage('Ako sa', pair('fil', 'ceb'))).toBeUndefined();
+    expect(detectLanguage('Maayo lang', pair('ceb', 'hil'))).toBeUndefined();
+    expect(detectLanguage('Okay', pair('en', 'fil'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,185 @@
+import { Formality, LanguagePair, LanguageProfile } from '../types';
+
+export const LANGUAGES: LanguageProfile[] = [
+  {
+    code: 'en', name: 'English', nativeName: 'English',
+    markers: ['the', 'is', 'are', 'you', 'and', 'what', 'where', 'this', 'that', 'have', 'with', 'my', 'your', 'it', 'of', 'to', 'please', 'thank', 'i', 'do', 'does', 'can'],
+  },
+  {
+    code: 'fil', name: 'Filipino', nativeName: 'Tagalog',
+    politeHint: 'Always use "po" and "opo" in Filipino.',
+    markers: ['ang', 'ng', 'mga', 'ako', 'ikaw', 'ka', 'ko', 'mo', 'siya', 'hindi', 'oo', 'po', 'opo', 'ba', 'na', 'sa', 'ito', 'iyan', 'saan', 'ano', 'bakit', 'salamat', 'kumusta', 'ngayon', 'lang', 'naman', 'talaga', 'gusto', 'may', 'wala'],
+  },
+  {
+    code: 'ceb', name: 'Cebuano', nativeName: 'Binisaya',
+    politeHint: 'Use respectful Cebuano such as "palihug" and addressing elders with "Nong" or "Nang".',
+    markers: ['ang', 'sa', 'nga', 'ako', 'ikaw', 'ka', 'ko', 'mo', 'siya', 'dili', 'oo', 'unsa', 'asa', 'ngano', 'salamat', 'maayo', 'karon', 'lang', 'kaayo', 'kini', 'kana', 'naa', 'wala', 'ug', 'palihug', 'unya', 'gyud', 'nako', 'nimo', 'imo', 'kabalo', 'adto'],
+  },
+  {
+    code: 'ilo', name: 'Ilocano', nativeName: 'Ilokano',
+    politeHint: 'Use respectful Ilocano with "apo" and "kadi".',
+    markers: ['ti', 'ken', 'ni', 'nga', 'siak', 'sika', 'isuna', 'saan', 'wen', 'apay', 'ania', 'ayan', 'agyamanak', 'naimbag', 'ita', 'la', 'kayat', 'adda', 'awan', 'dayta', 'daytoy', 'apo', 'kadi', 'met'],
+  },
+  {
+    code: 'hil', name: 'Hiligaynon', nativeName: 'Ilonggo',
+    politeHint: 'Use respectful Hiligaynon such as "palihog" and "po".',
+    markers: ['ang', 'sang', 'sa', 'nga', 'ako', 'ikaw', 'ka', 'ko', 'mo', 'siya', 'indi', 'huo', 'ano', 'diin', 'ngaa', 'salamat', 'maayo', 'subong', 'lang', 'gid', 'ini', 'ina', 'may', 'wala', 'palihog', 'kag'],
+  },
+  {
+    code: 'war', name: 'Waray', nativeName: 'Winaray',
+    markers: ['an', 'han', 'ngan', 'ako', 'ikaw', 'diri', 'oo', 'ano', 'hain', 'kay', 'salamat', 'maupay', 'yana', 'gud', 'hiya', 'waray'],
+  },
+  {
+    code: 'pam', name: 'Kapampangan', nativeName: 'Kapampangan',
+    markers: ['ing', 'ning', 'ku', 'mu', 'ika', 'aku', 'ali', 'wa', 'nanu', 'nokarin', 'salamat', 'mayap', 'ngeni', 'keng', 'ya', 'tamu'],
+  },
+  {
+    code: 'bcl', name: 'Bikol', nativeName: 'Bikol',
+    markers: ['an', 'kan', 'asin', 'ako', 'ika', 'dai', 'iyo', 'ano', 'hain', 'tano', 'salamat', 'marhay', 'ngunyan', 'man', 'digdi', 'daw'],
+  },
+  {
+    code: 'es', name: 'Spanish', nativeName: 'Español',
+    politeHint: 'Address people as "usted" in Spanish.',
+    markers: ['el', 'la', 'los', 'las', 'de', 'que', 'y', 'es', 'en', 'por', 'para', 'usted', 'gracias', 'hola', 'dónde', 'donde', 'qué', 'sí', 'muy', 'está', 'estoy', 'no'],
+  },
+  {
+    code: 'ja', name: 'Japanese', nativeName: '日本語',
+    politeHint: 'Use polite Japanese (です/ます form).',
+    markers: [],
+  },
+  {
+    code: 'ko', name: 'Korean', nativeName: '한국어',
+    politeHint: 'Use polite Korean (해요체 or 합니다체).',
+    markers: [],
+  },
+  {
+    code: 'zh', name: 'Mandarin Chinese', nativeName: '中文',
+    politeHint: 'Use polite Mandarin such as "您" and "请".',
+    markers: [],
+  },
+];
+
+// Characters that identify languages which do not use the Latin alphabet.
+const SCRIPTS: Record<string, RegExp> = {
+  ja: /[\u3040-\u30ff]/,
+  ko: /[\uac00-\ud7af\u1100-\u11ff]/,
+  zh: /[\u4e00-\u9fff]/,
+};
+
+export const DEFAULT_LANGUAGE_PAIR: LanguagePair = { source: 'en', target: 'fil', autoDetect: true };
+
+export const PAIR_PRESETS: LanguagePair[] = [
+  DEFAULT_LANGUAGE_PAIR,
+  { source: 'en', target: 'ceb', autoDetect: true },
+  { source: 'en', target: 'ilo', autoDetect: true },
+  { source: 'en', target: 'hil', autoDetect: true },
+  { source: 'fil', target: 'ceb', autoDetect: true },
+  { source: 'en', target: 'war', autoDetect: true },
+  { source: 'fil', target: 'es', autoDetect: true },
+  { source: 'fil', target: 'ja', autoDetect: true },
+  { source: 'en', target: 'ko', autoDetect: true },
+  { source: 'en', target: 'zh', autoDetect: true },
+];
+
+export function getLanguage(code: string): LanguageProfile {
+  return LANGUAGES.find(l => l.code === code) || LANGUAGES[0];
+}
+
+export function pairLabel(pair: LanguagePair): string {
+  return `${pair.source.toUpperCase()} ${pair.autoDetect ? '↔' : '→'} ${pair.target.toUpperCase()}`;
+}
+
+export function pairName(pair: LanguagePair): string {
+  return `${getLanguage(pair.source).name}–${getLanguage(pair.target).name}`;
+}
+
+export function isSamePair(a: LanguagePair, b: LanguagePair): boolean {
+  return a.source === b.source && a.target === b.target && a.autoDetect === b.autoDetect;
+}
+
+/** The language a line in `code` is translated into under this pair. */
+export function counterpart(pair: LanguagePair, code: string | undefined): string {
+  return code === pair.target ? pair.source : pair.target;
+}
+
+export function buildInterpreterInstruction(pair: LanguagePair): string {
+  const a = getLanguage(pair.source).name;
+  const b = getLanguage(pair.target).name;
+  const task = pair.autoDetect
+    ? `You are a specialized bidirectional ${a}-${b} speech-to-speech interpreter. If you hear ${a}, translate to ${b}. If you hear ${b}, translate to ${a}.`
+    : `You are a specialized ${a}-to-${b} speech-to-speech interpreter. Translate everything you hear into ${b}.`;
+  return `${task} ONLY speak the translation. No commentary.`;
+}
+
+export function buildTextInstruction(pair: LanguagePair): string {
+  const a = getLanguage(pair.source).name;
+  const b = getLanguage(pair.target).name;
+  const task = pair.autoDetect
+    ? `You are a specialized bidirectional ${a}-${b} translator for written text such as notes and signs. If the text is in ${a}, translate it to ${b}. If it is in ${b}, translate it to ${a}.`
+    : `You are a specialized ${a}-to-${b} translator for written text such as notes and signs. Translate the text into ${b}.`;
+  return `${task} Reply with ONLY the translation. No commentary.`;
+}
+
+export function buildChatInstruction(pair: LanguagePair): string {
+  const a = getLanguage(pair.source).name;
+  const b = getLanguage(pair.target).name;
+  const mix = pair.source === 'en' && pair.target === 'fil' ? 'Use natural Taglish.' : `Reply in whichever of ${a} or ${b} the user speaks.`;
+  return `You are Salin, a helpful ${a}-${b} assistant. ${mix}`;
+}
+
+/** Rewords a line in its own language; pair it with a register prompt. */
+export function buildRephraseInstruction(pair: LanguagePair): string {
+  const a = getLanguage(pair.source).name;
+  const b = getLanguage(pair.target).name;
+  return `You reword lines from a ${a}-${b} conversation. Keep the meaning and the language of the text and change only its tone. Reply with ONLY the reworded text. No commentary.`;
+}
+
+export function buildRegisterPrompt(pair: LanguagePair, formality: Formality): string {
+  if (formality === Formality.CASUAL) return 'Use casual and natural phrasing.';
+  if (formality === Formality.NEUTRAL) return 'Use a neutral, everyday register that is neither slangy nor stiff.';
+  const hints = [pair.source, pair.target].map(code => getLanguage(code).politeHint).filter(Boolean);
+  const polite = hints.length ? hints.join(' ') : 'Use a polite, respectful register.';
+  if (formality === Formality.POLITE) return polite;
+  return `${polite} Keep a formal, deferential tone suitable for officials and elders, with no slang or contractions.`;
+}
+
+// Philippine languages share many particles ("ang", "sa", "ko"), so a marker
+// counts for less the more profiles list it.
+const MARKER_WEIGHTS = LANGUAGES.reduce((weights, language) => {
+  language.markers.forEach(word => weights.set(word, (weights.get(word) || 0) + 1));
+  return weights;
+}, new Map<string, number>());
+
+/**
+ * Guesses which side of the pair a transcript is in, using script ranges for
+ * CJK languages and weighted marker-word hits for everything else. Returns
+ * undefined when nothing matches or both sides score the same.
+ */
+export function detectLanguage(text: string, pair: LanguagePair): string | undefined {
+  const words = text.toLowerCase().split(/[^\p{L}']+/u).filter(Boolean);
+  let best: string | undefined;
+  let bestScore = 0;
+  let tied = false;
+
+  for (const code of [pair.source, pair.target]) {
+    const script = SCRIPTS[code];
+    let score: number;
+    if (script) {
+      score = Array.from(text).filter(ch => script.test(ch)).length;
+      // Kanji alone is ambiguous with Chinese; kana decides in Japanese's favour.
+      if (code === 'zh' && SCRIPTS.ja.test(text)) score = 0;
+    } else {
+      const markers = new Set(getLanguage(code).markers);
+      score = words.filter(w => markers.has(w)).reduce((sum, w) => sum + 1 / MARKER_WEIGHTS.get(w)!, 0);
+    }
+    // Weights are fractions, so scores within a rounding error count as a tie.
+    if (score > bestScore + 1e-9) {
+      best = code;
+      bestScore = score;
+      tied = false;
+    } else if (score > 0 && Math.abs(score - bestScore) <= 1e-9) {
+      tied = true;
+    }
+  }
+  return tied ? undefined : best;
+}
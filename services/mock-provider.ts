@@ -0,0 +1,152 @@
+import { encode, pcmChunkSeconds } from './audio-helpers';
+import { TranslationProvider, TranslationProviderEvents } from './translation-provider';
+
+export interface MockTurn {
+  input: string;
+  output: string;
+  // Cut the reply off halfway and report it as interrupted.
+  interrupt?: boolean;
+}
+
+interface MockProviderOptions {
+  script?: MockTurn[];
+  // Seconds of microphone audio to receive before replaying the next turn.
+  secondsPerTurn?: number;
+  // An ended audio stream triggers the next turn early once this much was heard.
+  minSecondsPerTurn?: number;
+  openDelayMs?: number;
+}
+
+export const DEFAULT_MOCK_SCRIPT: MockTurn[] = [
+  { input: 'Good morning, how are you feeling today?', output: 'Magandang umaga po, kumusta po ang pakiramdam ninyo ngayon?' },
+  { input: 'Masakit po ang ulo ko at may lagnat ako.', output: 'I have a headache and I have a fever.' },
+  { input: 'How long have you been sick?', output: 'Gaano na po kayo katagal may sakit?' },
+  { input: 'Tatlong araw na po.', output: 'It has been three days.', interrupt: true },
+  { input: 'Please take this medicine three times a day after meals.', output: 'Pakiinom po ang gamot na ito tatlong beses sa isang araw pagkatapos kumain.' },
+];
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const CHUNK_SECONDS = 0.25;
+const FRAGMENT_INTERVAL_MS = 120;
+const SECONDS_PER_WORD = 0.35;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').trim();
+
+// Typed text replays the script line it matches (in either direction), or is echoed back.
+function findReply(script: MockTurn[], text: string): string {
+  const typed = normalize(text);
+  for (const turn of script) {
+    if (normalize(turn.input) === typed) return turn.output;
+    if (normalize(turn.output) === typed) return turn.input;
+  }
+  return `[Demo] ${text}`;
+}
+
+/** A soft voiced hum with a syllable-rate envelope, so playback sounds like speech cadence. */
+function synthesizeChunk(offsetSeconds: number, seconds: number): string {
+  const length = Math.round(seconds * OUTPUT_SAMPLE_RATE);
+  const pcm = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    const t = offsetSeconds + i / OUTPUT_SAMPLE_RATE;
+    const envelope = Math.pow(Math.sin(Math.PI * 4 * t), 2);
+    const voice = Math.sin(2 * Math.PI * 180 * t) + 0.5 * Math.sin(2 * Math.PI * 360 * t) + 0.25 * Math.sin(2 * Math.PI * 540 * t);
+    pcm[i] = Math.round(voice * envelope * 0.15 * 32767);
+  }
+  return encode(new Uint8Array(pcm.buffer));
+}
+
+// Hum lasting roughly as long as the text would take to say.
+const speechFor = (text: string, slow = false) =>
+  synthesizeChunk(0, Math.max(CHUNK_SECONDS, text.split(' ').length * SECONDS_PER_WORD * (slow ? 1.5 : 1)));
+
+/**
+ * Offline stand-in for a live backend. It replays a canned script whenever
+ * enough microphone audio has arrived, emitting the same event sequence a real
+ * session would: input transcript, audio and output transcript, then turn
+ * completion (or an interruption).
+ */
+export function createMockProvider({ script = DEFAULT_MOCK_SCRIPT, secondsPerTurn = 3, minSecondsPerTurn = 0.5, openDelayMs = 300 }: MockProviderOptions = {}): TranslationProvider {
+  return {
+    id: 'mock',
+    label: 'Scripted Demo',
+    requiresNetwork: false,
+    outputSampleRate: OUTPUT_SAMPLE_RATE,
+
+    async connect(_config, events: TranslationProviderEvents) {
+      const timers = new Set<ReturnType<typeof setTimeout>>();
+      let closed = false;
+      let turnIndex = 0;
+      let heardSeconds = 0;
+      let isReplying = false;
+
+      const after = (ms: number, fn: () => void) => {
+        const timer = setTimeout(() => {
+          timers.delete(timer);
+          if (!closed) fn();
+        }, ms);
+        timers.add(timer);
+      };
+
+      const playTurn = (turn: MockTurn, typed = false) => {
+        isReplying = true;
+        heardSeconds = 0;
+        const inputWords = turn.input.split(' ');
+        if (!typed) inputWords.forEach((word, i) => after(i * FRAGMENT_INTERVAL_MS, () => events.onInputTranscript((i ? ' ' : '') + word)));
+
+        const replyStart = (typed ? 0 : inputWords.length * FRAGMENT_INTERVAL_MS) + 300;
+        const outputWords = turn.output.split(' ');
+        const totalSeconds = outputWords.length * SECONDS_PER_WORD;
+        const chunkCount = Math.ceil(totalSeconds / CHUNK_SECONDS);
+        const playedChunks = turn.interrupt ? Math.ceil(chunkCount / 2) : chunkCount;
+        const chunkMs = CHUNK_SECONDS * 1000;
+
+        for (let c = 0; c < playedChunks; c++) {
+          after(replyStart + c * chunkMs, () => events.onAudio(synthesizeChunk(c * CHUNK_SECONDS, CHUNK_SECONDS)));
+        }
+        const spokenWords = Math.ceil((outputWords.length * playedChunks) / chunkCount);
+        outputWords.slice(0, spokenWords).forEach((word, i) =>
+          after(replyStart + i * SECONDS_PER_WORD * 1000, () => events.onOutputTranscript((i ? ' ' : '') + word)));
+
+        after(replyStart + playedChunks * chunkMs, () => {
+          if (turn.interrupt) events.onInterrupted();
+          events.onTurnComplete();
+          isReplying = false;
+        });
+      };
+
+      after(openDelayMs, () => events.onOpen());
+
+      return {
+        sendAudio: (chunk) => {
+          if (closed || isReplying || script.length === 0) return;
+          heardSeconds += pcmChunkSeconds(chunk);
+          if (heardSeconds < secondsPerTurn) return;
+          playTurn(script[turnIndex++ % script.length]);
+        },
+        endAudioStream: () => {
+          if (closed || isReplying || script.length === 0 || heardSeconds < minSecondsPerTurn) return;
+          playTurn(script[turnIndex++ % script.length]);
+        },
+        sendText: (text) => {
+          if (closed || isReplying) return;
+          playTurn({ input: text, output: findReply(script, text) }, true);
+        },
+        close: () => {
+          if (closed) return;
+          closed = true;
+          timers.forEach(clearTimeout);
+          timers.clear();
+          events.onClose();
+        },
+      };
+    },
+
+    async translateText({ text, speak }) {
+      await new Promise(resolve => setTimeout(resolve, openDelayMs));
+      const reply = findReply(script, text);
+      return { text: reply, audio: speak ? speechFor(reply) : undefined };
+    },
+
+    synthesizeSpeech: async ({ text, slow }) => speechFor(text, slow),
+  };
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AppMode, LanguagePair } from '../types';
+import { createMockProvider } from './mock-provider';
+import { OutboxItem, OutboxResult, createOutboxItem, createOutboxRunner, translateClip } from './outbox';
+
+const pair: LanguagePair = { source: 'en', target: 'fil', autoDetect: true };
+const backoff = { baseDelayMs: 1000, maxDelayMs: 8000, maxAttempts: 6, jitter: 0 };
+
+function textItem(text: string, offsetMs: number): OutboxItem {
+  const item = createOutboxItem(AppMode.TRANSLATE, pair, { text });
+  return { ...item, createdAt: new Date(Date.UTC(2026, 0, 1) + offsetMs) };
+}
+
+function setup(send: (item: OutboxItem) => Promise<OutboxResult>) {
+  const saved = new Map<string, OutboxItem>();
+  const sent: string[] = [];
+  let pending: OutboxItem[] = [];
+  let online = true;
+  const runner = createOutboxRunner({
+    send,
+    onSent: (item) => sent.push(item.text!),
+    onChange: (items) => { pending = items; },
+    canSend: () => online,
+    storage: {
+      save: async (item) => { saved.set(item.id, item); },
+      remove: async (id) => { saved.delete(id); },
+    },
+    backoff,
+  });
+  return { runner, saved, sent, pending: () => pending, setOnline: (value: boolean) => { online = value; } };
+}
+
+const echo = async (item: OutboxItem): Promise<OutboxResult> => ({ input: item.text!, output: item.text!.toUpperCase(), audio: [] });
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createOutboxRunner', () => {
+  it('holds items while offline and sends them in capture order', async () => {
+    const { runner, saved, sent, pending, setOnline } = setup(echo);
+    setOnline(false);
+    runner.load([textItem('second', 2000), textItem('first', 1000)]);
+    await runner.enqueue(textItem('third', 3000));
+    expect(pending().map(i => i.text)).toEqual(['first', 'second', 'third']);
+    expect(saved.size).toBe(1);
+
+    setOnline(true);
+    await runner.run();
+    expect(sent).toEqual(['first', 'second', 'third']);
+    expect(pending()).toEqual([]);
+    expect(saved.size).toBe(0);
+  });
+
+  it('retries a failed item with backoff before sending anything behind it', async () => {
+    vi.useFakeTimers();
+    let failures = 1;
+    const send = vi.fn(async (item: OutboxItem) => {
+      if (item.text === 'first' && failures-- > 0) throw new Error('Network down');
+      return echo(item);
+    });
+    const { runner, sent, pending } = setup(send);
+    runner.load([textItem('first', 1000), textItem('second', 2000)]);
+    await runner.run();
+
+    expect(sent).toEqual([]);
+    expect(pending()[0]).toMatchObject({ text: 'first', state: 'failed', attempts: 1, lastError: 'Network down' });
+    expect(pending()[1].state).toBe('waiting');
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(send).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sent).toEqual(['first', 'second']);
+  });
+
+  it('skips the retry delay when asked to run immediately', async () => {
+    vi.useFakeTimers();
+    let failures = 1;
+    const { runner, sent } = setup(async (item) => {
+      if (failures-- > 0) throw new Error('Network down');
+      return echo(item);
+    });
+    await runner.enqueue(textItem('hello', 1000));
+    expect(sent).toEqual([]);
+    await runner.run(true);
+    expect(sent).toEqual(['hello']);
+  });
+
+  it('drops a cancelled item, even one already being sent', async () => {
+    let release: () => void = () => {};
+    const { runner, sent, pending, saved } = setup(item => new Promise(resolve => {
+      release = () => resolve({ input: item.text!, output: '', audio: [] });
+    }));
+    const first = textItem('first', 1000);
+    await runner.enqueue(first);
+    await runner.enqueue(textItem('second', 2000));
+    expect(pending()[0].state).toBe('sending');
+
+    await runner.cancel(first.id);
+    release();
+    await vi.waitFor(() => expect(pending()).toMatchObject([{ text: 'second', state: 'sending' }]));
+    release();
+    await vi.waitFor(() => expect(pending()).toEqual([]));
+    expect(sent).toEqual(['second']);
+    expect(saved.size).toBe(0);
+  });
+
+  it('restarts an item that was mid-send when the page closed', () => {
+    const { runner, pending, setOnline } = setup(echo);
+    setOnline(false);
+    runner.load([{ ...textItem('interrupted', 1000), state: 'sending' }]);
+    expect(pending()[0].state).toBe('waiting');
+  });
+});
+
+describe('translateClip', () => {
+  it('collects the single turn produced by a recorded clip', async () => {
+    vi.useFakeTimers();
+    const provider = createMockProvider({
+      script: [{ input: 'Where is the pharmacy?', output: 'Nasaan ang botika?' }],
+      openDelayMs: 0,
+    });
+    // One second of silence at 16 kHz.
+    const clip = [{ data: btoa('\0'.repeat(32000)), mimeType: 'audio/pcm;rate=16000' }];
+    const result = translateClip(provider, { systemInstruction: '', voiceName: 'Kore' }, clip);
+    await vi.runAllTimersAsync();
+    const { input, output, audio } = await result;
+    expect(input).toBe('Where is the pharmacy?');
+    expect(output).toBe('Nasaan ang botika?');
+    expect(audio.length).toBeGreaterThan(0);
+  });
+
+  it('fails when no turn arrives in time', async () => {
+    vi.useFakeTimers();
+    const provider = createMockProvider({ script: [], openDelayMs: 0 });
+    const result = translateClip(provider, { systemInstruction: '', voiceName: 'Kore' }, [], 5000);
+    const assertion = expect(result).rejects.toThrow('took too long');
+    await vi.advanceTimersByTimeAsync(5000);
+    await assertion;
+  });
+});
@@ -0,0 +1,244 @@
+import { AppMode, LanguagePair } from '../types';
+import { pcmChunkSeconds } from './audio-helpers';
+import { openDatabase, promisifyRequest, promisifyTransaction, STORES } from './db';
+import { BackoffOptions, DEFAULT_BACKOFF, getBackoffDelay } from './reconnect';
+import { AudioChunk, ProviderSessionConfig, TranslationProvider, TranslationSession } from './translation-provider';
+
+/**
+ * Text and voice clips captured while offline. Items wait in IndexedDB, are
+ * sent strictly in the order they were made once the network is back, and a
+ * failed item is retried with backoff before anything behind it is sent.
+ */
+
+export type OutboxState = 'waiting' | 'sending' | 'failed';
+
+export interface OutboxItem {
+  id: string;
+  mode: AppMode;
+  // The pair in use when the item was captured.
+  pair: LanguagePair;
+  createdAt: Date;
+  // Either typed text or a recorded clip of 16 kHz PCM chunks.
+  text?: string;
+  audio?: AudioChunk[];
+  state: OutboxState;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: number;
+}
+
+export interface OutboxResult {
+  // What was said (the typed text, or the transcript of the clip).
+  input: string;
+  output: string;
+  // Base64 PCM of the spoken translation, at the provider's output rate.
+  audio: string[];
+}
+
+export function createOutboxItem(mode: AppMode, pair: LanguagePair, content: { text: string } | { audio: AudioChunk[] }): OutboxItem {
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    mode,
+    pair,
+    createdAt: new Date(),
+    ...content,
+    state: 'waiting',
+    attempts: 0,
+  };
+}
+
+export const outboxItemSeconds = (item: OutboxItem) =>
+  (item.audio || []).reduce((sum, chunk) => sum + pcmChunkSeconds(chunk), 0);
+
+export async function listOutbox(): Promise<OutboxItem[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.OUTBOX, 'readonly').objectStore(STORES.OUTBOX);
+  const items = await promisifyRequest<OutboxItem[]>(store.getAll());
+  return items.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+export async function saveOutboxItem(item: OutboxItem): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.OUTBOX, 'readwrite');
+  tx.objectStore(STORES.OUTBOX).put(item);
+  await promisifyTransaction(tx);
+}
+
+export async function deleteOutboxItem(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.OUTBOX, 'readwrite');
+  tx.objectStore(STORES.OUTBOX).delete(id);
+  await promisifyTransaction(tx);
+}
+
+/**
+ * Plays a recorded clip into a short-lived live session and collects the
+ * single turn it produces, for backends that only translate speech live.
+ */
+export function translateClip(
+  provider: TranslationProvider,
+  config: ProviderSessionConfig,
+  chunks: AudioChunk[],
+  timeoutMs = 30000,
+): Promise<OutboxResult> {
+  return new Promise((resolve, reject) => {
+    let input = '';
+    let output = '';
+    const audio: string[] = [];
+    let session: TranslationSession | null = null;
+    let isOpen = false;
+    let settled = false;
+
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      try { session?.close(); } catch (e) {}
+      if (error) reject(error);
+      else resolve({ input: input.trim(), output: output.trim(), audio });
+    };
+    const timer = setTimeout(() => finish(new Error('The translator took too long to answer.')), timeoutMs);
+
+    // Send once the session object exists and the backend has reported open, in whichever order.
+    const sendClip = () => {
+      if (!session || !isOpen || settled) return;
+      chunks.forEach(chunk => session!.sendAudio(chunk));
+      session.endAudioStream();
+    };
+
+    provider.connect(config, {
+      onOpen: () => { isOpen = true; sendClip(); },
+      onAudio: (data) => audio.push(data),
+      onInputTranscript: (text) => { input += text; },
+      onOutputTranscript: (text) => { output += text; },
+      onTurnComplete: () => finish(),
+      onInterrupted: () => {},
+      onError: (e) => finish(e),
+      onClose: () => finish(new Error('The session closed before the clip was translated.')),
+    }).then(s => {
+      session = s;
+      if (settled) s.close();
+      else sendClip();
+    }).catch(err => finish(err instanceof Error ? err : new Error(String(err))));
+  });
+}
+
+export interface OutboxStorage {
+  save: (item: OutboxItem) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+const INDEXED_DB_STORAGE: OutboxStorage = { save: saveOutboxItem, remove: deleteOutboxItem };
+
+interface OutboxRunnerOptions {
+  send: (item: OutboxItem) => Promise<OutboxResult>;
+  // Not called for items cancelled while they were being sent.
+  onSent: (item: OutboxItem, result: OutboxResult) => void;
+  onChange: (items: OutboxItem[]) => void;
+  canSend: () => boolean;
+  storage?: OutboxStorage;
+  backoff?: BackoffOptions;
+}
+
+export interface OutboxRunner {
+  // Restores items saved by an earlier visit.
+  load: (items: OutboxItem[]) => void;
+  enqueue: (item: OutboxItem) => Promise<void>;
+  cancel: (id: string) => Promise<void>;
+  // Sends whatever is due. `immediate` skips a pending retry delay, e.g. when the network returns.
+  run: (immediate?: boolean) => Promise<void>;
+  dispose: () => void;
+}
+
+export function createOutboxRunner({
+  send, onSent, onChange, canSend, storage = INDEXED_DB_STORAGE, backoff = DEFAULT_BACKOFF,
+}: OutboxRunnerOptions): OutboxRunner {
+  let items: OutboxItem[] = [];
+  let running = false;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  const cancelled = new Set<string>();
+
+  const persist = (work: Promise<void>) => work.catch(err => console.error('Failed to save outbox:', err));
+
+  const update = (id: string, patch: Partial<OutboxItem>) => {
+    items = items.map(item => item.id === id ? { ...item, ...patch } : item);
+    onChange(items);
+    const item = items.find(i => i.id === id);
+    if (item) persist(storage.save(item));
+  };
+
+  const remove = async (id: string) => {
+    items = items.filter(item => item.id !== id);
+    onChange(items);
+    await persist(storage.remove(id));
+  };
+
+  const scheduleRetry = (delay: number) => {
+    clearTimeout(retryTimer);
+    retryTimer = setTimeout(() => runner.run(), delay);
+  };
+
+  const runner: OutboxRunner = {
+    load(saved) {
+      // An item that was mid-send when the page closed starts over.
+      const restored = saved.map(item => item.state === 'sending' ? { ...item, state: 'waiting' as OutboxState } : item);
+      items = [...items, ...restored.filter(r => !items.some(i => i.id === r.id))]
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      onChange(items);
+    },
+
+    async enqueue(item) {
+      items = [...items, item];
+      onChange(items);
+      await persist(storage.save(item));
+      runner.run();
+    },
+
+    async cancel(id) {
+      cancelled.add(id);
+      await remove(id);
+    },
+
+    async run(immediate = false) {
+      if (running || !canSend()) return;
+      clearTimeout(retryTimer);
+      running = true;
+      try {
+        while (items.length > 0 && canSend()) {
+          const item = items[0];
+          const wait = immediate ? 0 : (item.nextAttemptAt || 0) - Date.now();
+          if (wait > 0) {
+            scheduleRetry(wait);
+            return;
+          }
+          update(item.id, { state: 'sending' });
+          try {
+            const result = await send(item);
+            if (!cancelled.has(item.id)) onSent(item, result);
+            await remove(item.id);
+          } catch (err: any) {
+            if (cancelled.has(item.id)) continue;
+            // Keep the order: nothing behind a failed item goes first.
+            const delay = getBackoffDelay(item.attempts, backoff);
+            update(item.id, {
+              state: 'failed',
+              attempts: item.attempts + 1,
+              lastError: err?.message || 'Sending failed.',
+              nextAttemptAt: Date.now() + delay,
+            });
+            scheduleRetry(delay);
+            return;
+          }
+          immediate = false;
+        }
+      } finally {
+        running = false;
+      }
+    },
+
+    dispose() {
+      clearTimeout(retryTimer);
+    },
+  };
+  return runner;
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { LanguagePair } from '../types';
+import { DEFAULT_PARTY_NAMES, attributeTurn, getParticipants, otherParty } from './participants';
+
+const pair: LanguagePair = { source: 'en', target: 'fil', autoDetect: true };
+const participants = getParticipants(pair, { A: 'Dr. Reyes', B: '  ' });
+
+describe('getParticipants', () => {
+  it('maps party A to the source language and falls back to default names', () => {
+    expect(participants[0]).toEqual({ id: 'A', name: 'Dr. Reyes', language: 'en' });
+    expect(participants[1]).toEqual({ id: 'B', name: DEFAULT_PARTY_NAMES.B, language: 'fil' });
+    expect(otherParty(participants, 'A').id).toBe('B');
+  });
+});
+
+describe('attributeTurn', () => {
+  it('attributes by detected language', () => {
+    expect(attributeTurn(participants, { language: 'fil' }).id).toBe('B');
+    expect(attributeTurn(participants, { language: 'en', previous: 'A' }).id).toBe('A');
+  });
+
+  it('lets a pressed talk button win over detection', () => {
+    expect(attributeTurn(participants, { language: 'en', pressed: 'B' }).id).toBe('B');
+  });
+
+  it('alternates from the previous speaker when the language is unknown', () => {
+    expect(attributeTurn(participants, { previous: 'A' }).id).toBe('B');
+    expect(attributeTurn(participants, { previous: 'B' }).id).toBe('A');
+    expect(attributeTurn(participants, {}).id).toBe('A');
+  });
+});
@@ -0,0 +1,40 @@
+import { LanguagePair, Participant, ParticipantRef, PartyId } from '../types';
+
+/**
+ * The two people in a translate-mode conversation. Party A speaks the pair's
+ * source language and party B its target, so a turn can be attributed from
+ * the language it was heard in.
+ */
+
+export type PartyNames = Record<PartyId, string>;
+
+export const DEFAULT_PARTY_NAMES: PartyNames = { A: 'Party A', B: 'Party B' };
+
+export function getParticipants(pair: LanguagePair, names: PartyNames): [Participant, Participant] {
+  return [
+    { id: 'A', name: names.A.trim() || DEFAULT_PARTY_NAMES.A, language: pair.source },
+    { id: 'B', name: names.B.trim() || DEFAULT_PARTY_NAMES.B, language: pair.target },
+  ];
+}
+
+export const toParticipantRef = ({ id, name }: Participant): ParticipantRef => ({ id, name });
+
+export function otherParty(participants: [Participant, Participant], id: PartyId): Participant {
+  return participants[0].id === id ? participants[1] : participants[0];
+}
+
+interface TurnHints {
+  // Language detected in the turn, if any.
+  language?: string;
+  // The party whose talk button opened the mic, a deliberate signal that beats detection.
+  pressed?: PartyId;
+  // Who spoke last; people take turns, so an unplaced line goes to the other one.
+  previous?: PartyId;
+}
+
+export function attributeTurn(participants: [Participant, Participant], { language, pressed, previous }: TurnHints): Participant {
+  if (pressed) return participants.find(p => p.id === pressed)!;
+  const byLanguage = participants.find(p => p.language === language);
+  if (byLanguage) return byLanguage;
+  return previous ? otherParty(participants, previous) : participants[0];
+}
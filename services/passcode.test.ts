@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { checkPasscode, createPasscodeRecord } from './passcode';
+
+describe('passcode', () => {
+  it('accepts the passcode it was created from and rejects others', async () => {
+    const record = await createPasscodeRecord('2580');
+    expect(record.hash).not.toContain('2580');
+    expect(await checkPasscode('2580', record)).toBe(true);
+    expect(await checkPasscode('2581', record)).toBe(false);
+  });
+
+  it('salts each record', async () => {
+    const [a, b] = await Promise.all([createPasscodeRecord('2580'), createPasscodeRecord('2580')]);
+    expect(a.salt).not.toBe(b.salt);
+    expect(a.hash).not.toBe(b.hash);
+  });
+});
@@ -0,0 +1,44 @@
+import { decode, encode } from './audio-helpers';
+import { loadPreference, savePreference } from './preferences';
+
+/**
+ * Optional passcode for reopening the app. Only a salted PBKDF2 hash is kept;
+ * the lock hides the UI but does not encrypt what is stored on the device.
+ */
+
+export interface PasscodeRecord {
+  salt: string;
+  hash: string;
+  iterations: number;
+}
+
+export const MIN_PASSCODE_LENGTH = 4;
+// Lock again when the app comes back after being hidden this long.
+export const LOCK_AFTER_HIDDEN_MS = 5 * 60 * 1000;
+
+const PASSCODE_KEY = 'passcode';
+const ITERATIONS = 100_000;
+
+async function derive(code: string, salt: Uint8Array, iterations: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(code), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return encode(new Uint8Array(bits));
+}
+
+export async function createPasscodeRecord(code: string): Promise<PasscodeRecord> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { salt: encode(salt), hash: await derive(code, salt, ITERATIONS), iterations: ITERATIONS };
+}
+
+export async function checkPasscode(code: string, record: PasscodeRecord): Promise<boolean> {
+  return await derive(code, decode(record.salt), record.iterations) === record.hash;
+}
+
+export function loadPasscode(): PasscodeRecord | null {
+  return loadPreference<PasscodeRecord | null>(PASSCODE_KEY, null);
+}
+
+/** null removes the passcode. */
+export function savePasscode(record: PasscodeRecord | null) {
+  savePreference(PASSCODE_KEY, record);
+}
@@ -0,0 +1,62 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Phrasebook, loadPhrasebook, translateOffline } from './phrasebook';
+
+const PHRASEBOOK: Phrasebook = {
+  entries: [
+    { en: 'thank you', fil: 'salamat' },
+    { en: 'thank you very much', fil: 'maraming salamat' },
+    { en: 'where', fil: 'saan' },
+    { en: 'hospital', fil: 'ospital' },
+    { en: 'water', fil: 'tubig' },
+  ],
+  stopwords: { en: ['the', 'is'], fil: ['ang', 'ba', 'po'] },
+};
+
+describe('translateOffline', () => {
+  it('prefers the longest phrase that matches', () => {
+    expect(translateOffline('Thank you very much!', PHRASEBOOK)).toEqual({ text: 'Maraming salamat', from: 'en', to: 'fil', coverage: 1 });
+  });
+
+  it('picks the direction the phrasebook covers best and drops stopwords', () => {
+    expect(translateOffline('Saan ang ospital po?', PHRASEBOOK)).toEqual({ text: 'Where hospital', from: 'fil', to: 'en', coverage: 1 });
+  });
+
+  it('passes unknown words through and reports partial coverage', () => {
+    expect(translateOffline('Where is the pharmacy', PHRASEBOOK)).toEqual({ text: 'Saan pharmacy', from: 'en', to: 'fil', coverage: 0.5 });
+  });
+
+  it('returns null when nothing in the input is known', () => {
+    expect(translateOffline('Kamusta', PHRASEBOOK)).toBeNull();
+    expect(translateOffline('  ?! ', PHRASEBOOK)).toBeNull();
+  });
+});
+
+describe('loadPhrasebook', () => {
+  const serve = (file: object | null) => vi.stubGlobal('fetch', vi.fn(async () => file
+    ? new Response(JSON.stringify(file), { status: 200 })
+    : Promise.reject(new TypeError('Failed to fetch'))));
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('seeds IndexedDB, reseeds only on a new version and falls back to it offline', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    serve({ version: 1, ...PHRASEBOOK });
+    const seeded = await loadPhrasebook();
+    expect(seeded.entries).toHaveLength(PHRASEBOOK.entries.length);
+    expect(seeded.stopwords).toEqual(PHRASEBOOK.stopwords);
+
+    // Same version: the stored copy is kept even if the file differs.
+    serve({ version: 1, entries: [{ en: 'yes', fil: 'oo' }], stopwords: { en: [], fil: [] } });
+    expect((await loadPhrasebook()).entries).toHaveLength(PHRASEBOOK.entries.length);
+
+    serve({ version: 2, entries: [{ en: 'yes', fil: 'oo' }], stopwords: { en: [], fil: [] } });
+    expect(await loadPhrasebook()).toEqual({ entries: [{ en: 'yes', fil: 'oo' }], stopwords: { en: [], fil: [] } });
+
+    serve(null);
+    expect((await loadPhrasebook()).entries).toEqual([{ en: 'yes', fil: 'oo' }]);
+  });
+});
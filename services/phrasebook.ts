@@ -0,0 +1,145 @@
+import { LanguagePair } from '../types';
+import { openDatabase, promisifyRequest, promisifyTransaction, getMeta, setMeta, STORES } from './db';
+
+export type PhrasebookLanguage = 'en' | 'fil';
+
+export interface PhrasebookEntry {
+  en: string;
+  fil: string;
+}
+
+export interface Phrasebook {
+  entries: PhrasebookEntry[];
+  stopwords: Record<PhrasebookLanguage, string[]>;
+}
+
+export interface OfflineTranslation {
+  text: string;
+  from: PhrasebookLanguage;
+  to: PhrasebookLanguage;
+  // Share of source words covered by a phrasebook match (0..1).
+  coverage: number;
+}
+
+interface PhrasebookFile extends Phrasebook {
+  version: number;
+}
+
+const PHRASEBOOK_URL = './phrasebook.json';
+const VERSION_KEY = 'phrasebookVersion';
+const STOPWORDS_KEY = 'phrasebookStopwords';
+
+/**
+ * Returns the phrasebook stored in IndexedDB, refreshing it from the bundled
+ * JSON (served from the service worker cache when offline) if a newer version
+ * is available.
+ */
+export async function loadPhrasebook(): Promise<Phrasebook> {
+  const db = await openDatabase();
+  const storedVersion = await getMeta<number>(VERSION_KEY);
+
+  try {
+    const res = await fetch(PHRASEBOOK_URL);
+    if (!res.ok) throw new Error(`Phrasebook request failed (${res.status})`);
+    const file: PhrasebookFile = await res.json();
+    if (file.version !== storedVersion) {
+      const tx = db.transaction(STORES.PHRASEBOOK, 'readwrite');
+      const store = tx.objectStore(STORES.PHRASEBOOK);
+      store.clear();
+      file.entries.forEach(entry => store.put(entry));
+      await promisifyTransaction(tx);
+      await setMeta(STOPWORDS_KEY, file.stopwords);
+      await setMeta(VERSION_KEY, file.version);
+    }
+  } catch (e) {
+    // No network and no cached copy: fall back to whatever was seeded before.
+    console.warn('Phrasebook refresh skipped:', e);
+  }
+
+  const store = db.transaction(STORES.PHRASEBOOK, 'readonly').objectStore(STORES.PHRASEBOOK);
+  const entries = await promisifyRequest<PhrasebookEntry[]>(store.getAll());
+  const stopwords = (await getMeta<Phrasebook['stopwords']>(STOPWORDS_KEY)) || { en: [], fil: [] };
+  return { entries, stopwords };
+}
+
+export function supportsPair(pair: LanguagePair): boolean {
+  const codes = [pair.source, pair.target];
+  return codes.includes('en') && codes.includes('fil');
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/[^\p{L}\p{N}'\s-]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+interface PhraseIndex {
+  map: Map<string, string>;
+  maxWords: number;
+}
+
+function buildIndex(entries: PhrasebookEntry[], from: PhrasebookLanguage, to: PhrasebookLanguage): PhraseIndex {
+  const map = new Map<string, string>();
+  let maxWords = 1;
+  for (const entry of entries) {
+    const key = tokenize(entry[from]).join(' ');
+    if (!key || map.has(key)) continue;
+    map.set(key, entry[to]);
+    maxWords = Math.max(maxWords, key.split(' ').length);
+  }
+  return { map, maxWords };
+}
+
+function translateWith(tokens: string[], index: PhraseIndex, stopwords: Set<string>) {
+  const out: string[] = [];
+  let matched = 0;
+  let counted = 0;
+  let i = 0;
+
+  while (i < tokens.length) {
+    let hit: string | undefined;
+    let len = Math.min(index.maxWords, tokens.length - i);
+    // Greedy longest match so "thank you very much" beats "thank you".
+    for (; len > 0; len--) {
+      hit = index.map.get(tokens.slice(i, i + len).join(' '));
+      if (hit !== undefined) break;
+    }
+    if (hit !== undefined) {
+      out.push(hit);
+      matched += len;
+      counted += len;
+      i += len;
+      continue;
+    }
+    if (!stopwords.has(tokens[i])) {
+      out.push(tokens[i]);
+      counted++;
+    }
+    i++;
+  }
+
+  return { text: out.join(' '), coverage: counted ? matched / counted : 0 };
+}
+
+/**
+ * Phrase-by-phrase English↔Filipino translation. The direction is picked by
+ * whichever side of the phrasebook covers more of the input; unknown words are
+ * passed through untouched so the reader can still see them.
+ */
+export function translateOffline(text: string, phrasebook: Phrasebook): OfflineTranslation | null {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) return null;
+
+  const toFil = translateWith(tokens, buildIndex(phrasebook.entries, 'en', 'fil'), new Set(phrasebook.stopwords.en));
+  const toEn = translateWith(tokens, buildIndex(phrasebook.entries, 'fil', 'en'), new Set(phrasebook.stopwords.fil));
+  const best = toEn.coverage > toFil.coverage
+    ? { ...toEn, from: 'fil' as const, to: 'en' as const }
+    : { ...toFil, from: 'en' as const, to: 'fil' as const };
+
+  if (best.coverage === 0) return null;
+  const sentence = best.text.charAt(0).toUpperCase() + best.text.slice(1);
+  return { text: sentence, from: best.from, to: best.to, coverage: best.coverage };
+}
@@ -0,0 +1,257 @@
+import { describe, it, expect } from 'vitest';
+import { PlayedClip, PlaybackState, createBargeInDetector, createPlaybackManager } from './playback';
+
+// Just enough of an AudioContext to follow what the manager schedules.
+class FakeSource {
+  buffer: { duration: number } | null = null;
+  playbackRate = { value: 1 };
+  onended: (() => void) | null = null;
+  startAt = -1;
+  stopped = false;
+  connect() {}
+  start(when: number) { this.startAt = when; }
+  stop() { this.stopped = true; }
+}
+
+class FakeContext {
+  currentTime = 0;
+  state: AudioContextState = 'running';
+  destination = {};
+  sources: FakeSource[] = [];
+  gain = { gain: { value: 1 }, connect() {} };
+  createGain() { return this.gain; }
+  createBufferSource() {
+    const source = new FakeSource();
+    this.sources.push(source);
+    return source;
+  }
+  createBuffer(_channels: number, frames: number, rate: number) {
+    const data = new Float32Array(frames);
+    return { duration: frames / rate, sampleRate: rate, getChannelData: () => data };
+  }
+  async suspend() { this.state = 'suspended'; }
+  async resume() { this.state = 'running'; }
+  // Ends every live source whose scheduled span is over by `time`.
+  advance(time: number) {
+    this.currentTime = time;
+    this.sources.filter(s => !s.stopped && s.startAt + s.buffer!.duration / s.playbackRate.value <= time + 1e-9)
+      .forEach(s => { s.stopped = true; s.onended?.(); });
+  }
+}
+
+const RATE = 1000;
+// One second of 16-bit mono PCM at RATE.
+const second = () => new Uint8Array(RATE * 2);
+
+function setup(options: { rate?: number } = {}) {
+  const ctx = new FakeContext();
+  const states: PlaybackState[] = [];
+  const played: PlayedClip[] = [];
+  // Wall clock in ms; runs alongside the context unless a test moves it on its own.
+  let wall = 0;
+  const playback = createPlaybackManager(() => ctx as unknown as AudioContext, {
+    ...options,
+    onStateChange: s => states.push(s),
+    onPlayed: clip => played.push(clip),
+    now: () => wall,
+  });
+  const advance = (time: number) => {
+    wall += (time - ctx.currentTime) * 1000;
+    ctx.advance(time);
+  };
+  const wait = (ms: number) => { wall += ms; };
+  return { ctx, states, played, advance, wait, playback };
+}
+
+// What was reported as heard, in seconds of source audio, at what speed and from when.
+const heard = (played: PlayedClip[]) => played.map(c => ({ seconds: c.samples.length / c.sampleRate, rate: c.rate, startedAt: c.startedAt }));
+
+describe('createPlaybackManager', () => {
+  it('plays chunks back to back and reports idle only once the queue drains', async () => {
+    const { ctx, states, playback } = setup();
+    await playback.enqueue(second(), RATE);
+    await playback.enqueue(second(), RATE);
+    expect(ctx.sources.map(s => s.startAt)).toEqual([0, 1]);
+    expect(states).toEqual(['playing']);
+
+    ctx.advance(1);
+    expect(playback.state()).toBe('playing');
+    ctx.advance(2);
+    expect(states).toEqual(['playing', 'idle']);
+  });
+
+  it('skips the rest of a turn until the next one starts', async () => {
+    const { ctx, playback } = setup();
+    await playback.enqueue(second(), RATE);
+    playback.skipTurn();
+    expect(ctx.sources[0].stopped).toBe(true);
+    expect(playback.state()).toBe('idle');
+
+    await playback.enqueue(second(), RATE);
+    expect(ctx.sources).toHaveLength(1);
+
+    playback.endTurn();
+    await playback.enqueue(second(), RATE);
+    expect(ctx.sources).toHaveLength(2);
+    expect(playback.state()).toBe('playing');
+  });
+
+  it('does not hold back later audio after a skipped replay', async () => {
+    const { ctx, playback } = setup();
+    await playback.play(second(), RATE);
+    playback.skipTurn();
+    expect(playback.state()).toBe('idle');
+
+    await playback.play(second(), RATE);
+    await playback.enqueue(second(), RATE);
+    expect(ctx.sources).toHaveLength(3);
+    expect(playback.state()).toBe('playing');
+  });
+
+  it('plays a replay asked for while a skipped live turn is still streaming in', async () => {
+    const { ctx, playback } = setup();
+    await playback.enqueue(second(), RATE);
+    playback.skipTurn();
+    await playback.play(second(), RATE);
+    await playback.enqueue(second(), RATE);
+    expect(ctx.sources).toHaveLength(2);
+    expect(playback.state()).toBe('playing');
+  });
+
+  it('drops a chunk that was still decoding when the turn was skipped or stopped', async () => {
+    const { ctx, playback } = setup();
+    const skipped = playback.enqueue(second(), RATE);
+    playback.skipTurn();
+    await skipped;
+    expect(ctx.sources).toHaveLength(0);
+    expect(playback.state()).toBe('idle');
+
+    playback.endTurn();
+    const stopped = playback.enqueue(second(), RATE);
+    playback.stop();
+    await stopped;
+    expect(ctx.sources).toHaveLength(0);
+
+    await playback.enqueue(second(), RATE);
+    expect(ctx.sources).toHaveLength(1);
+  });
+
+  it('pauses by suspending the context and resumes where it was', async () => {
+    const { ctx, states, playback } = setup();
+    await playback.enqueue(second(), RATE);
+    await playback.pause();
+    expect(ctx.state).toBe('suspended');
+    expect(playback.state()).toBe('paused');
+
+    await playback.resume();
+    expect(ctx.state).toBe('running');
+    expect(states).toEqual(['playing', 'paused', 'playing']);
+  });
+
+  it('does not leave the context suspended once a paused queue is cleared', async () => {
+    const { ctx, playback } = setup();
+    await playback.enqueue(second(), RATE);
+    await playback.pause();
+    playback.stop();
+    await Promise.resolve();
+    expect(ctx.state).toBe('running');
+    expect(playback.state()).toBe('idle');
+  });
+
+  it('mutes and sets the volume on the shared gain node', async () => {
+    const { ctx, playback } = setup();
+    playback.setVolume(0.4);
+    await playback.enqueue(second(), RATE);
+    expect(ctx.gain.gain.value).toBe(0.4);
+    playback.setMuted(true);
+    expect(ctx.gain.gain.value).toBe(0);
+    playback.setMuted(false);
+    expect(ctx.gain.gain.value).toBe(0.4);
+  });
+
+  it('applies a new rate to the playing chunk and reschedules the waiting ones', async () => {
+    const { ctx, playback } = setup();
+    await playback.enqueue(second(), RATE, 0.5);
+    await playback.enqueue(second(), RATE);
+    expect(ctx.sources[1].startAt).toBe(2);
+
+    ctx.advance(1);
+    playback.setRate(2);
+    // Half of the slow chunk is left: one second at 0.5×, half a second at 1×.
+    expect(ctx.sources[0].playbackRate.value).toBe(1);
+    expect(ctx.sources[1].stopped).toBe(true);
+    expect(ctx.sources[2].startAt).toBeCloseTo(1.5);
+    expect(ctx.sources[2].playbackRate.value).toBe(2);
+
+    await playback.enqueue(second(), RATE);
+    expect(ctx.sources[3].startAt).toBeCloseTo(2);
+  });
+  it('reports each chunk as played at the time it was scheduled to start', async () => {
+    const { played, advance, playback } = setup();
+    await playback.enqueue(second(), RATE);
+    await playback.enqueue(second(), RATE, 0.5);
+    expect(played).toEqual([]);
+
+    advance(1);
+    advance(3);
+    expect(heard(played)).toEqual([
+      { seconds: 1, rate: 1, startedAt: 0 },
+      { seconds: 1, rate: 0.5, startedAt: 1000 },
+    ]);
+  });
+
+  it('reports only the part of a chunk heard before a skip', async () => {
+    const { played, advance, playback } = setup();
+    await playback.enqueue(second(), RATE);
+    await playback.enqueue(second(), RATE);
+    advance(0.25);
+    playback.skipTurn();
+    expect(heard(played)).toEqual([{ seconds: 0.25, rate: 1, startedAt: 0 }]);
+  });
+
+  it('shifts what plays after a pause by how long it lasted', async () => {
+    const { played, advance, wait, playback } = setup();
+    await playback.enqueue(second(), RATE);
+    await playback.enqueue(second(), RATE);
+    advance(0.5);
+    await playback.pause();
+    wait(5000);
+    await playback.resume();
+    advance(2);
+    expect(heard(played)).toEqual([
+      { seconds: 0.5, rate: 1, startedAt: 0 },
+      { seconds: 0.5, rate: 1, startedAt: 5500 },
+      { seconds: 1, rate: 1, startedAt: 6000 },
+    ]);
+  });
+
+  it('reports the stretches of a chunk played at each speed', async () => {
+    const { played, advance, playback } = setup();
+    await playback.enqueue(second(), RATE);
+    advance(0.5);
+    playback.setRate(2);
+    advance(0.75);
+    expect(heard(played)).toEqual([
+      { seconds: 0.5, rate: 1, startedAt: 0 },
+      { seconds: 0.5, rate: 2, startedAt: 500 },
+    ]);
+  });
+});
+
+describe('createBargeInDetector', () => {
+  it('fires once per run of speech that is long enough', () => {
+    const detector = createBargeInDetector(300);
+    expect(detector.push(true, 0.128)).toBe(false);
+    expect(detector.push(true, 0.128)).toBe(false);
+    expect(detector.push(true, 0.128)).toBe(true);
+    expect(detector.push(true, 0.128)).toBe(false);
+  });
+
+  it('ignores short bursts broken up by silence', () => {
+    const detector = createBargeInDetector(300);
+    for (let i = 0; i < 5; i++) {
+      expect(detector.push(true, 0.2)).toBe(false);
+      expect(detector.push(false, 0.2)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,286 @@
+import { decodeAudioData } from './audio-helpers';
+
+export type PlaybackState = 'idle' | 'playing' | 'paused';
+
+// A stretch of queued speech as it was actually heard.
+export interface PlayedClip {
+  // Mono samples from the queued chunk, at `sampleRate`.
+  samples: Float32Array;
+  sampleRate: number;
+  // Speed they played at; 2 is twice as fast (and higher pitched).
+  rate: number;
+  // Wall-clock time, in ms, the first sample was heard.
+  startedAt: number;
+}
+
+export interface PlaybackManager {
+  // Queues a chunk of a live model turn right after whatever is already scheduled.
+  enqueue: (pcm: Uint8Array, sampleRate: number, rate?: number) => Promise<void>;
+  // Queues a whole clip, e.g. a replay or a typed reply; a skipped live turn doesn't hold it back.
+  play: (pcm: Uint8Array, sampleRate: number, rate?: number) => Promise<void>;
+  // Cuts the turn that is playing and drops the rest of it as it streams in.
+  skipTurn: () => void;
+  // Marks the end of a model turn; audio after it is played again.
+  endTurn: () => void;
+  // Clears everything, e.g. when the server interrupts or the session stops.
+  stop: () => void;
+  pause: () => Promise<void>;
+  resume: () => Promise<void>;
+  setVolume: (volume: number) => void;
+  setMuted: (muted: boolean) => void;
+  // Speed for everything queued, including audio already scheduled.
+  setRate: (rate: number) => void;
+  state: () => PlaybackState;
+}
+
+interface Scheduled {
+  ctx: AudioContext;
+  source: AudioBufferSourceNode;
+  buffer: AudioBuffer;
+  // Per-clip rate, e.g. a slow replay; multiplied by the manager's rate.
+  baseRate: number;
+  startAt: number;
+  endAt: number;
+  // Context time and buffer position (s) from which the clip hasn't been reported as played.
+  reportedAt: number;
+  reportedTo: number;
+}
+
+interface PlaybackOptions {
+  volume?: number;
+  rate?: number;
+  onStateChange?: (state: PlaybackState) => void;
+  // Called as speech finishes playing or is cut off, e.g. to record what was heard.
+  onPlayed?: (clip: PlayedClip) => void;
+  now?: () => number;
+}
+
+/**
+ * Owns model speech on the output context. Everything plays through one gain
+ * node, so volume and mute apply to audio that is already scheduled, and
+ * pausing suspends the context so queued chunks keep their place.
+ */
+export function createPlaybackManager(
+  getContext: () => AudioContext | null,
+  { volume = 1, rate = 1, onStateChange, onPlayed, now = Date.now }: PlaybackOptions = {},
+): PlaybackManager {
+  let queue: Scheduled[] = [];
+  let nextStartTime = 0;
+  let muted = false;
+  let paused = false;
+  // A live turn has chunks queued and more may stream in until endTurn().
+  let streaming = false;
+  let skipping = false;
+  // Bumped by every clear, so a chunk that was still decoding knows it was dropped.
+  let generation = 0;
+  let decoding = 0;
+  let output: { ctx: AudioContext, gain: GainNode } | null = null;
+  // Pairs a context time with the wall clock; context time stands still while paused.
+  let clock: { ctx: AudioContext, time: number, wall: number } | null = null;
+  let current: PlaybackState = 'idle';
+
+  const notify = () => {
+    const next: PlaybackState = queue.length === 0 ? 'idle' : paused ? 'paused' : 'playing';
+    if (next === current) return;
+    current = next;
+    onStateChange?.(next);
+  };
+
+  const applyGain = () => {
+    if (output) output.gain.gain.value = muted ? 0 : volume;
+  };
+
+  // The app closes and reopens its output context between sessions.
+  const gainFor = (ctx: AudioContext) => {
+    if (output?.ctx !== ctx) {
+      output = { ctx, gain: ctx.createGain() };
+      output.gain.connect(ctx.destination);
+      applyGain();
+    }
+    return output.gain;
+  };
+
+  const syncClock = (ctx: AudioContext) => {
+    clock = { ctx, time: ctx.currentTime, wall: now() };
+  };
+
+  const wallTime = (ctx: AudioContext, time: number) => {
+    if (clock?.ctx !== ctx) syncClock(ctx);
+    return clock!.wall + (time - clock!.time) * 1000;
+  };
+
+  // Passes on what was heard of `item` up to context time `until`.
+  const report = (item: Scheduled, until: number) => {
+    if (!onPlayed || until <= item.reportedAt) return;
+    const speed = item.source.playbackRate.value;
+    const from = item.reportedTo;
+    const to = Math.min(item.buffer.duration, from + (until - item.reportedAt) * speed);
+    const startedAt = wallTime(item.ctx, item.reportedAt);
+    item.reportedAt = until;
+    item.reportedTo = to;
+    const sampleRate = item.buffer.sampleRate;
+    const samples = item.buffer.getChannelData(0).slice(Math.round(from * sampleRate), Math.round(to * sampleRate));
+    if (samples.length > 0) onPlayed({ samples, sampleRate, rate: speed, startedAt });
+  };
+
+  const schedule = (ctx: AudioContext, buffer: AudioBuffer, baseRate: number, startAt: number): Scheduled => {
+    if (clock?.ctx !== ctx) syncClock(ctx);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = baseRate * rate;
+    source.connect(gainFor(ctx));
+    const endAt = startAt + buffer.duration / (baseRate * rate);
+    const item: Scheduled = { ctx, source, buffer, baseRate, startAt, endAt, reportedAt: startAt, reportedTo: 0 };
+    source.onended = () => {
+      report(item, item.endAt);
+      queue = queue.filter(q => q !== item);
+      notify();
+    };
+    source.start(startAt);
+    return item;
+  };
+
+  // A function, so the check after an await isn't narrowed away by the one before it.
+  const isOpen = (ctx: AudioContext) => ctx.state !== 'closed';
+
+  const silence = (item: Scheduled) => {
+    report(item, item.ctx.currentTime);
+    item.source.onended = null;
+    try { item.source.stop(); } catch (e) {}
+  };
+
+  const clear = () => {
+    generation++;
+    queue.forEach(silence);
+    queue = [];
+    nextStartTime = 0;
+    // Nothing is left to resume, so don't leave the context suspended for the next clip.
+    if (paused) {
+      paused = false;
+      const ctx = getContext();
+      if (ctx && ctx.state !== 'closed') ctx.resume().catch(() => {});
+    }
+    notify();
+  };
+
+  const add = async (pcm: Uint8Array, sampleRate: number, clipRate: number) => {
+    const ctx = getContext();
+    if (!ctx || !isOpen(ctx)) return;
+    const turn = generation;
+    decoding++;
+    let buffer: AudioBuffer;
+    try {
+      buffer = await decodeAudioData(pcm, ctx, sampleRate, 1);
+    } finally {
+      decoding--;
+    }
+    if (turn !== generation || !isOpen(ctx)) return;
+    nextStartTime = Math.max(nextStartTime, ctx.currentTime);
+    const item = schedule(ctx, buffer, clipRate, nextStartTime);
+    nextStartTime = item.endAt;
+    queue.push(item);
+    notify();
+  };
+
+  return {
+    async enqueue(pcm, sampleRate, clipRate = 1) {
+      if (skipping) return;
+      streaming = true;
+      await add(pcm, sampleRate, clipRate);
+    },
+    play: (pcm, sampleRate, clipRate = 1) => add(pcm, sampleRate, clipRate),
+    skipTurn() {
+      if (queue.length === 0 && decoding === 0) return;
+      // Only a live turn keeps streaming in; a skipped clip is simply gone.
+      skipping = streaming;
+      clear();
+    },
+    endTurn() {
+      streaming = false;
+      skipping = false;
+    },
+    stop() {
+      streaming = false;
+      skipping = false;
+      clear();
+    },
+    async pause() {
+      const ctx = getContext();
+      if (!ctx || ctx.state === 'closed' || queue.length === 0) return;
+      paused = true;
+      notify();
+      queue.forEach(item => report(item, ctx.currentTime));
+      await ctx.suspend();
+    },
+    async resume() {
+      const ctx = getContext();
+      paused = false;
+      notify();
+      if (!ctx || ctx.state === 'closed') return;
+      await ctx.resume();
+      syncClock(ctx);
+    },
+    setVolume(next) {
+      volume = Math.min(1, Math.max(0, next));
+      applyGain();
+    },
+    setMuted(next) {
+      muted = next;
+      applyGain();
+    },
+    setRate(next) {
+      if (next === rate) return;
+      const previous = rate;
+      rate = next;
+      const ctx = getContext();
+      if (!ctx || ctx.state === 'closed' || queue.length === 0) return;
+      // The chunk that is playing changes speed in place; the ones waiting
+      // behind it are rescheduled so they still follow on without a gap.
+      const now = ctx.currentTime;
+      let cursor = now;
+      queue = queue.map(item => {
+        if (item.startAt <= now) {
+          report(item, now);
+          item.source.playbackRate.value = item.baseRate * rate;
+          item.endAt = now + (item.endAt - now) * previous / rate;
+          cursor = Math.max(cursor, item.endAt);
+          return item;
+        }
+        silence(item);
+        const moved = schedule(ctx, item.buffer, item.baseRate, cursor);
+        cursor = moved.endAt;
+        return moved;
+      });
+      nextStartTime = cursor;
+    },
+    state: () => current,
+  };
+}
+
+export interface BargeInDetector {
+  // Feeds whether one mic chunk held speech; true once the user has talked long enough to cut in.
+  push: (speech: boolean, seconds: number) => boolean;
+  reset: () => void;
+}
+
+/**
+ * Requires a short run of continuous speech before cutting the model off, so
+ * a cough or the tail of its own voice leaking into the mic doesn't.
+ */
+export function createBargeInDetector(minSpeechMs = 300): BargeInDetector {
+  let speechMs = 0;
+  return {
+    push(speech, seconds) {
+      if (!speech) {
+        speechMs = 0;
+        return false;
+      }
+      const before = speechMs;
+      speechMs += seconds * 1000;
+      return before < minSpeechMs && speechMs >= minSpeechMs;
+    },
+    reset() {
+      speechMs = 0;
+    },
+  };
+}
@@ -0,0 +1,33 @@
+const PREFIX = 'salin.';
+
+/**
+ * Small JSON values kept in localStorage. Stored objects are merged over the
+ * fallback so fields added in later versions pick up their defaults.
+ */
+export function loadPreference<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(PREFIX + key);
+    if (stored === null) return fallback;
+    const value = JSON.parse(stored);
+    return fallback && typeof fallback === 'object' && !Array.isArray(fallback) ? { ...fallback, ...value } : value;
+  } catch {
+    return fallback;
+  }
+}
+
+export function savePreference<T>(key: string, value: T) {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (e) {
+    console.warn(`Could not save preference "${key}":`, e);
+  }
+}
+
+/** Removes every stored preference, e.g. when the user erases the app's data. */
+export function clearPreferences() {
+  try {
+    Object.keys(localStorage).filter(key => key.startsWith(PREFIX)).forEach(key => localStorage.removeItem(key));
+  } catch (e) {
+    console.warn('Could not clear preferences:', e);
+  }
+}
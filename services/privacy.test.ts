@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { AppMode, PracticeReport, PrivacySettings, TranscriptionEntry } from '../types';
+import { compileCustomPatterns, DEFAULT_PRIVACY_SETTINGS, redactEntries, redactPracticeReport, redactText, retentionCutoff } from './privacy';
+
+const settings = DEFAULT_PRIVACY_SETTINGS;
+const off: PrivacySettings = { ...DEFAULT_PRIVACY_SETTINGS, redact: false };
+const redact = (text: string, overrides: Partial<PrivacySettings> = {}) => redactText(text, { ...settings, ...overrides }).text;
+
+describe('redactText', () => {
+  it('masks Philippine mobile and landline numbers', () => {
+    expect(redact('Tawagan mo ako sa 0917 123 4567 o +63 917-123-4567.')).toBe('Tawagan mo ako sa [PHONE] o [PHONE].');
+    expect(redact('Office: (02) 8123 4567, Cebu 032 234 5678')).toBe('Office: [PHONE], Cebu [PHONE]');
+  });
+
+  it('masks emails and government ID numbers', () => {
+    expect(redact('Email juan.dc+clinic@example.com.ph please')).toBe('Email [EMAIL] please');
+    expect(redact('PhilSys 1234-5678-9012-3456, PhilHealth 12-345678901-2')).toBe('PhilSys [ID], PhilHealth [ID]');
+    expect(redact('SSS 34-1234567-8 and TIN 123-456-789-000')).toBe('SSS [ID] and TIN [ID]');
+    expect(redact('Passport P1234567A, licence N01-23-456789')).toBe('Passport [ID], licence [ID]');
+  });
+
+  it('masks street addresses, blocks and barangays', () => {
+    expect(redact('Nakatira ako sa 123 Rizal Ave, Brgy. San Isidro')).toBe('Nakatira ako sa [ADDRESS], [ADDRESS]');
+    expect(redact('Blk 5 Lot 12 Phase 2, Purok 3, Quezon City')).toBe('[ADDRESS], Quezon City');
+  });
+
+  it('masks names only after a cue and keeps the cue', () => {
+    expect(redact('Si Maria Santos ang pasyente, kasama ni Aling Nena.')).toBe('Si [NAME] ang pasyente, kasama ni [NAME].');
+    expect(redact("Hi, my name is Jose Rizal and I'm Dr. Cruz's patient")).toBe("Hi, my name is [NAME] and I'm Dr. [NAME]'s patient");
+    expect(redact('Masakit ang ulo ko since Monday.')).toBe('Masakit ang ulo ko since Monday.');
+  });
+
+  it('leaves ordinary numbers and disabled categories alone', () => {
+    expect(redact('Mga 3 araw na, 38.5 ang lagnat, 500 pesos')).toBe('Mga 3 araw na, 38.5 ang lagnat, 500 pesos');
+    const result = redactText('Call 09171234567 or email a@b.co', { ...settings, categories: ['email'] });
+    expect(result).toEqual({ text: 'Call 09171234567 or email [EMAIL]', found: ['email'] });
+  });
+
+  it('applies custom text and regex patterns', () => {
+    expect(redact('Patient MRN-00412 from Ward B', { customPatterns: ['/MRN-\\d+/', 'ward b'] }))
+      .toBe('Patient [REDACTED] from [REDACTED]');
+  });
+});
+
+describe('compileCustomPatterns', () => {
+  it('skips blank lines and invalid expressions', () => {
+    const patterns = compileCustomPatterns(['', '  ', '/(unclosed/', '/abc/i', 'a.b']);
+    expect(patterns.map(p => [p.source, p.flags])).toEqual([['abc', 'gi'], ['a\\.b', 'gi']]);
+  });
+
+  it('skips expressions that could take exponential time', () => {
+    const risky = ['/(a+)+$/', '/(\\w*\\s?)*x/', '/((ab)*c)+/', '/(x|y{2,})*/', `/${'a'.repeat(101)}/`];
+    expect(compileCustomPatterns(risky)).toEqual([]);
+    const safe = compileCustomPatterns(['/(ab)+/', '/MRN-\\d+/', '/[(+)]+/', '/(\\+63)?9\\d{9}/', '/(a{2})+/']);
+    expect(safe.map(p => p.source)).toEqual(['(ab)+', 'MRN-\\d+', '[(+)]+', '(\\+63)?9\\d{9}', '(a{2})+']);
+  });
+});
+
+describe('redactEntries', () => {
+  const entries: TranscriptionEntry[] = [
+    { id: '1', speaker: 'user', text: 'Ako si Ana, 0918 765 4321', timestamp: new Date(0), mode: AppMode.TRANSLATE },
+    { id: '2', speaker: 'model', text: 'Salamat.', timestamp: new Date(0), mode: AppMode.TRANSLATE },
+  ];
+
+  it('returns the entries untouched when redaction is off', () => {
+    expect(redactEntries(entries, off)).toBe(entries);
+  });
+
+  it('copies only the entries that change', () => {
+    const redacted = redactEntries(entries, settings);
+    expect(redacted[0]).toEqual({ ...entries[0], text: 'Ako si [NAME], [PHONE]' });
+    expect(redacted[1]).toBe(entries[1]);
+    expect(entries[0].text).toBe('Ako si Ana, 0918 765 4321');
+  });
+
+  it('swaps speaker names for party labels when names are masked', () => {
+    const named: TranscriptionEntry[] = [
+      { ...entries[1], participant: { id: 'A', name: 'Dr. Reyes' } },
+      { ...entries[1], participant: { id: 'B', name: 'Party B' } },
+    ];
+    const redacted = redactEntries(named, settings);
+    expect(redacted[0]).toEqual({ ...named[0], participant: { id: 'A', name: 'Party A' } });
+    expect(redacted[1]).toBe(named[1]);
+    expect(redactEntries(named, { ...settings, categories: ['phone'] })).toEqual(named);
+  });
+});
+
+describe('redactPracticeReport', () => {
+  const report: PracticeReport = {
+    id: 'r1', scenarioId: 'clinic', scenarioTitle: 'At the clinic', language: 'fil', createdAt: new Date(), learnerTurns: 2,
+    summary: 'You gave your number, 0917 123 4567, clearly.',
+    goals: ['Give your name'], goalsMet: ['Give your name'],
+    mistakes: [{ said: 'Ako si Maria Santos', better: 'Ako po si Maria Santos', explanation: 'Add "po" for respect.' }],
+    suggestions: ['Ang email ko ay maria@example.com'],
+    newWords: [{ word: 'pasyente', meaning: 'patient' }],
+  };
+
+  it('masks the quotes and free text the coach wrote', () => {
+    const redacted = redactPracticeReport(report, settings);
+    expect(redacted.summary).toBe('You gave your number, [PHONE], clearly.');
+    expect(redacted.mistakes).toEqual([{ said: 'Ako si [NAME]', better: 'Ako po si [NAME]', explanation: 'Add "po" for respect.' }]);
+    expect(redacted.suggestions).toEqual(['Ang email ko ay [EMAIL]']);
+    expect(redacted.goals).toBe(report.goals);
+  });
+
+  it('returns the report untouched when redaction is off', () => {
+    expect(redactPracticeReport(report, off)).toBe(report);
+  });
+});
+
+describe('retentionCutoff', () => {
+  it('is null when history is kept and N days back otherwise', () => {
+    expect(retentionCutoff(DEFAULT_PRIVACY_SETTINGS)).toBeNull();
+    const now = Date.UTC(2024, 5, 10);
+    expect(retentionCutoff({ ...settings, retentionDays: 7 }, now)).toEqual(new Date(Date.UTC(2024, 5, 3)));
+  });
+});
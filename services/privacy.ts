@@ -0,0 +1,198 @@
+import { PiiCategory, PracticeReport, PrivacySettings, TranscriptionEntry } from '../types';
+import { DEFAULT_PARTY_NAMES } from './participants';
+import { loadPreference, savePreference } from './preferences';
+
+/**
+ * Masks personal details in transcript text before it is written to history
+ * or exported. Detection is pattern based and tuned to Philippine formats, so
+ * it errs towards catching numbers and addresses; names are only caught after
+ * a cue such as "si", "Mrs." or "my name is".
+ */
+
+export const PII_CATEGORIES: { category: PiiCategory, label: string, mask: string }[] = [
+  { category: 'name', label: 'Names', mask: '[NAME]' },
+  { category: 'phone', label: 'Phone numbers', mask: '[PHONE]' },
+  { category: 'email', label: 'Email addresses', mask: '[EMAIL]' },
+  { category: 'address', label: 'Addresses', mask: '[ADDRESS]' },
+  { category: 'id', label: 'ID numbers', mask: '[ID]' },
+];
+
+const CUSTOM_MASK = '[REDACTED]';
+
+export const RETENTION_OPTIONS: { days: number, label: string }[] = [
+  { days: 0, label: 'Keep until deleted' },
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+];
+
+// Masking is on unless the user turns it off.
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  redact: true,
+  categories: PII_CATEGORIES.map(c => c.category),
+  customPatterns: [],
+  retentionDays: 0,
+};
+
+const PRIVACY_KEY = 'privacy';
+
+export function loadPrivacySettings(): PrivacySettings {
+  return loadPreference(PRIVACY_KEY, DEFAULT_PRIVACY_SETTINGS);
+}
+
+export function savePrivacySettings(settings: PrivacySettings) {
+  savePreference(PRIVACY_KEY, settings);
+}
+
+// Each pattern masks its last capture group and keeps the one before it, so
+// context like "si" or the character before a number survives.
+interface PiiPattern {
+  category: PiiCategory;
+  regex: RegExp;
+}
+
+const HONORIFICS = 'Mr|Mrs|Ms|Dr|Dra|Atty|Engr|Sr|Sra|Gng|Bb|G';
+// An honorific after "I'm" starts the name rather than being part of it.
+const NAME = `(?!(?:${HONORIFICS})\\b)[A-ZÑ][a-zñ-]+(?:\\s+[A-ZÑ][a-zñ-]+){0,2}`;
+const NAME_CUES = [
+  // Honorifics and Filipino terms of address.
+  `(?:${HONORIFICS})\\.?`,
+  'Aling|Mang|Lola|Lolo|Tita|Tito|Tiya|Tiyo|Ate|Kuya|Doc|Doktora?|Nurse',
+  // Personal articles: "si Maria", "kay Jose".
+  '[Ss]i|[Nn]i|[Kk]ay|[Ss]ina|[Nn]ina|[Kk]ina',
+  // Introductions.
+  "[Mm]y name is|I'?m|I am|[Aa]ko si|(?:[Aa]ng )?[Pp]angalan ko(?: ay)?",
+].join('|');
+// Not preceded by a digit or "+", so numbers inside longer numbers are left alone.
+const START = '(^|[^\\d+])';
+const STREET_TYPES = 'St\\.?|Street|Ave\\.?|Avenue|Rd\\.?|Road|Blvd\\.?|Boulevard|Drive|Highway|Hwy\\.?|Extension|Ext\\.?';
+const UNIT_WORDS = 'Blk|Block|Lot|Phase|Ph|Unit|Bldg|Purok|Sitio';
+
+const PATTERNS: PiiPattern[] = [
+  { category: 'email', regex: /()([\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g },
+  // PhilSys, UMID/Pag-IBIG, PhilHealth, SSS and TIN numbers.
+  { category: 'id', regex: new RegExp(`${START}(\\d{4}[\\s-]\\d{4}[\\s-]\\d{4}[\\s-]\\d{4}|\\d{4}-\\d{4}-\\d{4}|\\d{2}-\\d{9}-\\d|\\d{2}-\\d{7}-\\d|\\d{3}-\\d{3}-\\d{3}(?:-\\d{3,5})?)(?!\\d)`, 'g') },
+  // Passports and driver's licences.
+  { category: 'id', regex: /(\b)([A-Z]{1,2}\d{7}[A-Z]?|[A-Z]\d{2}-\d{2}-\d{6})\b/g },
+  // Mobile numbers: 0917 123 4567, +63 917-123-4567.
+  { category: 'phone', regex: new RegExp(`${START}((?:\\+?63[\\s-]?|0)9\\d{2}[\\s-]?\\d{3}[\\s-]?\\d{4})(?!\\d)`, 'g') },
+  // Landlines: (02) 8123 4567, 032 234 5678.
+  { category: 'phone', regex: new RegExp(`${START}((?:\\(0?2\\)|\\+?63[\\s-]?2|02)[\\s-]?\\d{4}[\\s-]?\\d{4}|(?:\\(0\\d{2}\\)|0\\d{2})[\\s-]?\\d{3}[\\s-]?\\d{4})(?!\\d)`, 'g') },
+  { category: 'address', regex: new RegExp(`(\\b)((?:${UNIT_WORDS})\\.?\\s*\\d+[A-Z]?(?:,?\\s*(?:${UNIT_WORDS})\\.?\\s*\\d+[A-Z]?)*)`, 'g') },
+  { category: 'address', regex: new RegExp(`(\\b)(\\d{1,5}[A-Z]?\\s+(?:[A-ZÑ][\\wñ.'-]*\\s+){1,4}(?:${STREET_TYPES}))(?![\\w])`, 'g') },
+  { category: 'address', regex: /(\b)((?:Brgy|Bgy|Barangay)\.?\s+(?:\d+|[A-ZÑ][\wñ'-]*(?:\s+[A-ZÑ][\wñ'-]*){0,2}))/g },
+  { category: 'name', regex: new RegExp(`(\\b(?:${NAME_CUES})\\s+)(${NAME})`, 'g') },
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const MAX_CUSTOM_PATTERN_LENGTH = 100;
+const REPEAT = /^(?:[+*]|\{\d+,)/;
+
+// A repeated group with a repeat inside, like (a+)+, can take exponential time
+// on text that nearly matches, and redaction runs on every saved line.
+function hasNestedRepeat(source: string): boolean {
+  // Escapes and character classes can't hold a group or a repeat.
+  const plain = source.replace(/\\./g, 'x').replace(/\[[^\]]*\]/g, 'x');
+  // For each open group, whether something inside it repeats.
+  const groups: boolean[] = [];
+  for (let i = 0; i < plain.length; i++) {
+    if (plain[i] === '(') {
+      groups.push(false);
+    } else if (plain[i] === ')') {
+      const inner = groups.pop();
+      const repeated = REPEAT.test(plain.slice(i + 1));
+      if (inner && repeated) return true;
+      if ((inner || repeated) && groups.length) groups[groups.length - 1] = true;
+    } else if (groups.length && REPEAT.test(plain.slice(i))) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Custom entries are plain text matched anywhere regardless of case, or a
+ * regular expression written as /pattern/flags. Invalid expressions are
+ * skipped, as are long ones and ones that repeat a repeat, which could hang
+ * the page.
+ */
+export function compileCustomPatterns(patterns: string[]): RegExp[] {
+  return patterns.flatMap(raw => {
+    const pattern = raw.trim();
+    if (!pattern) return [];
+    const literal = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    if (literal && (literal[1].length > MAX_CUSTOM_PATTERN_LENGTH || hasNestedRepeat(literal[1]))) return [];
+    try {
+      if (!literal) return [new RegExp(escapeRegExp(pattern), 'gi')];
+      const flags = literal[2].includes('g') ? literal[2] : `${literal[2]}g`;
+      return [new RegExp(literal[1], flags)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export interface RedactionResult {
+  text: string;
+  // Categories that were masked, plus 'custom' for the user's own patterns.
+  found: (PiiCategory | 'custom')[];
+}
+
+export function redactText(text: string, settings: PrivacySettings): RedactionResult {
+  const found = new Set<PiiCategory | 'custom'>();
+  let result = text;
+  for (const { category, regex } of PATTERNS) {
+    if (!settings.categories.includes(category)) continue;
+    const mask = PII_CATEGORIES.find(c => c.category === category)!.mask;
+    result = result.replace(regex, (_, keep: string) => {
+      found.add(category);
+      return keep + mask;
+    });
+  }
+  for (const regex of compileCustomPatterns(settings.customPatterns)) {
+    result = result.replace(regex, (match) => {
+      if (!match) return match;
+      found.add('custom');
+      return CUSTOM_MASK;
+    });
+  }
+  return { text: result, found: [...found] };
+}
+
+/**
+ * The entries as they may be stored or exported; unchanged when redaction is
+ * off. Speaker names end up in caption labels, so they fall back to "Party A"
+ * and "Party B" when names are masked.
+ */
+export function redactEntries(entries: TranscriptionEntry[], settings: PrivacySettings): TranscriptionEntry[] {
+  if (!settings.redact) return entries;
+  const maskNames = settings.categories.includes('name');
+  return entries.map(entry => {
+    const { text } = redactText(entry.text, settings);
+    const { participant } = entry;
+    const renamed = maskNames && participant && participant.name !== DEFAULT_PARTY_NAMES[participant.id];
+    if (text === entry.text && !renamed) return entry;
+    return renamed ? { ...entry, text, participant: { ...participant, name: DEFAULT_PARTY_NAMES[participant.id] } } : { ...entry, text };
+  });
+}
+
+/** A practice report as it may be stored; the coach quotes the learner, so its free text is masked too. */
+export function redactPracticeReport(report: PracticeReport, settings: PrivacySettings): PracticeReport {
+  if (!settings.redact) return report;
+  const mask = (text: string) => redactText(text, settings).text;
+  return {
+    ...report,
+    summary: mask(report.summary),
+    mistakes: report.mistakes.map(m => ({ said: mask(m.said), better: mask(m.better), explanation: mask(m.explanation) })),
+    suggestions: report.suggestions.map(mask),
+    newWords: report.newWords.map(w => ({ word: mask(w.word), meaning: mask(w.meaning) })),
+  };
+}
+
+/** Oldest time still kept under the policy, or null when history never expires. */
+export function retentionCutoff(settings: PrivacySettings, now = Date.now()): Date | null {
+  if (!settings.retentionDays) return null;
+  return new Date(now - settings.retentionDays * 24 * 60 * 60 * 1000);
+}
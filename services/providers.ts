@@ -0,0 +1,14 @@
+import { TranslationProvider } from './translation-provider';
+import { createGeminiLiveProvider } from './gemini-live-provider';
+import { createMockProvider } from './mock-provider';
+import { CredentialProvider } from './credentials';
+
+/**
+ * Picks the live backend. `?provider=mock` in the URL (or TRANSLATION_PROVIDER=mock
+ * in the environment) runs the scripted provider with no credential or network.
+ */
+export function getTranslationProvider(credentials: CredentialProvider): TranslationProvider {
+  const requested = new URLSearchParams(window.location.search).get('provider') || process.env.TRANSLATION_PROVIDER;
+  if (requested === 'mock') return createMockProvider();
+  return createGeminiLiveProvider({ credentials });
+}
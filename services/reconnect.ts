@@ -0,0 +1,63 @@
+import { AudioChunk } from './translation-provider';
+import { pcmChunkSeconds } from './audio-helpers';
+
+export interface BackoffOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxAttempts: number;
+  // Fraction of the delay randomised so many clients don't retry in lockstep.
+  jitter: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  maxAttempts: 6,
+  jitter: 0.2,
+};
+
+/** Delay before retry number `attempt` (0-based): base · 2^attempt, capped and jittered. */
+export function getBackoffDelay(attempt: number, options: BackoffOptions = DEFAULT_BACKOFF, random = Math.random): number {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt));
+  const spread = exponential * options.jitter;
+  return Math.round(exponential - spread + random() * spread * 2);
+}
+
+export interface AudioBacklog {
+  push: (chunk: AudioChunk) => void;
+  // Returns every buffered chunk in capture order and empties the backlog.
+  drain: () => AudioChunk[];
+  clear: () => void;
+  seconds: () => number;
+}
+
+/**
+ * Holds microphone audio captured while the session is down. Once more than
+ * `maxSeconds` is buffered the oldest chunks are dropped, so a long outage
+ * replays only the most recent speech.
+ */
+export function createAudioBacklog(maxSeconds = 30): AudioBacklog {
+  let chunks: AudioChunk[] = [];
+  let total = 0;
+
+  return {
+    push(chunk) {
+      chunks.push(chunk);
+      total += pcmChunkSeconds(chunk);
+      while (total > maxSeconds && chunks.length > 1) {
+        total -= pcmChunkSeconds(chunks.shift()!);
+      }
+    },
+    drain() {
+      const drained = chunks;
+      chunks = [];
+      total = 0;
+      return drained;
+    },
+    clear() {
+      chunks = [];
+      total = 0;
+    },
+    seconds: () => total,
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { AppMode, LanguagePair, TranscriptionEntry } from '../types';
+import { BUILT_IN_SCENARIOS, buildPracticeTranscript, buildScenarioInstruction, createScenario, parseFeedback, requestPracticeFeedback } from './scenarios';
+import { TranslationProvider } from './translation-provider';
+
+const pair: LanguagePair = { source: 'en', target: 'fil', autoDetect: true };
+const market = BUILT_IN_SCENARIOS.find(s => s.id === 'builtin-market')!;
+
+const entry = (speaker: 'user' | 'model', text: string): TranscriptionEntry => ({
+  id: Math.random().toString(36).substr(2, 9), speaker, text, timestamp: new Date(0), mode: AppMode.CHAT,
+});
+
+describe('buildScenarioInstruction', () => {
+  it('plays the persona in the practised language with hints in the other one', () => {
+    const instruction = buildScenarioInstruction(market, pair);
+    expect(instruction).toContain(market.persona);
+    expect(instruction).toContain('Speak Filipino only');
+    expect(instruction).toContain('magkano');
+    expect(instruction).toContain('brief hint in English');
+  });
+
+  it('leaves out goals and vocabulary a custom scenario does not have', () => {
+    const bare = createScenario({ title: ' ', persona: 'A bus driver', goals: ['', ' '], vocabulary: [], language: 'fil' });
+    expect(bare.title).toBe('Untitled scenario');
+    expect(bare.goals).toEqual([]);
+    expect(buildScenarioInstruction(bare, pair)).not.toMatch(/Give the learner chances|Work these words/);
+  });
+});
+
+describe('buildPracticeTranscript', () => {
+  it('labels the learner and their partner', () => {
+    expect(buildPracticeTranscript([entry('user', 'Magkano po?'), entry('model', 'Singkwenta.')]))
+      .toBe('Learner: Magkano po?\nPartner: Singkwenta.');
+  });
+});
+
+describe('parseFeedback', () => {
+  it('reads fenced JSON and keeps only goals the scenario has', () => {
+    const reply = '```json\n' + JSON.stringify({
+      summary: 'Good start.',
+      goalsMet: ['bargain for a lower price', 'Sing a song'],
+      mistakes: [{ said: 'Magkano ito kilo?', better: 'Magkano po ang isang kilo?', explanation: 'Add "po" and "isang".' }, { said: 'x' }],
+      suggestions: ['Pwede po bang tumawad?', 3],
+      newWords: [{ word: 'sukli', meaning: 'change' }, { meaning: 'no word' }],
+    }) + '\n```';
+    const feedback = parseFeedback(reply, market.goals);
+    expect(feedback.summary).toBe('Good start.');
+    expect(feedback.goalsMet).toEqual(['Bargain for a lower price']);
+    expect(feedback.mistakes).toHaveLength(1);
+    expect(feedback.suggestions).toEqual(['Pwede po bang tumawad?']);
+    expect(feedback.newWords).toEqual([{ word: 'sukli', meaning: 'change' }]);
+  });
+
+  it('falls back to the plain reply as the summary', () => {
+    expect(parseFeedback(' You did well overall. ')).toEqual({
+      summary: 'You did well overall.', goalsMet: [], mistakes: [], suggestions: [], newWords: [],
+    });
+  });
+});
+
+describe('requestPracticeFeedback', () => {
+  it('sends the transcript to the coach and builds a report', async () => {
+    let request: any;
+    const provider = {
+      translateText: async (r: any) => { request = r; return { text: '{"summary": "Nice."}' }; },
+    } as unknown as TranslationProvider;
+    const entries = [entry('user', 'Magkano po?'), entry('model', 'Singkwenta.'), entry('user', 'Salamat po.')];
+    const report = await requestPracticeFeedback(provider, market, entries, 'Kore', 'session-1');
+    expect(request.speak).toBe(false);
+    expect(request.text).toContain('Learner: Salamat po.');
+    expect(report).toMatchObject({ sessionId: 'session-1', scenarioId: market.id, learnerTurns: 2, summary: 'Nice.', goals: market.goals });
+  });
+});
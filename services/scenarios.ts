@@ -0,0 +1,191 @@
+import { LanguagePair, PracticeReport, Scenario, TranscriptionEntry } from '../types';
+import { openDatabase, promisifyRequest, promisifyTransaction, STORES } from './db';
+import { getLanguage } from './languages';
+import { TranslationProvider } from './translation-provider';
+
+/**
+ * Role-play practice for CHAT mode. The model plays a persona with goals and
+ * a vocabulary list for the learner to work through; when the session ends
+ * a coach pass over the transcript produces a feedback report, kept locally.
+ */
+
+const builtIn = (id: string, title: string, persona: string, goals: string[], vocabulary: string[]): Scenario => ({
+  id, title, persona, goals, vocabulary, language: 'fil', builtIn: true, updatedAt: new Date(0),
+});
+
+export const BUILT_IN_SCENARIOS: Scenario[] = [
+  builtIn(
+    'builtin-market',
+    'Market vendor',
+    'Aling Nena, a friendly but shrewd vegetable and fish vendor at a busy wet market (palengke). She quotes prices per kilo and expects some haggling.',
+    ['Ask the price of two items', 'Bargain for a lower price', 'Ask for a specific weight', 'Pay and check the change'],
+    ['magkano', 'kilo', 'tawad', 'mahal', 'mura', 'sukli', 'isang kilo', 'pakidagdagan'],
+  ),
+  builtIn(
+    'builtin-intake',
+    "Doctor's intake",
+    'A patient arriving at a barangay health center who speaks only Filipino. The learner is the staff member doing intake; the patient answers only what is asked.',
+    ['Ask for the patient\'s name and age', 'Find out the main complaint and when it started', 'Ask about allergies and current medicine', 'Explain what happens next'],
+    ['masakit', 'lagnat', 'ubo', 'gaano katagal', 'may allergy po ba kayo', 'gamot', 'hilo', 'hintayin po ninyo'],
+  ),
+  builtIn(
+    'builtin-jeepney',
+    'Jeepney directions',
+    'A jeepney driver and a helpful passenger at a terminal. They use everyday street Filipino and local landmarks.',
+    ['Ask which jeepney goes to a landmark', 'Ask how much the fare is', 'Ask where to get off', 'Say "para" to stop at the right place'],
+    ['saan', 'papunta', 'sasakay', 'bababa', 'para po', 'bayad po', 'sukli', 'kanto'],
+  ),
+];
+
+export async function listScenarios(): Promise<Scenario[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.SCENARIOS, 'readonly').objectStore(STORES.SCENARIOS);
+  const custom = await promisifyRequest<Scenario[]>(store.getAll());
+  return [...BUILT_IN_SCENARIOS, ...custom.sort((a, b) => a.title.localeCompare(b.title))];
+}
+
+export async function saveScenario(scenario: Scenario): Promise<Scenario> {
+  const saved = { ...scenario, updatedAt: new Date() };
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.SCENARIOS, 'readwrite');
+  tx.objectStore(STORES.SCENARIOS).put(saved);
+  await promisifyTransaction(tx);
+  return saved;
+}
+
+export async function deleteScenario(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.SCENARIOS, 'readwrite');
+  tx.objectStore(STORES.SCENARIOS).delete(id);
+  await promisifyTransaction(tx);
+}
+
+const cleanList = (items: string[]) => items.map(i => i.trim()).filter(Boolean);
+
+export function createScenario(fields: Pick<Scenario, 'title' | 'persona' | 'goals' | 'vocabulary' | 'language'>): Scenario {
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    title: fields.title.trim() || 'Untitled scenario',
+    persona: fields.persona.trim(),
+    goals: cleanList(fields.goals),
+    vocabulary: cleanList(fields.vocabulary),
+    language: fields.language,
+    updatedAt: new Date(),
+  };
+}
+
+// Hints go in the learner's other language from the pair, or English when the pair doesn't include the practised one.
+function helperLanguage(scenario: Scenario, pair: LanguagePair): string {
+  if (pair.source === scenario.language) return pair.target;
+  if (pair.target === scenario.language) return pair.source;
+  return 'en';
+}
+
+/** System instruction that replaces the plain chat prompt while a scenario is picked. */
+export function buildScenarioInstruction(scenario: Scenario, pair: LanguagePair): string {
+  const language = getLanguage(scenario.language).name;
+  const helper = getLanguage(helperLanguage(scenario, pair)).name;
+  const parts = [
+    `You are helping a learner practise ${language} through role-play. Stay in character as: ${scenario.persona}`,
+    `Speak ${language} only, in short natural turns, and let the learner lead.`,
+    scenario.goals.length ? `Give the learner chances to: ${scenario.goals.join('; ')}.` : '',
+    scenario.vocabulary.length ? `Work these words into the conversation where they fit: ${scenario.vocabulary.join(', ')}.` : '',
+    `Don't correct mistakes during the role-play. If the learner is stuck or speaks ${helper}, give a brief hint in ${helper}, then carry on in ${language}.`,
+  ];
+  return parts.filter(Boolean).join(' ');
+}
+
+/** The learner's side of a practice conversation, as the coach sees it. */
+export function buildPracticeTranscript(entries: TranscriptionEntry[]): string {
+  return entries.map(e => `${e.speaker === 'user' ? 'Learner' : 'Partner'}: ${e.text}`).join('\n');
+}
+
+export function buildFeedbackInstruction(scenario: Scenario): string {
+  const language = getLanguage(scenario.language).name;
+  return [
+    `You are a ${language} language coach reviewing a role-play: ${scenario.title}.`,
+    'Only assess the Learner lines. Reply with JSON only, no prose, in this shape:',
+    '{"summary": string, "goalsMet": string[], "mistakes": [{"said": string, "better": string, "explanation": string}], "suggestions": string[], "newWords": [{"word": string, "meaning": string}]}.',
+    scenario.goals.length ? `goalsMet lists which of these goals the learner achieved, copied exactly: ${JSON.stringify(scenario.goals)}.` : 'goalsMet is an empty list.',
+    'Explanations and meanings are in English. suggestions are natural phrasings the learner could have used. newWords are useful words from the conversation the learner did not use.',
+  ].join(' ');
+}
+
+export type PracticeFeedback = Pick<PracticeReport, 'summary' | 'goalsMet' | 'mistakes' | 'suggestions' | 'newWords'>;
+
+const strings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && !!v.trim()).map(v => v.trim()) : [];
+
+const records = (value: unknown): Record<string, unknown>[] =>
+  Array.isArray(value) ? value.filter((v): v is Record<string, unknown> => !!v && typeof v === 'object') : [];
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+/**
+ * Reads the coach's reply. Models sometimes wrap JSON in code fences or add a
+ * sentence around it; anything that still isn't JSON becomes the summary.
+ */
+export function parseFeedback(reply: string, goals: string[] = []): PracticeFeedback {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  let data: any = null;
+  if (start !== -1 && end > start) {
+    try { data = JSON.parse(reply.slice(start, end + 1)); } catch (e) {}
+  }
+  if (!data || typeof data !== 'object') {
+    return { summary: reply.trim(), goalsMet: [], mistakes: [], suggestions: [], newWords: [] };
+  }
+  const known = new Map(goals.map(g => [g.toLowerCase(), g]));
+  return {
+    summary: text(data.summary),
+    goalsMet: strings(data.goalsMet).map(g => known.get(g.toLowerCase())).filter((g): g is string => !!g),
+    mistakes: records(data.mistakes)
+      .map(m => ({ said: text(m.said), better: text(m.better), explanation: text(m.explanation) }))
+      .filter(m => m.said && m.better),
+    suggestions: strings(data.suggestions),
+    newWords: records(data.newWords)
+      .map(w => ({ word: text(w.word), meaning: text(w.meaning) }))
+      .filter(w => w.word),
+  };
+}
+
+/** Asks the provider to coach the learner's turns and returns the report, unsaved. */
+export async function requestPracticeFeedback(
+  provider: TranslationProvider,
+  scenario: Scenario,
+  entries: TranscriptionEntry[],
+  voiceName: string,
+  sessionId?: string,
+): Promise<PracticeReport> {
+  const result = await provider.translateText({
+    systemInstruction: buildFeedbackInstruction(scenario),
+    text: buildPracticeTranscript(entries),
+    voiceName,
+    speak: false,
+  });
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    sessionId,
+    scenarioId: scenario.id,
+    scenarioTitle: scenario.title,
+    language: scenario.language,
+    createdAt: new Date(),
+    learnerTurns: entries.filter(e => e.speaker === 'user').length,
+    goals: scenario.goals,
+    ...parseFeedback(result.text, scenario.goals),
+  };
+}
+
+export async function savePracticeReport(report: PracticeReport): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.PRACTICE_REPORTS, 'readwrite');
+  tx.objectStore(STORES.PRACTICE_REPORTS).put(report);
+  await promisifyTransaction(tx);
+}
+
+export async function listPracticeReports(): Promise<PracticeReport[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.PRACTICE_REPORTS, 'readonly').objectStore(STORES.PRACTICE_REPORTS);
+  const reports = await promisifyRequest<PracticeReport[]>(store.getAll());
+  return reports.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
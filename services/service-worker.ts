@@ -0,0 +1,47 @@
+/**
+ * Registers the build's service worker and reports when a new release has
+ * been downloaded. The new version only takes over once the user accepts,
+ * so a live conversation is never reloaded out from under them.
+ */
+
+// How often an open tab checks for a new release.
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+export interface ServiceWorkerHandlers {
+  // A new version is installed and waiting; call `apply` to switch to it and reload.
+  onUpdateReady: (apply: () => void) => void;
+}
+
+export function registerServiceWorker({ onUpdateReady }: ServiceWorkerHandlers): () => void {
+  // The dev server has no precache manifest, and a cached shell would hide edits.
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return () => {};
+
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let reloading = false;
+
+  const offer = (worker: ServiceWorker) => onUpdateReady(() => {
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+      if (reloading) return;
+      reloading = true;
+      window.location.reload();
+    });
+    worker.postMessage({ type: 'SKIP_WAITING' });
+  });
+
+  navigator.serviceWorker.register('sw.js')
+    .then(registration => {
+      // Only an update when something already controls the page; the first install is silent.
+      if (registration.waiting && navigator.serviceWorker.controller) offer(registration.waiting);
+      registration.addEventListener('updatefound', () => {
+        const installing = registration.installing;
+        installing?.addEventListener('statechange', () => {
+          if (installing.state === 'installed' && navigator.serviceWorker.controller) offer(installing);
+        });
+      });
+      timer = setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_MS);
+    })
+    // Blocked in some embedded frames and private modes; the app still works online.
+    .catch(err => console.warn('Salin offline mode unavailable:', err.message));
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,478 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ConnectionStatus } from '../types';
+import type { AudioCaptureHandlers } from './audio-capture';
+import { encode } from './audio-helpers';
+import { CredentialError } from './credentials';
+import { DEFAULT_BACKOFF } from './reconnect';
+import { SessionHandlers, SessionStartConfig, createSessionController } from './session-controller';
+import { AudioChunk, ProviderSessionConfig, TranslationProvider, TranslationProviderEvents } from './translation-provider';
+
+// 0.1 s of 16 kHz silence, tagged so tests can tell chunks apart.
+const chunk = (tag: string): AudioChunk => ({ data: encode(new Uint8Array(3200)), mimeType: `audio/pcm;rate=16000;tag=${tag}` });
+const tags = (chunks: AudioChunk[]) => chunks.map(c => c.mimeType.split('tag=')[1]);
+
+const CONFIG: SessionStartConfig = {
+  audio: { echoCancellation: true },
+  session: { systemInstruction: 'Interpret.', voiceName: 'Kore' },
+};
+
+class FakeTrack {
+  stopped = false;
+  stop() { this.stopped = true; }
+}
+
+class FakeStream {
+  tracks = [new FakeTrack()];
+  getTracks() { return this.tracks; }
+}
+
+class FakeAudioContext {
+  state: AudioContextState = 'suspended';
+  constructor(public options?: AudioContextOptions) {}
+  async resume() { this.state = 'running'; }
+  close() { this.state = 'closed'; }
+}
+
+// One live connection as the provider saw it; tests play the backend by firing its events.
+interface FakeLiveSession {
+  config: ProviderSessionConfig;
+  events: TranslationProviderEvents;
+  sent: AudioChunk[];
+  texts: string[];
+  endedStreams: number;
+  closed: boolean;
+}
+
+type ScriptStep =
+  | ['open']
+  | ['input' | 'output' | 'audio', string]
+  | ['turnComplete' | 'interrupted' | 'close']
+  | ['error', Error];
+
+// Plays a scripted run of backend events against a live session.
+function play(live: FakeLiveSession, script: ScriptStep[]) {
+  for (const step of script) {
+    if (step[0] === 'open') live.events.onOpen();
+    else if (step[0] === 'input') live.events.onInputTranscript(step[1]);
+    else if (step[0] === 'output') live.events.onOutputTranscript(step[1]);
+    else if (step[0] === 'audio') live.events.onAudio(step[1]);
+    else if (step[0] === 'turnComplete') live.events.onTurnComplete();
+    else if (step[0] === 'interrupted') live.events.onInterrupted();
+    else if (step[0] === 'close') live.events.onClose();
+    else live.events.onError(step[1] as Error);
+  }
+}
+
+interface Options {
+  online?: boolean;
+  requiresNetwork?: boolean;
+  getUserMedia?: ((constraints: MediaStreamConstraints) => Promise<MediaStream>) | null;
+}
+
+function setup({ online = true, requiresNetwork = true, getUserMedia }: Options = {}) {
+  const sessions: FakeLiveSession[] = [];
+  // Errors the next connect() calls reject with, in order.
+  const connectFailures: Error[] = [];
+  const provider: TranslationProvider = {
+    id: 'fake',
+    label: 'Fake',
+    requiresNetwork,
+    outputSampleRate: 24000,
+    async connect(config, events) {
+      const failure = connectFailures.shift();
+      if (failure) throw failure;
+      const live: FakeLiveSession = { config, events, sent: [], texts: [], endedStreams: 0, closed: false };
+      sessions.push(live);
+      return {
+        sendAudio: (c) => live.sent.push(c),
+        sendText: (t) => live.texts.push(t),
+        endAudioStream: () => { live.endedStreams++; },
+        close: () => { live.closed = true; },
+      };
+    },
+    translateText: async () => ({ text: '' }),
+    synthesizeSpeech: async () => '',
+  };
+
+  const streams: FakeStream[] = [];
+  const micRequests: MediaStreamConstraints[] = [];
+  const defaultGetUserMedia = async (constraints: MediaStreamConstraints) => {
+    micRequests.push(constraints);
+    const stream = new FakeStream();
+    streams.push(stream);
+    return stream as unknown as MediaStream;
+  };
+  const contexts: FakeAudioContext[] = [];
+  const captures: { handlers: AudioCaptureHandlers, stopped: boolean }[] = [];
+  const statuses: ConnectionStatus[] = [];
+  let isOnline = online;
+
+  const controller = createSessionController({
+    provider,
+    getUserMedia: getUserMedia === null ? undefined : getUserMedia ?? defaultGetUserMedia,
+    createAudioContext: (options) => {
+      const ctx = new FakeAudioContext(options);
+      contexts.push(ctx);
+      return ctx as unknown as AudioContext;
+    },
+    startCapture: async (_ctx, _stream, handlers) => {
+      const capture = { handlers, stopped: false, stop: () => { capture.stopped = true; } };
+      captures.push(capture);
+      return capture;
+    },
+    isOnline: () => isOnline,
+  }, state => statuses.push(state.status));
+
+  const handlers = {
+    onStart: vi.fn(),
+    onCapture: vi.fn((c: AudioChunk, _rms: number) => [c]),
+    onLevel: vi.fn(),
+    onOpen: vi.fn(),
+    onAudio: vi.fn(),
+    onInputTranscript: vi.fn(),
+    onOutputTranscript: vi.fn(),
+    onTurnComplete: vi.fn(),
+    onInterrupted: vi.fn(),
+    onCredentialExpired: vi.fn(),
+    onEnd: vi.fn(),
+  } satisfies SessionHandlers;
+
+  return {
+    controller, handlers, sessions, connectFailures, streams, micRequests, contexts, captures, statuses,
+    start: () => controller.start(CONFIG, handlers),
+    // Mic audio arriving from the capture worklet.
+    speak: (...chunks: AudioChunk[]) => chunks.forEach(c => captures[captures.length - 1].handlers.onChunk(c, 0.1)),
+    setOnline: (value: boolean) => {
+      isOnline = value;
+      controller.setOnline(value);
+    },
+  };
+}
+
+// Starts a session and opens its first connection.
+async function connected(options?: Options) {
+  const harness = setup(options);
+  await harness.start();
+  play(harness.sessions[0], [['open']]);
+  return harness;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('starting a session', () => {
+  it('goes IDLE → CONNECTING → CONNECTED once the backend opens', async () => {
+    const h = setup();
+    expect(h.controller.state().status).toBe(ConnectionStatus.IDLE);
+    await h.start();
+    expect(h.statuses).toEqual([ConnectionStatus.CONNECTING]);
+    expect(h.micRequests).toEqual([{ audio: CONFIG.audio }]);
+    expect(h.sessions[0].config).toEqual(CONFIG.session);
+    expect(h.handlers.onStart).toHaveBeenCalledTimes(1);
+    expect(h.contexts.map(c => c.options?.sampleRate)).toEqual([undefined, 24000]);
+    expect(h.contexts[0].state).toBe('running');
+
+    play(h.sessions[0], [['open']]);
+    expect(h.statuses).toEqual([ConnectionStatus.CONNECTING, ConnectionStatus.CONNECTED]);
+    expect(h.handlers.onOpen).toHaveBeenCalledWith(false);
+    expect(h.controller.isOpen()).toBe(true);
+    expect(h.controller.hasConnected()).toBe(true);
+  });
+
+  it('ignores a second start while connecting or connected', async () => {
+    const h = setup();
+    await Promise.all([h.start(), h.start()]);
+    expect(h.micRequests).toHaveLength(1);
+    play(h.sessions[0], [['open']]);
+    await h.start();
+    expect(h.micRequests).toHaveLength(1);
+    expect(h.sessions).toHaveLength(1);
+    expect(h.controller.state().status).toBe(ConnectionStatus.CONNECTED);
+  });
+
+  it('needs a connection when the provider does', async () => {
+    const h = setup({ online: false });
+    await h.start();
+    expect(h.controller.state()).toMatchObject({ status: ConnectionStatus.ERROR, errorMessage: 'Internet connection required.' });
+    expect(h.micRequests).toHaveLength(0);
+
+    const local = setup({ online: false, requiresNetwork: false });
+    await local.start();
+    expect(local.controller.state().status).toBe(ConnectionStatus.CONNECTING);
+  });
+
+  it('reports browsers without mic access', async () => {
+    const h = setup({ getUserMedia: null });
+    await h.start();
+    expect(h.controller.state().status).toBe(ConnectionStatus.ERROR);
+    expect(h.controller.state().errorMessage).toMatch(/does not support microphone access/);
+  });
+});
+
+describe('microphone errors', () => {
+  const micError = (name: string, message = '') => Object.assign(new Error(message), { name });
+
+  it.each([
+    ['NotAllowedError', true, 'Microphone access was denied. Please allow microphone permissions in your browser settings.'],
+    ['PermissionDeniedError', true, 'Microphone access was denied. Please allow microphone permissions in your browser settings.'],
+    ['NotFoundError', false, 'No microphone was found on your device.'],
+    ['DevicesNotFoundError', false, 'No microphone was found on your device.'],
+    ['NotReadableError', false, 'Microphone error: Device in use'],
+  ])('%s goes CONNECTING → ERROR without connecting', async (name, denied, message) => {
+    const h = setup({ getUserMedia: async () => { throw micError(name, 'Device in use'); } });
+    await h.start();
+    expect(h.statuses).toEqual([ConnectionStatus.CONNECTING, ConnectionStatus.ERROR]);
+    expect(h.controller.state()).toMatchObject({ errorMessage: message, micPermissionDenied: denied });
+    expect(h.sessions).toHaveLength(0);
+    expect(h.contexts).toHaveLength(0);
+    expect(h.handlers.onStart).not.toHaveBeenCalled();
+  });
+
+  it('clears the error when the user tries again', async () => {
+    let attempts = 0;
+    const h = setup({
+      getUserMedia: async () => {
+        if (attempts++ === 0) throw micError('NotAllowedError');
+        return new FakeStream() as unknown as MediaStream;
+      },
+    });
+    await h.start();
+    await h.start();
+    expect(h.statuses).toEqual([ConnectionStatus.CONNECTING, ConnectionStatus.ERROR, ConnectionStatus.CONNECTING]);
+    expect(h.controller.state()).toMatchObject({ errorMessage: '', micPermissionDenied: false });
+    expect(h.sessions).toHaveLength(1);
+  });
+});
+
+describe('live audio and events', () => {
+  it('buffers mic audio until the backend opens, then streams it in order', async () => {
+    const h = setup();
+    await h.start();
+    h.speak(chunk('a'), chunk('b'));
+    expect(h.sessions[0].sent).toEqual([]);
+    expect(h.controller.bufferedSeconds()).toBeCloseTo(0.2);
+
+    play(h.sessions[0], [['open']]);
+    h.speak(chunk('c'));
+    expect(tags(h.sessions[0].sent)).toEqual(['a', 'b', 'c']);
+    expect(h.controller.bufferedSeconds()).toBe(0);
+  });
+
+  it('only sends what the capture handler passes through', async () => {
+    const h = await connected();
+    h.handlers.onCapture.mockImplementation((c) => tags([c])[0] === 'muted' ? [] : [c]);
+    h.speak(chunk('muted'), chunk('spoken'));
+    expect(tags(h.sessions[0].sent)).toEqual(['spoken']);
+    h.captures[0].handlers.onLevel(0.3);
+    expect(h.handlers.onLevel).toHaveBeenCalledWith(0.3);
+  });
+
+  it('forwards a scripted turn to the handlers', async () => {
+    const h = await connected();
+    play(h.sessions[0], [['input', 'Kumusta'], ['audio', 'AAAA'], ['output', 'How are you'], ['interrupted'], ['turnComplete']]);
+    expect(h.handlers.onInputTranscript).toHaveBeenCalledWith('Kumusta');
+    expect(h.handlers.onAudio).toHaveBeenCalledWith('AAAA');
+    expect(h.handlers.onOutputTranscript).toHaveBeenCalledWith('How are you');
+    expect(h.handlers.onInterrupted).toHaveBeenCalledTimes(1);
+    expect(h.handlers.onTurnComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends typed text and ends the audio stream only while open', async () => {
+    const h = setup();
+    await h.start();
+    expect(h.controller.sendText('Salamat')).toBe(false);
+    h.controller.endAudioStream();
+    play(h.sessions[0], [['open']]);
+    expect(h.controller.sendText('Salamat')).toBe(true);
+    h.controller.endAudioStream();
+    expect(h.sessions[0].texts).toEqual(['Salamat']);
+    expect(h.sessions[0].endedStreams).toBe(1);
+  });
+});
+
+describe('failures before the first connection', () => {
+  it('goes CONNECTING → ERROR when connecting throws, and tears everything down', async () => {
+    const h = setup();
+    h.connectFailures.push(new Error('Bad model'));
+    await h.start();
+    expect(h.statuses).toEqual([ConnectionStatus.CONNECTING, ConnectionStatus.ERROR]);
+    expect(h.controller.state()).toMatchObject({ errorMessage: 'Bad model', needsCredential: false });
+    expect(h.streams[0].tracks[0].stopped).toBe(true);
+    expect(h.captures[0].stopped).toBe(true);
+    expect(h.contexts.every(c => c.state === 'closed')).toBe(true);
+    expect(h.handlers.onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('treats an error or close before opening as a startup failure', async () => {
+    const h = setup();
+    await h.start();
+    play(h.sessions[0], [['error', new Error('Quota exceeded')]]);
+    expect(h.controller.state()).toMatchObject({ status: ConnectionStatus.ERROR, errorMessage: 'Quota exceeded' });
+    expect(h.sessions[0].closed).toBe(true);
+
+    const closed = setup();
+    await closed.start();
+    play(closed.sessions[0], [['close']]);
+    expect(closed.controller.state()).toMatchObject({ status: ConnectionStatus.ERROR, errorMessage: 'The session was closed.' });
+  });
+
+  it('flags credential problems that retrying cannot fix', async () => {
+    const h = setup();
+    h.connectFailures.push(new CredentialError('missing', 'Add an API key in Settings.'));
+    await h.start();
+    expect(h.controller.state()).toMatchObject({ status: ConnectionStatus.ERROR, needsCredential: true, errorMessage: 'Add an API key in Settings.' });
+  });
+
+  it('fails when the audio setup throws', async () => {
+    const h = setup();
+    h.handlers.onStart.mockImplementation(() => { throw new Error('Recorder unavailable'); });
+    await h.start();
+    expect(h.controller.state()).toMatchObject({ status: ConnectionStatus.ERROR, errorMessage: 'Recorder unavailable' });
+    expect(h.sessions).toHaveLength(0);
+    expect(h.streams[0].tracks[0].stopped).toBe(true);
+  });
+});
+
+describe('reconnecting', () => {
+  it('goes CONNECTED → RECONNECTING → CONNECTED, replaying audio spoken while down', async () => {
+    vi.useFakeTimers();
+    const h = await connected();
+    play(h.sessions[0], [['close']]);
+    expect(h.controller.state()).toMatchObject({ status: ConnectionStatus.RECONNECTING, reconnect: { attempt: 1 } });
+    expect(h.controller.isOpen()).toBe(false);
+    expect(h.controller.hasConnected()).toBe(true);
+    h.speak(chunk('while-down'));
+
+    await vi.runOnlyPendingTimersAsync();
+    expect(h.sessions).toHaveLength(2);
+    play(h.sessions[1], [['open']]);
+    expect(h.statuses.slice(-3)).toEqual([ConnectionStatus.CONNECTED, ConnectionStatus.RECONNECTING, ConnectionStatus.CONNECTED]);
+    expect(h.handlers.onOpen).toHaveBeenLastCalledWith(true);
+    expect(h.controller.state().reconnect).toBeNull();
+    expect(tags(h.sessions[1].sent)).toEqual(['while-down']);
+  });
+
+  it('ignores events from a connection that was replaced', async () => {
+    vi.useFakeTimers();
+    const h = await connected();
+    const stale = h.sessions[0];
+    play(stale, [['error', new Error('Socket reset')]]);
+    await vi.runOnlyPendingTimersAsync();
+    play(stale, [['audio', 'OLD'], ['turnComplete'], ['close']]);
+    expect(h.handlers.onAudio).not.toHaveBeenCalled();
+    expect(h.handlers.onTurnComplete).not.toHaveBeenCalled();
+    expect(h.controller.state().reconnect?.attempt).toBe(1);
+  });
+
+  it('fetches a fresh token when the old one expired', async () => {
+    vi.useFakeTimers();
+    const h = await connected();
+    play(h.sessions[0], [['error', new CredentialError('expired', 'Token expired.')]]);
+    expect(h.handlers.onCredentialExpired).toHaveBeenCalledTimes(1);
+    expect(h.controller.state().status).toBe(ConnectionStatus.RECONNECTING);
+  });
+
+  it('stops on a rejected credential instead of retrying', async () => {
+    const h = await connected();
+    play(h.sessions[0], [['error', new CredentialError('rejected', 'The API key was rejected.')]]);
+    expect(h.controller.state()).toMatchObject({ status: ConnectionStatus.ERROR, needsCredential: true });
+  });
+
+  it('goes RECONNECTING → ERROR after the last attempt fails', async () => {
+    vi.useFakeTimers();
+    const h = await connected();
+    for (let i = 0; i < DEFAULT_BACKOFF.maxAttempts; i++) h.connectFailures.push(new Error('Unreachable'));
+    play(h.sessions[0], [['close']]);
+    for (let i = 0; i < DEFAULT_BACKOFF.maxAttempts; i++) await vi.runOnlyPendingTimersAsync();
+    expect(h.controller.state()).toMatchObject({
+      status: ConnectionStatus.ERROR,
+      errorMessage: `Connection lost and could not be restored after ${DEFAULT_BACKOFF.maxAttempts} attempts. Unreachable`,
+      reconnect: null,
+    });
+    expect(h.handlers.onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops the socket when the device goes offline and retries as soon as it is back', async () => {
+    vi.useFakeTimers();
+    const h = await connected();
+    h.setOnline(false);
+    expect(h.sessions[0].closed).toBe(true);
+    expect(h.controller.state().status).toBe(ConnectionStatus.RECONNECTING);
+
+    h.setOnline(true);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(h.sessions).toHaveLength(2);
+    play(h.sessions[1], [['open']]);
+    expect(h.controller.state().status).toBe(ConnectionStatus.CONNECTED);
+  });
+
+  it('keeps an offline-capable session open when the network drops', async () => {
+    const h = await connected({ requiresNetwork: false });
+    h.setOnline(false);
+    expect(h.controller.state().status).toBe(ConnectionStatus.CONNECTED);
+    expect(h.sessions[0].closed).toBe(false);
+  });
+});
+
+describe('stopping', () => {
+  it('goes back to IDLE and releases the mic, contexts and socket', async () => {
+    const h = await connected();
+    h.controller.stop();
+    expect(h.controller.state()).toMatchObject({ status: ConnectionStatus.IDLE, reconnect: null });
+    expect(h.sessions[0].closed).toBe(true);
+    expect(h.captures[0].stopped).toBe(true);
+    expect(h.streams[0].tracks[0].stopped).toBe(true);
+    expect(h.contexts.every(c => c.state === 'closed')).toBe(true);
+    expect(h.controller.outputContext()).toBeNull();
+    expect(h.handlers.onEnd).toHaveBeenCalledTimes(1);
+
+    play(h.sessions[0], [['audio', 'LATE'], ['close']]);
+    expect(h.handlers.onAudio).not.toHaveBeenCalled();
+    expect(h.controller.state().status).toBe(ConnectionStatus.IDLE);
+  });
+
+  it('cancels a pending reconnect', async () => {
+    vi.useFakeTimers();
+    const h = await connected();
+    play(h.sessions[0], [['close']]);
+    h.controller.stop();
+    await vi.runAllTimersAsync();
+    expect(h.sessions).toHaveLength(1);
+    expect(h.controller.state().status).toBe(ConnectionStatus.IDLE);
+  });
+
+  it('gives up a start still waiting on mic permission', async () => {
+    let grant: (stream: MediaStream) => void = () => {};
+    const stream = new FakeStream();
+    let requests = 0;
+    const h = setup({
+      getUserMedia: () => requests++ === 0
+        ? new Promise(resolve => { grant = resolve; })
+        : Promise.resolve(new FakeStream() as unknown as MediaStream),
+    });
+    const starting = h.start();
+    h.controller.stop();
+    grant(stream as unknown as MediaStream);
+    await starting;
+    expect(stream.tracks[0].stopped).toBe(true);
+    expect(h.sessions).toHaveLength(0);
+    expect(h.statuses).toEqual([ConnectionStatus.CONNECTING, ConnectionStatus.IDLE]);
+
+    await h.start();
+    expect(h.controller.state().status).toBe(ConnectionStatus.CONNECTING);
+  });
+
+  it('keeps a typed reply playable with no session', () => {
+    const h = setup();
+    const ctx = h.controller.ensureOutputContext();
+    expect(h.controller.ensureOutputContext()).toBe(ctx);
+    expect(h.contexts).toHaveLength(1);
+    expect((ctx as unknown as FakeAudioContext).options?.sampleRate).toBe(24000);
+  });
+});
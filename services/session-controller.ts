@@ -0,0 +1,352 @@
+import { ConnectionStatus } from '../types';
+import type { AudioCapture, AudioCaptureHandlers } from './audio-capture';
+import { CredentialError, needsNewCredential } from './credentials';
+import { DEFAULT_BACKOFF, createAudioBacklog, getBackoffDelay } from './reconnect';
+import { AudioChunk, ProviderSessionConfig, TranslationProvider, TranslationProviderEvents, TranslationSession } from './translation-provider';
+
+/**
+ * The live session's connection lifecycle, kept out of the UI: mic and audio
+ * context setup, the double-start guard, connect and reconnect with backoff,
+ * buffering mic audio while the socket is down, and teardown. Browser APIs
+ * come in through SessionEnvironment so the whole state machine runs under test.
+ */
+
+export interface SessionState {
+  status: ConnectionStatus;
+  errorMessage: string;
+  // The browser refused the mic; the user has to allow it and reload.
+  micPermissionDenied: boolean;
+  // Retrying can't help until the API key or token service is fixed.
+  needsCredential: boolean;
+  // Set while RECONNECTING: when the next attempt starts and which one it is.
+  reconnect: { at: number, attempt: number } | null;
+}
+
+export const IDLE_SESSION_STATE: SessionState = {
+  status: ConnectionStatus.IDLE,
+  errorMessage: '',
+  micPermissionDenied: false,
+  needsCredential: false,
+  reconnect: null,
+};
+
+export interface SessionEnvironment {
+  provider: TranslationProvider;
+  // Missing when the browser has no mic access or the page isn't served over HTTPS.
+  getUserMedia?: (constraints: MediaStreamConstraints) => Promise<MediaStream>;
+  createAudioContext: (options?: AudioContextOptions) => AudioContext;
+  startCapture: (ctx: AudioContext, stream: MediaStream, handlers: AudioCaptureHandlers) => Promise<AudioCapture>;
+  isOnline: () => boolean;
+}
+
+export interface SessionStartConfig {
+  audio: MediaTrackConstraints;
+  session: ProviderSessionConfig;
+}
+
+/** What one session does with its audio and events; events from replaced connections never arrive. */
+export interface SessionHandlers extends Pick<TranslationProviderEvents, 'onAudio' | 'onInputTranscript' | 'onOutputTranscript' | 'onTurnComplete' | 'onInterrupted'> {
+  // The mic was granted and the audio contexts exist; runs before the first connection.
+  onStart: () => void | Promise<void>;
+  // Captured mic audio; returns the chunks meant for the backend, e.g. those the input gate let through.
+  onCapture: (chunk: AudioChunk, rms: number) => AudioChunk[];
+  onLevel: (rms: number) => void;
+  onOpen: (reconnected: boolean) => void;
+  // A short-lived token ran out and a fresh one is being fetched.
+  onCredentialExpired: () => void;
+  // Torn down, by stop() or after a failure.
+  onEnd: () => void;
+}
+
+export interface SessionController {
+  // Ignored while a session is already starting or running.
+  start: (config: SessionStartConfig, handlers: SessionHandlers) => Promise<void>;
+  stop: () => void;
+  // False when there is no open connection to take it.
+  sendText: (text: string) => boolean;
+  endAudioStream: () => void;
+  isOpen: () => boolean;
+  // Opened at least once since start; stays set across reconnects.
+  hasConnected: () => boolean;
+  // Going offline drops the socket straight away; coming back skips the reconnect wait.
+  setOnline: (online: boolean) => void;
+  // Typed replies and replays play with no session running, so this can outlive one.
+  ensureOutputContext: () => AudioContext;
+  outputContext: () => AudioContext | null;
+  bufferedSeconds: () => number;
+  state: () => SessionState;
+}
+
+function describeMicError(err: any): Pick<SessionState, 'errorMessage' | 'micPermissionDenied'> {
+  if (err?.name === 'NotAllowedError' || err?.name === 'PermissionDeniedError') {
+    return { errorMessage: 'Microphone access was denied. Please allow microphone permissions in your browser settings.', micPermissionDenied: true };
+  }
+  if (err?.name === 'NotFoundError' || err?.name === 'DevicesNotFoundError') {
+    return { errorMessage: 'No microphone was found on your device.', micPermissionDenied: false };
+  }
+  return { errorMessage: `Microphone error: ${err?.message}`, micPermissionDenied: false };
+}
+
+export function createSessionController(env: SessionEnvironment, onStateChange: (state: SessionState) => void): SessionController {
+  let state = IDLE_SESSION_STATE;
+  let handlers: SessionHandlers | null = null;
+  let session: TranslationSession | null = null;
+  let stream: MediaStream | null = null;
+  let capture: AudioCapture | null = null;
+  let inputCtx: AudioContext | null = null;
+  let outputCtx: AudioContext | null = null;
+  // Bumped by every start and teardown, so a start that was stopped midway gives up.
+  let run = 0;
+  // Bumped for every connection attempt so callbacks from stale sockets are ignored.
+  let connectionId = 0;
+  let isConnecting = false;
+  let isOpen = false;
+  let hasConnected = false;
+  let reconnectAttempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let connect: (() => Promise<void>) | null = null;
+  // Mic audio captured while the connection is down or still opening.
+  const backlog = createAudioBacklog();
+
+  const setState = (patch: Partial<SessionState>) => {
+    state = { ...state, ...patch };
+    onStateChange(state);
+  };
+
+  const flushBacklog = () => {
+    if (!session || !isOpen) return;
+    const open = session;
+    backlog.drain().forEach(chunk => open.sendAudio(chunk));
+  };
+
+  const ensureOutputContext = () => {
+    if (!outputCtx || outputCtx.state === 'closed') {
+      outputCtx = env.createAudioContext({ sampleRate: env.provider.outputSampleRate });
+    }
+    return outputCtx;
+  };
+
+  const teardown = () => {
+    run++;
+    connectionId++;
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    reconnectAttempt = 0;
+    hasConnected = false;
+    isOpen = false;
+    isConnecting = false;
+    connect = null;
+    backlog.clear();
+
+    if (session) {
+      try { session.close(); } catch (e) {}
+      session = null;
+    }
+    if (capture) {
+      capture.stop();
+      capture = null;
+    }
+    if (inputCtx) {
+      try { inputCtx.close(); } catch (e) {}
+      inputCtx = null;
+    }
+    if (outputCtx) {
+      try { outputCtx.close(); } catch (e) {}
+      outputCtx = null;
+    }
+    if (stream) {
+      stream.getTracks().forEach(track => track.stop());
+      stream = null;
+    }
+    const ended = handlers;
+    handlers = null;
+    ended?.onEnd();
+  };
+
+  const stop = () => {
+    teardown();
+    setState({ status: ConnectionStatus.IDLE, reconnect: null });
+  };
+
+  const fail = (message: string, credentialProblem = false) => {
+    teardown();
+    setState({ status: ConnectionStatus.ERROR, errorMessage: message, needsCredential: credentialProblem, reconnect: null });
+  };
+
+  const handleConnectionLost = (reason: string, error?: unknown) => {
+    const closing = session;
+    session = null;
+    isOpen = false;
+    connectionId++;
+    if (closing) { try { closing.close(); } catch (e) {} }
+
+    // Retrying with the same key, or a broker that refuses us, can't succeed.
+    if (needsNewCredential(error)) {
+      fail(reason, true);
+      return;
+    }
+    if (error instanceof CredentialError && error.code === 'expired') handlers?.onCredentialExpired();
+
+    // Never connected at all: report it like any other startup failure.
+    if (!hasConnected) {
+      fail(reason);
+      return;
+    }
+    const attempt = reconnectAttempt;
+    if (attempt >= DEFAULT_BACKOFF.maxAttempts) {
+      fail(`Connection lost and could not be restored after ${attempt} attempts. ${reason}`);
+      return;
+    }
+    const delay = getBackoffDelay(attempt);
+    reconnectAttempt = attempt + 1;
+    setState({ status: ConnectionStatus.RECONNECTING, reconnect: { at: Date.now() + delay, attempt: attempt + 1 } });
+    reconnectTimer = setTimeout(() => connect?.(), delay);
+  };
+
+  const reconnectNow = () => {
+    if (!reconnectTimer) return;
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    connect?.();
+  };
+
+  const start = async (config: SessionStartConfig, sessionHandlers: SessionHandlers) => {
+    if (isConnecting || handlers) return;
+    const { provider } = env;
+    if (!env.isOnline() && provider.requiresNetwork) {
+      setState({ status: ConnectionStatus.ERROR, errorMessage: 'Internet connection required.' });
+      return;
+    }
+    if (!env.getUserMedia) {
+      setState({ status: ConnectionStatus.ERROR, errorMessage: 'Your browser does not support microphone access or you are not in a secure (HTTPS) environment.' });
+      return;
+    }
+
+    isConnecting = true;
+    const runId = ++run;
+    const isCurrentRun = () => runId === run;
+    setState({ ...IDLE_SESSION_STATE, status: ConnectionStatus.CONNECTING });
+
+    let acquired: MediaStream;
+    try {
+      acquired = await env.getUserMedia({ audio: config.audio });
+    } catch (err) {
+      if (!isCurrentRun()) return;
+      isConnecting = false;
+      setState({ status: ConnectionStatus.ERROR, ...describeMicError(err) });
+      return;
+    }
+    if (!isCurrentRun()) {
+      acquired.getTracks().forEach(track => track.stop());
+      return;
+    }
+    stream = acquired;
+    handlers = sessionHandlers;
+    const h = sessionHandlers;
+
+    try {
+      // Capture at the device's native rate; the capture worklet resamples to 16 kHz.
+      inputCtx = env.createAudioContext();
+      ensureOutputContext();
+      await inputCtx.resume();
+      await h.onStart();
+      if (!isCurrentRun()) return;
+
+      // The mic runs for the whole session; while the connection is down (or
+      // still opening) what the handlers pass through goes to the backlog.
+      const started = await env.startCapture(inputCtx, acquired, {
+        onChunk: (chunk, rms) => {
+          for (const passed of h.onCapture(chunk, rms)) {
+            if (session && isOpen) session.sendAudio(passed);
+            else backlog.push(passed);
+          }
+        },
+        onLevel: h.onLevel,
+      });
+      if (!isCurrentRun()) {
+        started.stop();
+        return;
+      }
+      capture = started;
+
+      const connectOnce = async () => {
+        reconnectTimer = null;
+        const id = ++connectionId;
+        const isCurrent = () => id === connectionId;
+
+        try {
+          const opened = await provider.connect(config.session, {
+            onOpen: () => {
+              if (!isCurrent()) return;
+              isOpen = true;
+              const reconnected = hasConnected;
+              hasConnected = true;
+              reconnectAttempt = 0;
+              isConnecting = false;
+              setState({ status: ConnectionStatus.CONNECTED, reconnect: null });
+              h.onOpen(reconnected);
+              flushBacklog();
+            },
+            onAudio: (audio) => { if (isCurrent()) h.onAudio(audio); },
+            onInputTranscript: (text) => { if (isCurrent()) h.onInputTranscript(text); },
+            onOutputTranscript: (text) => { if (isCurrent()) h.onOutputTranscript(text); },
+            onTurnComplete: () => { if (isCurrent()) h.onTurnComplete(); },
+            onInterrupted: () => { if (isCurrent()) h.onInterrupted(); },
+            onError: (e) => {
+              if (!isCurrent()) return;
+              console.error('Session error:', e);
+              handleConnectionLost(e.message, e);
+            },
+            onClose: () => {
+              if (isCurrent()) handleConnectionLost('The session was closed.');
+            },
+          });
+          if (!isCurrent()) {
+            opened.close();
+            return;
+          }
+          session = opened;
+          flushBacklog();
+        } catch (err: any) {
+          if (!isCurrent()) return;
+          console.error('Startup error:', err);
+          handleConnectionLost(err.message || 'Failed to initialize AI session.', err);
+        }
+      };
+
+      connect = connectOnce;
+      await connectOnce();
+    } catch (err: any) {
+      if (!isCurrentRun()) return;
+      console.error('Startup error:', err);
+      fail(err.message || 'Failed to initialize AI session.', needsNewCredential(err));
+    }
+  };
+
+  return {
+    start,
+    stop,
+    sendText: (text) => {
+      if (!session || !isOpen) return false;
+      session.sendText(text);
+      return true;
+    },
+    endAudioStream: () => {
+      if (session && isOpen) session.endAudioStream();
+    },
+    isOpen: () => isOpen,
+    hasConnected: () => hasConnected,
+    setOnline: (online) => {
+      if (online) reconnectNow();
+      // Drop the socket now rather than waiting for it to time out; the
+      // reconnect loop takes over and keeps buffering mic audio.
+      else if (env.provider.requiresNetwork && isOpen) handleConnectionLost('Network connection lost.');
+    },
+    ensureOutputContext,
+    outputContext: () => outputCtx,
+    bufferedSeconds: () => backlog.seconds(),
+    state: () => state,
+  };
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { AppMode } from '../types';
+import { createPcmBlob, encode } from './audio-helpers';
+import { AUDIO_TOKENS_PER_SECOND, SessionMetrics, createMetricsCollector, estimateAudioCost, summarizeMetrics } from './session-metrics';
+
+const info = { mode: AppMode.TRANSLATE, provider: 'mock', voiceName: 'Kore' };
+
+function clock() {
+  let time = Date.UTC(2026, 0, 1);
+  return { now: () => time, advance: (ms: number) => { time += ms; } };
+}
+
+// 100 ms of 16 kHz mic audio and 250 ms of 24 kHz reply audio.
+const micChunk = () => createPcmBlob(new Int16Array(1600));
+const replyChunk = () => encode(new Uint8Array(12000));
+
+describe('createMetricsCollector', () => {
+  it('measures latency from the end of speech to the first reply audio', () => {
+    const { now, advance } = clock();
+    const metrics = createMetricsCollector(info, 24000, now);
+    metrics.audioSent(micChunk(), false);
+    advance(100);
+    metrics.audioSent(micChunk(), true);
+    advance(100);
+    metrics.audioSent(micChunk(), true);
+    advance(100);
+    metrics.audioSent(micChunk(), false);
+    advance(600);
+    metrics.audioReceived(replyChunk());
+    advance(100);
+    metrics.audioReceived(replyChunk());
+    advance(500);
+    metrics.turnComplete();
+
+    const [turn] = metrics.snapshot().turns;
+    expect(turn.latencyMs).toBe(700);
+    expect(turn.durationMs).toBe(1400);
+    expect(turn.inputSeconds).toBeCloseTo(0.4);
+    expect(turn.outputSeconds).toBeCloseTo(0.5);
+    expect(turn.interrupted).toBe(false);
+  });
+
+  it('does not count a barge-in as the end of the question', () => {
+    const { now, advance } = clock();
+    const metrics = createMetricsCollector(info, 24000, now);
+    metrics.textSent();
+    advance(400);
+    metrics.audioReceived(replyChunk());
+    advance(200);
+    metrics.audioSent(micChunk(), true);
+    metrics.interrupted();
+    metrics.turnComplete();
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot.turns[0]).toMatchObject({ latencyMs: 400, interrupted: true });
+    expect(snapshot.interruptions).toBe(1);
+  });
+
+  it('keeps totals across turns and reconnects', () => {
+    const metrics = createMetricsCollector(info, 24000);
+    metrics.audioSent(micChunk(), true);
+    metrics.turnComplete();
+    metrics.reconnected();
+    metrics.audioSent(micChunk(), true);
+    metrics.audioReceived(replyChunk());
+    metrics.turnComplete();
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot.turns).toHaveLength(2);
+    expect(snapshot.turns[0].latencyMs).toBeUndefined();
+    expect(snapshot.reconnects).toBe(1);
+    expect(snapshot.inputSeconds).toBeCloseTo(0.2);
+    expect(snapshot.outputSeconds).toBeCloseTo(0.25);
+  });
+});
+
+describe('summarizeMetrics', () => {
+  const run = (latencies: (number | undefined)[], extra: Partial<SessionMetrics> = {}): SessionMetrics => ({
+    id: Math.random().toString(36).substr(2, 9), ...info, startedAt: new Date(),
+    turns: latencies.map(latencyMs => ({ startedAt: new Date(), latencyMs, durationMs: 1000, interrupted: false, inputSeconds: 1, outputSeconds: 1 })),
+    interruptions: 0, reconnects: 0, inputSeconds: 60, outputSeconds: 30, ...extra,
+  });
+
+  it('combines runs and reports latency percentiles', () => {
+    const summary = summarizeMetrics([run([100, 300, undefined]), run([200, 400, 500, 900, 1000, 600, 700, 800], { reconnects: 2 })]);
+    expect(summary.turns).toBe(11);
+    expect(summary.medianLatencyMs).toBe(500);
+    expect(summary.p90LatencyMs).toBe(900);
+    expect(summary.reconnects).toBe(2);
+    expect(summary.inputSeconds).toBe(120);
+  });
+
+  it('leaves latency empty when no reply audio arrived', () => {
+    expect(summarizeMetrics([run([undefined])]).medianLatencyMs).toBeUndefined();
+  });
+
+  it('prices streamed audio by token count', () => {
+    const summary = summarizeMetrics([run([])]);
+    const expected = (60 * AUDIO_TOKENS_PER_SECOND * 3 + 30 * AUDIO_TOKENS_PER_SECOND * 12) / 1_000_000;
+    expect(estimateAudioCost(summary, 3, 12)).toBeCloseTo(expected);
+  });
+});
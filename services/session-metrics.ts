@@ -0,0 +1,184 @@
+import { AppMode } from '../types';
+import { decode, pcmChunkSeconds } from './audio-helpers';
+import { openDatabase, promisifyRequest, promisifyTransaction, STORES } from './db';
+import { ExportedFile, fileBaseName } from './transcript-export';
+import { AudioChunk } from './translation-provider';
+
+/**
+ * Per-turn timing and audio volume of a live session, collected from the
+ * session events. One record covers a run from start to stop, reconnects
+ * included, and is stored with the conversation it belongs to.
+ */
+
+export interface TurnMetrics {
+  startedAt: Date;
+  // End of the user's speech (or the typed message) to the first reply audio.
+  latencyMs?: number;
+  // First speech to turn completion.
+  durationMs: number;
+  interrupted: boolean;
+  inputSeconds: number;
+  outputSeconds: number;
+}
+
+export interface SessionMetrics {
+  id: string;
+  sessionId?: string;
+  mode: AppMode;
+  provider: string;
+  model?: string;
+  voiceName: string;
+  startedAt: Date;
+  endedAt?: Date;
+  turns: TurnMetrics[];
+  interruptions: number;
+  reconnects: number;
+  // Audio seconds streamed to and received from the backend, silence included.
+  inputSeconds: number;
+  outputSeconds: number;
+}
+
+export interface MetricsSummary {
+  turns: number;
+  medianLatencyMs?: number;
+  p90LatencyMs?: number;
+  interruptions: number;
+  reconnects: number;
+  inputSeconds: number;
+  outputSeconds: number;
+}
+
+// Published rate at which live models count audio as tokens.
+export const AUDIO_TOKENS_PER_SECOND = 32;
+
+export interface MetricsCollector {
+  // `speech` marks audio with voice in it, as opposed to streamed silence.
+  audioSent: (chunk: AudioChunk, speech: boolean) => void;
+  textSent: () => void;
+  audioReceived: (base64: string) => void;
+  interrupted: () => void;
+  reconnected: () => void;
+  turnComplete: () => void;
+  snapshot: () => SessionMetrics;
+}
+
+interface OpenTurn {
+  startedAt?: number;
+  speechEndedAt?: number;
+  firstAudioAt?: number;
+  interrupted: boolean;
+  inputSeconds: number;
+  outputSeconds: number;
+}
+
+const emptyTurn = (): OpenTurn => ({ interrupted: false, inputSeconds: 0, outputSeconds: 0 });
+
+export function createMetricsCollector(
+  info: Pick<SessionMetrics, 'mode' | 'provider' | 'model' | 'voiceName'>,
+  outputSampleRate: number,
+  now = Date.now,
+): MetricsCollector {
+  const metrics: SessionMetrics = {
+    id: Math.random().toString(36).substr(2, 9),
+    ...info,
+    startedAt: new Date(now()),
+    turns: [],
+    interruptions: 0,
+    reconnects: 0,
+    inputSeconds: 0,
+    outputSeconds: 0,
+  };
+  let turn = emptyTurn();
+
+  // Speech after the reply has started is a barge-in, not the end of the question.
+  const markSpeech = () => {
+    const at = now();
+    turn.startedAt ??= at;
+    if (turn.firstAudioAt === undefined) turn.speechEndedAt = at;
+  };
+
+  return {
+    audioSent(chunk, speech) {
+      const seconds = pcmChunkSeconds(chunk);
+      metrics.inputSeconds += seconds;
+      turn.inputSeconds += seconds;
+      if (speech) markSpeech();
+    },
+    textSent: markSpeech,
+    audioReceived(base64) {
+      const seconds = decode(base64).byteLength / 2 / outputSampleRate;
+      turn.firstAudioAt ??= now();
+      metrics.outputSeconds += seconds;
+      turn.outputSeconds += seconds;
+    },
+    interrupted() {
+      metrics.interruptions++;
+      turn.interrupted = true;
+    },
+    reconnected() {
+      metrics.reconnects++;
+    },
+    turnComplete() {
+      const at = now();
+      const startedAt = turn.startedAt ?? turn.firstAudioAt ?? at;
+      metrics.turns.push({
+        startedAt: new Date(startedAt),
+        latencyMs: turn.firstAudioAt !== undefined && turn.speechEndedAt !== undefined ? turn.firstAudioAt - turn.speechEndedAt : undefined,
+        durationMs: at - startedAt,
+        interrupted: turn.interrupted,
+        inputSeconds: turn.inputSeconds,
+        outputSeconds: turn.outputSeconds,
+      });
+      turn = emptyTurn();
+    },
+    snapshot: () => ({ ...metrics, endedAt: new Date(now()), turns: [...metrics.turns] }),
+  };
+}
+
+function percentile(sorted: number[], p: number): number | undefined {
+  if (sorted.length === 0) return undefined;
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+}
+
+export function summarizeMetrics(runs: SessionMetrics[]): MetricsSummary {
+  const turns = runs.flatMap(run => run.turns);
+  const latencies = turns.map(t => t.latencyMs).filter((ms): ms is number => ms !== undefined).sort((a, b) => a - b);
+  const sum = (pick: (run: SessionMetrics) => number) => runs.reduce((total, run) => total + pick(run), 0);
+  return {
+    turns: turns.length,
+    medianLatencyMs: percentile(latencies, 0.5),
+    p90LatencyMs: percentile(latencies, 0.9),
+    interruptions: sum(run => run.interruptions),
+    reconnects: sum(run => run.reconnects),
+    inputSeconds: sum(run => run.inputSeconds),
+    outputSeconds: sum(run => run.outputSeconds),
+  };
+}
+
+/** Cost of the streamed audio at the given prices per million tokens. */
+export function estimateAudioCost(summary: MetricsSummary, inputPerMillion: number, outputPerMillion: number): number {
+  const tokens = (seconds: number) => seconds * AUDIO_TOKENS_PER_SECOND;
+  return (tokens(summary.inputSeconds) * inputPerMillion + tokens(summary.outputSeconds) * outputPerMillion) / 1_000_000;
+}
+
+export function exportMetrics(runs: SessionMetrics[], name: string): ExportedFile {
+  return {
+    filename: `${fileBaseName(name, 'session')}-metrics.json`,
+    mimeType: 'application/json',
+    content: JSON.stringify({ summary: summarizeMetrics(runs), runs }, null, 2),
+  };
+}
+
+export async function saveSessionMetrics(metrics: SessionMetrics): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.METRICS, 'readwrite');
+  tx.objectStore(STORES.METRICS).put(metrics);
+  await promisifyTransaction(tx);
+}
+
+export async function getSessionMetrics(sessionId: string): Promise<SessionMetrics[]> {
+  const db = await openDatabase();
+  const index = db.transaction(STORES.METRICS, 'readonly').objectStore(STORES.METRICS).index('sessionId');
+  const runs = await promisifyRequest<SessionMetrics[]>(index.getAll(sessionId));
+  return runs.sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { AppMode, TranscriptionEntry } from '../types';
+import { createBlob, INPUT_SAMPLE_RATE } from './audio-helpers';
+import { PlayedClip } from './playback';
+import { RECORDING_SAMPLE_RATE, createSessionRecorder, recordingCaptions, renderRecording } from './session-recorder';
+
+const START = Date.UTC(2026, 0, 1, 9, 0, 0);
+
+function clock() {
+  let time = START;
+  return { now: () => time, advance: (ms: number) => { time += ms; } };
+}
+
+const tone = (seconds: number, rate: number) =>
+  Float32Array.from({ length: Math.round(seconds * rate) }, (_, i) => 0.5 * Math.sin((2 * Math.PI * 300 * i) / rate));
+
+// 100 ms of mic audio, as the capture worklet delivers it.
+const micChunk = () => createBlob(tone(0.1, INPUT_SAMPLE_RATE));
+// Reply audio as the playback manager reports it once heard.
+const played = (seconds: number, atMs: number, rate = 1): PlayedClip =>
+  ({ samples: tone(seconds, 24000), sampleRate: 24000, rate, startedAt: START + atMs });
+
+describe('createSessionRecorder', () => {
+  it('returns nothing when no audio was recorded', () => {
+    expect(createSessionRecorder(AppMode.TRANSLATE).finish('s1')).toBeNull();
+  });
+
+  it('keeps steadily arriving mic audio in one resampled stretch', () => {
+    const { now, advance } = clock();
+    const recorder = createSessionRecorder(AppMode.TRANSLATE, now);
+    for (let i = 0; i < 20; i++) {
+      advance(100);
+      recorder.addInput(micChunk());
+    }
+    const recording = recorder.finish('s1')!;
+    expect(recording.input).toHaveLength(1);
+    // Held back only by the resampler's few samples of lookahead.
+    expect(recording.input[0].offset).toBeLessThan(0.01 * RECORDING_SAMPLE_RATE);
+    expect(recording.duration).toBeGreaterThan(1.99);
+    expect(recording.duration).toBeLessThanOrEqual(2);
+    expect(recording.sampleRate).toBe(RECORDING_SAMPLE_RATE);
+  });
+
+  it('places replies at the time they played and starts a new stretch after a pause', () => {
+    const { now, advance } = clock();
+    const recorder = createSessionRecorder(AppMode.TRANSLATE, now);
+    advance(6000);
+    recorder.addOutput(played(1, 1000));
+    recorder.addOutput(played(0.5, 2000));
+    recorder.addOutput(played(0.5, 5000));
+
+    const { output, duration } = recorder.finish('s1')!;
+    expect(output.map(s => s.offset)).toEqual([RECORDING_SAMPLE_RATE, 5 * RECORDING_SAMPLE_RATE]);
+    expect(output[0].pcm.byteLength).toBe(1.5 * RECORDING_SAMPLE_RATE * 2);
+    expect(duration).toBe(5.5);
+  });
+
+  it('records sped-up replies at the length they played for', () => {
+    const recorder = createSessionRecorder(AppMode.TRANSLATE, clock().now);
+    recorder.addOutput(played(1, 0, 2));
+    const { output } = recorder.finish('s1')!;
+    // Half a second, less the resampler's lookahead.
+    expect(output[0].pcm.byteLength / 2).toBeGreaterThan(0.49 * RECORDING_SAMPLE_RATE);
+    expect(output[0].pcm.byteLength / 2).toBeLessThanOrEqual(0.5 * RECORDING_SAMPLE_RATE);
+  });
+});
+
+describe('renderRecording', () => {
+  it('puts the microphone left and the translator right in stereo', () => {
+    const { now, advance } = clock();
+    const recorder = createSessionRecorder(AppMode.TRANSLATE, now);
+    for (let i = 0; i < 10; i++) {
+      advance(100);
+      recorder.addInput(micChunk());
+    }
+    advance(1000);
+    recorder.addOutput(played(1, 1000));
+    const recording = recorder.finish('s1')!;
+    const frames = Math.round(recording.duration * RECORDING_SAMPLE_RATE);
+
+    const stereo = new DataView(renderRecording(recording, 'stereo'));
+    expect(stereo.getUint16(22, true)).toBe(2);
+    expect(stereo.getUint32(40, true)).toBe(frames * 4);
+    const sample = (frame: number, channel: number) => stereo.getInt16(44 + frame * 4 + channel * 2, true);
+    const loudest = (from: number, to: number, channel: number) =>
+      Math.max(...Array.from({ length: to - from }, (_, i) => Math.abs(sample(from + i, channel))));
+    expect(loudest(1000, 2000, 0)).toBeGreaterThan(10000);
+    expect(loudest(1000, 2000, 1)).toBe(0);
+    expect(loudest(frames - 2000, frames - 1000, 0)).toBe(0);
+    expect(loudest(frames - 2000, frames - 1000, 1)).toBeGreaterThan(10000);
+
+    const mixed = new DataView(renderRecording(recording, 'mixed'));
+    expect(mixed.getUint16(22, true)).toBe(1);
+    expect(mixed.getUint32(40, true)).toBe(frames * 2);
+  });
+});
+
+describe('recordingCaptions', () => {
+  it('times lines from the start of the recording and leaves out earlier ones', () => {
+    const { now, advance } = clock();
+    const recorder = createSessionRecorder(AppMode.TRANSLATE, now);
+    advance(5000);
+    recorder.addOutput(played(1, 4000));
+    const recording = recorder.finish('s1')!;
+    const entry = (text: string, offsetMs: number): TranscriptionEntry => ({
+      id: text, speaker: 'model', text, timestamp: new Date(START + offsetMs), mode: AppMode.TRANSLATE,
+    });
+
+    const vtt = recordingCaptions(recording, [entry('Before', -60000), entry('Magandang umaga', 6000)]);
+    expect(vtt).not.toContain('Before');
+    expect(vtt).toContain('00:00:06.000 --> ');
+    expect(vtt).toContain('Magandang umaga');
+  });
+});
@@ -0,0 +1,172 @@
+import { AppMode, TranscriptionEntry } from '../types';
+import { INPUT_SAMPLE_RATE, chunkToFloat32, createResampler, encodeWav, floatTo16BitPCM, Resampler } from './audio-helpers';
+import { openDatabase, promisifyRequest, promisifyTransaction, STORES } from './db';
+import type { PlayedClip } from './playback';
+import { ExportedFile, fileBaseName, toWebVtt } from './transcript-export';
+import { AudioChunk } from './translation-provider';
+
+/**
+ * Opt-in audio record of a live session: the mic audio that was sent and the
+ * replies as they were played, laid on one wall-clock timeline at 24 kHz. Only
+ * the stretches with sound are stored; silence is filled in on export.
+ */
+
+export const RECORDING_SAMPLE_RATE = 24000;
+
+// Arrival jitter below this is treated as continuous audio rather than a gap.
+const GAP_TOLERANCE_SECONDS = 0.25;
+// Turns are stamped when they complete, so a reply can land just after the recording ends.
+const CAPTION_SLACK_MS = 5000;
+
+export type RecordingLayout = 'mixed' | 'stereo';
+
+interface RecordedSegment {
+  // Start, in samples from the beginning of the recording.
+  offset: number;
+  // Little-endian Int16 mono PCM at RECORDING_SAMPLE_RATE.
+  pcm: ArrayBuffer;
+}
+
+export interface SessionRecording {
+  id: string;
+  sessionId: string;
+  mode: AppMode;
+  startedAt: Date;
+  // Seconds.
+  duration: number;
+  sampleRate: number;
+  input: RecordedSegment[];
+  output: RecordedSegment[];
+}
+
+interface Track {
+  resample: Resampler;
+  // Rate the resampler reads; played speech runs at its sample rate times its speed.
+  inputRate: number;
+  segments: { offset: number, parts: Int16Array[], length: number }[];
+  cursor: number;
+}
+
+export interface SessionRecorder {
+  mode: AppMode;
+  startedAt: Date;
+  addInput: (chunk: AudioChunk) => void;
+  // Reply audio, placed at the time the playback manager played it.
+  addOutput: (clip: PlayedClip) => void;
+  seconds: () => number;
+  // Null when nothing was heard or said.
+  finish: (sessionId: string) => SessionRecording | null;
+}
+
+const createTrack = (inputRate: number): Track =>
+  ({ resample: createResampler(inputRate, RECORDING_SAMPLE_RATE), inputRate, segments: [], cursor: 0 });
+
+export function createSessionRecorder(mode: AppMode, now = Date.now): SessionRecorder {
+  const startedAt = now();
+  const tolerance = GAP_TOLERANCE_SECONDS * RECORDING_SAMPLE_RATE;
+  const input = createTrack(INPUT_SAMPLE_RATE);
+  const output = createTrack(RECORDING_SAMPLE_RATE);
+
+  const samplesSince = (time: number) => Math.round(((time - startedAt) / 1000) * RECORDING_SAMPLE_RATE);
+
+  // Audio follows on from the track's previous audio unless it starts noticeably
+  // later. Mic audio has no start time of its own, so it ends when it arrived.
+  const place = (track: Track, samples: Float32Array, start?: number) => {
+    const pcm = floatTo16BitPCM(track.resample(samples));
+    if (pcm.length === 0) return;
+    const at = start ?? samplesSince(now()) - pcm.length;
+    const last = track.segments[track.segments.length - 1];
+    if (last && at <= track.cursor + tolerance) {
+      last.parts.push(pcm);
+      last.length += pcm.length;
+    } else {
+      const offset = Math.max(track.cursor, at);
+      track.segments.push({ offset, parts: [pcm], length: pcm.length });
+    }
+    const current = track.segments[track.segments.length - 1];
+    track.cursor = current.offset + current.length;
+  };
+
+  const flatten = (track: Track): RecordedSegment[] => track.segments.map(({ offset, parts, length }) => {
+    const pcm = new Int16Array(length);
+    let at = 0;
+    parts.forEach(part => { pcm.set(part, at); at += part.length; });
+    return { offset, pcm: pcm.buffer };
+  });
+
+  return {
+    mode,
+    startedAt: new Date(startedAt),
+    addInput: (chunk) => place(input, chunkToFloat32(chunk)),
+    addOutput(clip) {
+      const inputRate = clip.sampleRate * clip.rate;
+      if (inputRate !== output.inputRate) {
+        output.resample = createResampler(inputRate, RECORDING_SAMPLE_RATE);
+        output.inputRate = inputRate;
+      }
+      place(output, clip.samples, samplesSince(clip.startedAt));
+    },
+    seconds: () => Math.max(input.cursor, output.cursor) / RECORDING_SAMPLE_RATE,
+    finish(sessionId) {
+      const length = Math.max(input.cursor, output.cursor);
+      if (length === 0) return null;
+      return {
+        id: Math.random().toString(36).substr(2, 9),
+        sessionId,
+        mode,
+        startedAt: new Date(startedAt),
+        duration: length / RECORDING_SAMPLE_RATE,
+        sampleRate: RECORDING_SAMPLE_RATE,
+        input: flatten(input),
+        output: flatten(output),
+      };
+    },
+  };
+}
+
+function renderTrack(segments: RecordedSegment[], length: number): Float32Array {
+  const out = new Float32Array(length);
+  for (const { offset, pcm } of segments) {
+    const samples = new Int16Array(pcm);
+    for (let i = 0; i < samples.length && offset + i < length; i++) out[offset + i] = samples[i] / 32768;
+  }
+  return out;
+}
+
+/** Mixed is one mono track; stereo puts the microphone left and the translator's voice right. */
+export function renderRecording(recording: SessionRecording, layout: RecordingLayout): ArrayBuffer {
+  const length = Math.round(recording.duration * recording.sampleRate);
+  const input = renderTrack(recording.input, length);
+  const output = renderTrack(recording.output, length);
+  if (layout === 'stereo') return encodeWav([input, output], recording.sampleRate);
+  for (let i = 0; i < length; i++) input[i] += output[i];
+  return encodeWav([input], recording.sampleRate);
+}
+
+/** Transcript lines spoken while the recording ran, on the recording's own clock. */
+export function recordingCaptions(recording: SessionRecording, entries: TranscriptionEntry[]): string {
+  const start = recording.startedAt.getTime();
+  const end = start + recording.duration * 1000 + CAPTION_SLACK_MS;
+  return toWebVtt(entries.filter(e => e.timestamp.getTime() >= start && e.timestamp.getTime() <= end), recording.startedAt);
+}
+
+export function exportRecording(recording: SessionRecording, sessionName: string, layout: RecordingLayout | 'captions', entries: TranscriptionEntry[] = []): ExportedFile {
+  const time = recording.startedAt.toTimeString().slice(0, 8).replace(/:/g, '');
+  const base = `${fileBaseName(sessionName, 'recording')}-${time}`;
+  if (layout === 'captions') return { filename: `${base}.vtt`, mimeType: 'text/vtt', content: recordingCaptions(recording, entries) };
+  return { filename: `${base}${layout === 'stereo' ? '-stereo' : ''}.wav`, mimeType: 'audio/wav', content: renderRecording(recording, layout) };
+}
+
+export async function saveRecording(recording: SessionRecording): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.RECORDINGS, 'readwrite');
+  tx.objectStore(STORES.RECORDINGS).put(recording);
+  await promisifyTransaction(tx);
+}
+
+export async function getSessionRecordings(sessionId: string): Promise<SessionRecording[]> {
+  const db = await openDatabase();
+  const index = db.transaction(STORES.RECORDINGS, 'readonly').objectStore(STORES.RECORDINGS).index('sessionId');
+  const recordings = await promisifyRequest<SessionRecording[]>(index.getAll(sessionId));
+  return recordings.sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+}
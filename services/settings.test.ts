@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { Formality, LanguagePair } from '../types';
+import { buildRegisterPrompt } from './languages';
+import { DEFAULT_SESSION_SETTINGS, buildAudioConstraints, buildPacePrompt } from './settings';
+
+const pair: LanguagePair = { source: 'en', target: 'fil', autoDetect: true };
+
+describe('buildAudioConstraints', () => {
+  it('passes the processing toggles through and prefers the saved device', () => {
+    expect(buildAudioConstraints(DEFAULT_SESSION_SETTINGS)).toEqual({
+      deviceId: undefined, echoCancellation: true, noiseSuppression: true, autoGainControl: true,
+    });
+    const custom = buildAudioConstraints({ ...DEFAULT_SESSION_SETTINGS, microphoneId: 'usb-1', noiseSuppression: false });
+    expect(custom.deviceId).toEqual({ ideal: 'usb-1' });
+    expect(custom.noiseSuppression).toBe(false);
+  });
+});
+
+describe('buildRegisterPrompt', () => {
+  it('escalates from casual to formal', () => {
+    expect(buildRegisterPrompt(pair, Formality.CASUAL)).toMatch(/casual/);
+    expect(buildRegisterPrompt(pair, Formality.NEUTRAL)).toMatch(/neutral/);
+    expect(buildRegisterPrompt(pair, Formality.POLITE)).toContain('"po"');
+    const formal = buildRegisterPrompt(pair, Formality.FORMAL);
+    expect(formal).toContain('"po"');
+    expect(formal).toMatch(/formal, deferential/);
+  });
+});
+
+describe('buildPacePrompt', () => {
+  it('asks for slower delivery below normal speed', () => {
+    expect(buildPacePrompt(0.85)).toMatch(/slowly/);
+    expect(buildPacePrompt(1)).toMatch(/naturally/);
+  });
+});
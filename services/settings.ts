@@ -0,0 +1,87 @@
+import { Formality, SessionSettings } from '../types';
+import { loadPreference, savePreference } from './preferences';
+
+export const PREBUILT_VOICES: { name: string, description: string }[] = [
+  { name: 'Kore', description: 'Firm' },
+  { name: 'Aoede', description: 'Breezy' },
+  { name: 'Leda', description: 'Youthful' },
+  { name: 'Zephyr', description: 'Bright' },
+  { name: 'Puck', description: 'Upbeat' },
+  { name: 'Charon', description: 'Informative' },
+  { name: 'Fenrir', description: 'Excitable' },
+  { name: 'Orus', description: 'Firm' },
+];
+
+export const FORMALITY_LEVELS: { level: Formality, label: string }[] = [
+  { level: Formality.CASUAL, label: 'Casual' },
+  { level: Formality.NEUTRAL, label: 'Neutral' },
+  { level: Formality.POLITE, label: 'Polite' },
+  { level: Formality.FORMAL, label: 'Formal' },
+];
+
+// Beyond this range the pitch shift of faster/slower playback gets distracting.
+export const MIN_SPEECH_RATE = 0.8;
+export const MAX_SPEECH_RATE = 1.25;
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  voiceName: 'Kore',
+  model: '',
+  microphoneId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  speechRate: 1,
+  playbackVolume: 1,
+  bargeIn: false,
+  formality: Formality.CASUAL,
+  recordAudio: false,
+};
+
+const SETTINGS_KEY = 'settings';
+
+export function loadSessionSettings(): SessionSettings {
+  const settings = loadPreference(SETTINGS_KEY, DEFAULT_SESSION_SETTINGS);
+  return {
+    ...settings,
+    speechRate: Math.min(MAX_SPEECH_RATE, Math.max(MIN_SPEECH_RATE, Number(settings.speechRate) || 1)),
+    playbackVolume: Number.isFinite(settings.playbackVolume) ? Math.min(1, Math.max(0, settings.playbackVolume)) : 1,
+    formality: Object.values(Formality).includes(settings.formality) ? settings.formality : DEFAULT_SESSION_SETTINGS.formality,
+  };
+}
+
+export function saveSessionSettings(settings: SessionSettings) {
+  savePreference(SETTINGS_KEY, settings);
+}
+
+/**
+ * Microphone constraints for getUserMedia. The device id is only preferred,
+ * so a saved microphone that has been unplugged falls back to the default.
+ */
+export function buildAudioConstraints(settings: SessionSettings): MediaTrackConstraints {
+  return {
+    deviceId: settings.microphoneId ? { ideal: settings.microphoneId } : undefined,
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+  };
+}
+
+/** Pacing hint for the model, matched to the playback speed the user chose. */
+export function buildPacePrompt(speechRate: number): string {
+  if (speechRate < 1) return 'Speak slowly and clearly.';
+  return 'Speak naturally and quickly.';
+}
+
+export interface MicrophoneOption {
+  deviceId: string;
+  label: string;
+}
+
+// Labels stay empty until the page has been granted microphone access once.
+export async function listMicrophones(): Promise<MicrophoneOption[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(d => d.kind === 'audioinput' && d.deviceId && d.deviceId !== 'default')
+    .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Microphone ${i + 1}` }));
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { AppMode, TranscriptionEntry } from '../types';
+import { TranscriptDocument, parseTranscriptJson, toBilingualCsv, toSrt, toTranscriptJson, toWebVtt } from './transcript-export';
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 2, 10, 9, 0, seconds));
+
+const entry = (speaker: 'user' | 'model', text: string, seconds: number, extra: Partial<TranscriptionEntry> = {}): TranscriptionEntry => ({
+  id: `${speaker}-${seconds}`, speaker, text, timestamp: at(seconds), mode: AppMode.TRANSLATE, ...extra,
+});
+
+describe('toSrt', () => {
+  it('numbers cues and times them from the first entry', () => {
+    const srt = toSrt([entry('user', 'Masakit ang ulo ko', 0), entry('model', 'My head hurts', 2)]);
+    expect(srt).toBe(
+      '1\n00:00:00,000 --> 00:00:01,600\nYou: Masakit ang ulo ko\n\n'
+      + '2\n00:00:02,000 --> 00:00:03,200\nSalin: My head hurts\n'
+    );
+  });
+
+  it('pushes a cue back when the previous one is still showing', () => {
+    const long = 'one two three four five six seven eight nine ten';
+    const srt = toSrt([entry('user', long, 0), entry('model', 'Okay', 1)]);
+    expect(srt).toContain('2\n00:00:04,000 --> 00:00:05,200\n');
+  });
+
+  it('keeps blank lines and arrows from breaking a cue', () => {
+    const srt = toSrt([entry('user', 'First line\n\n\nsecond --> third', 0)]);
+    expect(srt).toBe('1\n00:00:00,000 --> 00:00:02,000\nYou: First line\nsecond → third\n');
+  });
+});
+
+describe('toWebVtt', () => {
+  it('escapes entities in text and speaker labels', () => {
+    const vtt = toWebVtt([entry('user', 'Salt & <pepper>', 0, { participant: { id: 'A', name: 'Nurse > Ana' } })]);
+    expect(vtt).toBe('WEBVTT\n\n00:00:00.000 --> 00:00:01.200\n<v Nurse &gt; Ana>Salt &amp; &lt;pepper&gt;\n');
+  });
+
+  it('offsets cues from a given start, e.g. a recording', () => {
+    const vtt = toWebVtt([entry('model', 'Hello', 65)], at(0));
+    expect(vtt).toContain('00:01:05.000 --> 00:01:06.200\n<v Salin>Hello');
+  });
+});
+
+describe('toBilingualCsv', () => {
+  it('pairs replies with their source and quotes cells that need it', () => {
+    const csv = toBilingualCsv([
+      entry('model', 'Welcome', 0),
+      entry('user', 'Sabi niya, "oo"', 1),
+      entry('model', 'She said "yes"', 2),
+      entry('model', 'Line\nbreak', 3),
+    ]);
+    expect(csv).toBe(
+      '\uFEFFTime,Source,Translation\r\n'
+      + `${at(0).toISOString()},,Welcome\r\n`
+      + `${at(1).toISOString()},"Sabi niya, ""oo""","She said ""yes"" Line\nbreak"\r\n`
+    );
+  });
+});
+
+describe('transcript JSON', () => {
+  const doc: TranscriptDocument = {
+    session: { name: 'Clinic visit', mode: AppMode.TRANSLATE, startedAt: at(0), endedAt: at(5) },
+    entries: [
+      entry('user', 'Masakit ang ulo ko', 1, { language: 'fil', mood: 'sad', participant: { id: 'A', name: 'Patient' } }),
+      entry('model', 'My head hurts', 2, { language: 'en', hasAudio: true }),
+    ],
+  };
+
+  it('reads back what it exported', () => {
+    expect(parseTranscriptJson(toTranscriptJson(doc))).toEqual(doc);
+  });
+
+  it('fills in defaults for older or hand-edited files', () => {
+    const parsed = parseTranscriptJson(JSON.stringify({
+      format: 'salin-transcript', version: 1,
+      session: { mode: 'UNKNOWN', startedAt: at(0).toISOString() },
+      entries: [{ speaker: 'user', text: 'Hi', timestamp: at(1).toISOString() }],
+    }));
+    expect(parsed.session).toEqual({ name: 'Imported conversation', mode: AppMode.TRANSLATE, startedAt: at(0), endedAt: undefined });
+    expect(parsed.entries).toEqual([{ id: '1', speaker: 'user', text: 'Hi', timestamp: at(1), mode: AppMode.TRANSLATE }]);
+  });
+
+  it('rejects files it cannot import', () => {
+    expect(() => parseTranscriptJson('{')).toThrow('not valid JSON');
+    expect(() => parseTranscriptJson('[]')).toThrow('not a Salin transcript');
+    expect(() => parseTranscriptJson(JSON.stringify({ format: 'salin-transcript', version: 99, session: {}, entries: [] }))).toThrow('newer version');
+    const bad = { format: 'salin-transcript', version: 1, session: { startedAt: at(0) }, entries: [{ speaker: 'robot', text: 'x' }] };
+    expect(() => parseTranscriptJson(JSON.stringify(bad))).toThrow('Entry 1 is malformed');
+    const badDate = { ...bad, entries: [{ speaker: 'user', text: 'x', timestamp: 'soon' }] };
+    expect(() => parseTranscriptJson(JSON.stringify(badDate))).toThrow('entries[0].timestamp');
+  });
+});
@@ -0,0 +1,213 @@
+import { AppMode, ConversationSession, TranscriptionEntry } from '../types';
+
+export type ExportFormat = 'srt' | 'vtt' | 'txt' | 'csv' | 'json';
+
+export interface ExportedFile {
+  filename: string;
+  mimeType: string;
+  content: string | ArrayBuffer;
+}
+
+export interface TranscriptDocument {
+  session: Pick<ConversationSession, 'name' | 'mode' | 'startedAt' | 'endedAt'>;
+  entries: TranscriptionEntry[];
+}
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'srt', label: 'SRT' },
+  { format: 'vtt', label: 'WebVTT' },
+  { format: 'txt', label: 'Text' },
+  { format: 'csv', label: 'Bilingual CSV' },
+  { format: 'json', label: 'JSON' },
+];
+
+const TRANSCRIPT_FORMAT_ID = 'salin-transcript';
+const TRANSCRIPT_FORMAT_VERSION = 1;
+
+// Speech rate used to estimate how long a line stays on screen.
+const WORDS_PER_SECOND = 2.5;
+const MIN_CUE_MS = 1200;
+const MAX_CUE_MS = 10000;
+
+interface Cue {
+  start: number;
+  end: number;
+  entry: TranscriptionEntry;
+}
+
+const speakerLabel = (entry: TranscriptionEntry) => (entry.speaker === 'user' ? entry.participant?.name || 'You' : 'Salin');
+
+/**
+ * Entries only carry the time a turn completed, so cues are laid out on a
+ * relative timeline: each one starts at its timestamp (or right after the
+ * previous cue, whichever is later) and lasts for an estimate based on its
+ * word count. The timeline starts at the first entry unless `start` is given,
+ * e.g. to line captions up with a session recording.
+ */
+export function buildCues(entries: TranscriptionEntry[], start?: Date): Cue[] {
+  if (entries.length === 0) return [];
+  const origin = (start || entries[0].timestamp).getTime();
+  const cues: Cue[] = [];
+  let cursor = 0;
+  for (const entry of entries) {
+    const words = entry.text.split(/\s+/).filter(Boolean).length;
+    const duration = Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, (words / WORDS_PER_SECOND) * 1000));
+    const at = Math.max(entry.timestamp.getTime() - origin, cursor);
+    cursor = at + duration;
+    cues.push({ start: at, end: cursor, entry });
+  }
+  return cues;
+}
+
+function formatCueTime(ms: number, separator: ',' | '.'): string {
+  const pad = (n: number, width = 2) => String(Math.floor(n)).padStart(width, '0');
+  const hours = ms / 3600000;
+  const minutes = (ms % 3600000) / 60000;
+  const seconds = (ms % 60000) / 1000;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+// A blank line ends a cue and "-->" starts a timing line, so neither may appear inside one.
+const cueText = (text: string) => text
+  .replace(/\r\n?/g, '\n')
+  .split('\n').map(line => line.trim()).filter(Boolean).join('\n')
+  .replace(/-{2,}>/g, '→');
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function toSrt(entries: TranscriptionEntry[]): string {
+  return buildCues(entries)
+    .map((cue, i) => `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cueText(`${speakerLabel(cue.entry)}: ${cue.entry.text}`)}\n`)
+    .join('\n');
+}
+
+export function toWebVtt(entries: TranscriptionEntry[], start?: Date): string {
+  const cues = buildCues(entries, start)
+    .map(cue => {
+      const voice = escapeVtt(cueText(speakerLabel(cue.entry)).replace(/\n/g, ' '));
+      return `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n<v ${voice}>${escapeVtt(cueText(cue.entry.text))}\n`;
+    })
+    .join('\n');
+  return `WEBVTT\n\n${cues}`;
+}
+
+export function toPlainText(doc: TranscriptDocument): string {
+  const header = `${doc.session.name}\n${doc.session.startedAt.toLocaleString()}\n\n`;
+  const lines = doc.entries.map(e =>
+    `[${e.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}] ${speakerLabel(e)}: ${e.text}`
+  );
+  return header + lines.join('\n') + '\n';
+}
+
+export function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * One row per user turn with the model's reply (or replies) beside it. Model
+ * lines with no preceding user turn get a row with an empty source column.
+ */
+export function toBilingualCsv(entries: TranscriptionEntry[]): string {
+  const rows: { time: Date; source: string; translation: string[] }[] = [];
+  for (const entry of entries) {
+    const last = rows[rows.length - 1];
+    if (entry.speaker === 'user' || !last) {
+      rows.push({ time: entry.timestamp, source: entry.speaker === 'user' ? entry.text : '', translation: entry.speaker === 'user' ? [] : [entry.text] });
+    } else {
+      last.translation.push(entry.text);
+    }
+  }
+  const lines = [
+    ['Time', 'Source', 'Translation'].join(','),
+    ...rows.map(r => [r.time.toISOString(), r.source, r.translation.join(' ')].map(csvCell).join(',')),
+  ];
+  // BOM so spreadsheet apps read Filipino diacritics as UTF-8.
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+export function toTranscriptJson(doc: TranscriptDocument): string {
+  return JSON.stringify({
+    format: TRANSCRIPT_FORMAT_ID,
+    version: TRANSCRIPT_FORMAT_VERSION,
+    session: doc.session,
+    entries: doc.entries,
+  }, null, 2);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export function parseTranscriptJson(text: string): TranscriptDocument {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isRecord(raw) || raw.format !== TRANSCRIPT_FORMAT_ID || !Array.isArray(raw.entries) || !isRecord(raw.session)) {
+    throw new Error('The file is not a Salin transcript export.');
+  }
+  if (typeof raw.version === 'number' && raw.version > TRANSCRIPT_FORMAT_VERSION) {
+    throw new Error('This transcript was exported by a newer version of Salin.');
+  }
+  const session = raw.session;
+
+  const toDate = (value: unknown, field: string) => {
+    const date = new Date(value as string);
+    if (isNaN(date.getTime())) throw new Error(`Invalid date in "${field}".`);
+    return date;
+  };
+  const isMode = (value: unknown): value is AppMode => Object.values(AppMode).includes(value as AppMode);
+  const mode = isMode(session.mode) ? session.mode : AppMode.TRANSLATE;
+
+  return {
+    session: {
+      name: String(session.name || 'Imported conversation'),
+      mode,
+      startedAt: toDate(session.startedAt, 'session.startedAt'),
+      endedAt: session.endedAt ? toDate(session.endedAt, 'session.endedAt') : undefined,
+    },
+    entries: raw.entries.map((e: unknown, i: number): TranscriptionEntry => {
+      if (!isRecord(e) || typeof e.text !== 'string' || (e.speaker !== 'user' && e.speaker !== 'model')) {
+        throw new Error(`Entry ${i + 1} is malformed.`);
+      }
+      // Optional fields (language, mood, participant…) come through as exported.
+      return {
+        ...(e as Partial<TranscriptionEntry>),
+        id: typeof e.id === 'string' ? e.id : String(i + 1),
+        speaker: e.speaker,
+        text: e.text,
+        timestamp: toDate(e.timestamp, `entries[${i}].timestamp`),
+        mode: isMode(e.mode) ? e.mode : mode,
+      };
+    }),
+  };
+}
+
+/** A user-given name reduced to something safe to use as a filename. */
+export function fileBaseName(name: string, fallback: string): string {
+  return name.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || fallback;
+}
+
+export function exportTranscript(format: ExportFormat, doc: TranscriptDocument): ExportedFile {
+  const base = fileBaseName(doc.session.name, 'transcript');
+  switch (format) {
+    case 'srt': return { filename: `${base}.srt`, mimeType: 'application/x-subrip', content: toSrt(doc.entries) };
+    case 'vtt': return { filename: `${base}.vtt`, mimeType: 'text/vtt', content: toWebVtt(doc.entries) };
+    case 'txt': return { filename: `${base}.txt`, mimeType: 'text/plain', content: toPlainText(doc) };
+    case 'csv': return { filename: `${base}.csv`, mimeType: 'text/csv', content: toBilingualCsv(doc.entries) };
+    case 'json': return { filename: `${base}.json`, mimeType: 'application/json', content: toTranscriptJson(doc) };
+  }
+}
+
+export function downloadFile(file: ExportedFile) {
+  const type = typeof file.content === 'string' ? `${file.mimeType};charset=utf-8` : file.mimeType;
+  const url = URL.createObjectURL(new Blob([file.content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,73 @@
+/**
+ * Backend-neutral contract for a live speech-to-speech session. App code only
+ * talks to these types; each backend (Gemini Live, the scripted mock, ...)
+ * adapts its own wire format to them.
+ */
+
+export interface AudioChunk {
+  // Base64 encoded little-endian Int16 PCM.
+  data: string;
+  mimeType: string;
+}
+
+export interface ProviderSessionConfig {
+  systemInstruction: string;
+  voiceName: string;
+  // Overrides the provider's default live model.
+  model?: string;
+}
+
+export interface TextTranslationRequest {
+  systemInstruction: string;
+  text: string;
+  voiceName: string;
+  // Also synthesise the reply as speech.
+  speak: boolean;
+}
+
+export interface TextTranslationResult {
+  text: string;
+  // Base64 PCM at the provider's outputSampleRate, when speech was requested.
+  audio?: string;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voiceName: string;
+  // Ask for slow, clearly separated delivery.
+  slow?: boolean;
+}
+
+export interface TranslationProviderEvents {
+  onOpen: () => void;
+  // Base64 PCM at the provider's outputSampleRate.
+  onAudio: (base64Pcm: string) => void;
+  onInputTranscript: (text: string) => void;
+  onOutputTranscript: (text: string) => void;
+  onTurnComplete: () => void;
+  // The backend stopped its current reply, usually because the user spoke over it.
+  onInterrupted: () => void;
+  onError: (error: Error) => void;
+  onClose: () => void;
+}
+
+export interface TranslationSession {
+  sendAudio: (chunk: AudioChunk) => void;
+  // The mic was gated closed; lets the backend end the user's turn without waiting for silence.
+  endAudioStream: () => void;
+  // A typed message, answered like a spoken turn (no input transcript is emitted for it).
+  sendText: (text: string) => void;
+  close: () => void;
+}
+
+export interface TranslationProvider {
+  id: string;
+  label: string;
+  requiresNetwork: boolean;
+  outputSampleRate: number;
+  connect: (config: ProviderSessionConfig, events: TranslationProviderEvents) => Promise<TranslationSession>;
+  // One-shot text request for when no live session is open.
+  translateText: (request: TextTranslationRequest) => Promise<TextTranslationResult>;
+  // Base64 PCM at outputSampleRate for text that is already translated.
+  synthesizeSpeech: (request: SpeechRequest) => Promise<string>;
+}
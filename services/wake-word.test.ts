@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import { INPUT_SAMPLE_RATE } from './audio-helpers';
+import { createUtteranceSegmenter, createWakeWordDetector, dtwDistance, extractFeatures, WakeWordModel } from './wake-word';
+
+const silence = (seconds: number) => new Float32Array(Math.round(seconds * INPUT_SAMPLE_RATE));
+
+// A two-syllable stand-in for a spoken word: a pitch glide with a formant-like overtone.
+function word(seconds: number, fromHz: number, toHz: number, gain = 0.3): Float32Array {
+  const out = new Float32Array(Math.round(seconds * INPUT_SAMPLE_RATE));
+  let phase = 0;
+  for (let i = 0; i < out.length; i++) {
+    const t = i / out.length;
+    phase += (2 * Math.PI * (fromHz + (toHz - fromHz) * t)) / INPUT_SAMPLE_RATE;
+    const envelope = Math.pow(Math.sin(Math.PI * 2 * t), 2);
+    out[i] = gain * envelope * (Math.sin(phase) + 0.4 * Math.sin(3 * phase));
+  }
+  return out;
+}
+
+function noise(seconds: number, gain = 0.3): Float32Array {
+  let seed = 7;
+  return Float32Array.from({ length: Math.round(seconds * INPUT_SAMPLE_RATE) }, () => {
+    seed = (seed * 16807) % 2147483647;
+    return gain * ((seed / 2147483647) * 2 - 1);
+  });
+}
+
+const concat = (...parts: Float32Array[]) => {
+  const out = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+};
+
+// Feed in capture-sized pieces, like the live stream.
+const feed = (target: { push: (s: Float32Array) => void }, samples: Float32Array) => {
+  for (let i = 0; i < samples.length; i += 2048) target.push(samples.subarray(i, i + 2048));
+};
+
+describe('extractFeatures / dtwDistance', () => {
+  it('produces 12 mean-normalised coefficients per 10 ms frame', () => {
+    const features = extractFeatures(word(0.5, 200, 400));
+    expect(features.length).toBe(48);
+    expect(features[0]).toHaveLength(12);
+    const meanC1 = features.reduce((sum, f) => sum + f[0], 0) / features.length;
+    expect(Math.abs(meanC1)).toBeLessThan(1e-9);
+  });
+
+  it('scores a sequence against itself as zero and different sounds higher than variants', () => {
+    const a = extractFeatures(word(0.5, 200, 400));
+    const variant = extractFeatures(word(0.6, 210, 410, 0.2));
+    const other = extractFeatures(noise(0.5));
+    expect(dtwDistance(a, a)).toBe(0);
+    expect(dtwDistance(a, variant)).toBeLessThan(dtwDistance(a, other));
+  });
+});
+
+describe('createUtteranceSegmenter', () => {
+  it('reports word-length bursts and ignores clicks and long speech', () => {
+    const onUtterance = vi.fn();
+    const segmenter = createUtteranceSegmenter(0.02, onUtterance);
+    feed(segmenter, concat(silence(0.5), word(0.05, 300, 300), silence(0.5), word(0.5, 200, 400), silence(0.5), word(4, 200, 400), silence(0.5)));
+    expect(onUtterance).toHaveBeenCalledTimes(1);
+    expect(onUtterance.mock.calls[0][0].length / INPUT_SAMPLE_RATE).toBeGreaterThan(0.5);
+  });
+});
+
+describe('createWakeWordDetector', () => {
+  // Enrol the way the setup screen does: through the segmenter, padding included.
+  const templates: Float32Array[] = [];
+  const enrolment = createUtteranceSegmenter(0.02, (u) => templates.push(u));
+  [word(0.5, 200, 400), word(0.55, 190, 390), word(0.45, 205, 420)].forEach(w => feed(enrolment, concat(silence(0.4), w, silence(0.5))));
+  const model: WakeWordModel = { word: 'Salin', templates: templates.map(extractFeatures) };
+
+  it('wakes on the trained word but not on other sounds', () => {
+    const onWake = vi.fn();
+    const detector = createWakeWordDetector(model, { level: 0.02, onWake });
+    feed(detector, concat(silence(0.3), noise(0.5), silence(0.5), word(0.9, 900, 300), silence(0.5)));
+    expect(onWake).not.toHaveBeenCalled();
+
+    feed(detector, concat(word(0.5, 195, 405, 0.25), silence(0.5)));
+    expect(onWake).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,266 @@
+import { StandbySettings } from '../types';
+import { INPUT_SAMPLE_RATE } from './audio-helpers';
+import { getMeta, setMeta } from './db';
+
+/**
+ * On-device keyword spotting for waking a napping session. The user records
+ * the wake word a few times; each recording is reduced to a normalised MFCC
+ * sequence and later utterances are compared against them with dynamic time
+ * warping. Nothing leaves the device while Salin is asleep.
+ */
+
+export type FeatureSequence = number[][];
+
+export interface WakeWordModel {
+  word: string;
+  templates: FeatureSequence[];
+}
+
+const FRAME_LENGTH = 400; // 25 ms at 16 kHz
+const FRAME_HOP = 160; // 10 ms
+const FFT_SIZE = 512;
+const MEL_BANDS = 26;
+const CEPSTRA = 12;
+
+const SEGMENT_FRAME = 160;
+// Trailing silence that ends an utterance, in segment frames.
+const END_SILENCE_FRAMES = 25;
+const PRE_PAD_FRAMES = 10;
+const MIN_UTTERANCE_SECONDS = 0.25;
+const MAX_UTTERANCE_SECONDS = 1.6;
+
+export const DEFAULT_STANDBY_SETTINGS: StandbySettings = {
+  napAfterSeconds: 120,
+  wakeSensitivity: 0.5,
+};
+
+export const WAKE_WORD_SAMPLES = 3;
+const MODEL_KEY = 'wakeWord';
+
+export async function loadWakeWordModel(): Promise<WakeWordModel | null> {
+  return (await getMeta<WakeWordModel>(MODEL_KEY)) || null;
+}
+
+// Pass null to forget the trained word.
+export function saveWakeWordModel(model: WakeWordModel | null): Promise<void> {
+  return setMeta(MODEL_KEY, model);
+}
+
+function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b] * cos - im[b] * sin;
+        const ti = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
+
+const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const fromMel = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+let melFilters: Float64Array[] | null = null;
+
+function getMelFilters(): Float64Array[] {
+  if (melFilters) return melFilters;
+  const bins = FFT_SIZE / 2 + 1;
+  const low = toMel(60);
+  const high = toMel(7600);
+  const points = Array.from({ length: MEL_BANDS + 2 }, (_, i) =>
+    Math.floor(((FFT_SIZE + 1) * fromMel(low + ((high - low) * i) / (MEL_BANDS + 1))) / INPUT_SAMPLE_RATE));
+  melFilters = [];
+  for (let m = 1; m <= MEL_BANDS; m++) {
+    const filter = new Float64Array(bins);
+    for (let k = points[m - 1]; k < points[m]; k++) filter[k] = (k - points[m - 1]) / Math.max(1, points[m] - points[m - 1]);
+    for (let k = points[m]; k < points[m + 1]; k++) filter[k] = (points[m + 1] - k) / Math.max(1, points[m + 1] - points[m]);
+    melFilters.push(filter);
+  }
+  return melFilters;
+}
+
+/** MFCCs (c1..c12) per 10 ms frame with the per-utterance mean removed. */
+export function extractFeatures(samples: Float32Array): FeatureSequence {
+  const filters = getMelFilters();
+  const frames: number[][] = [];
+
+  for (let start = 0; start + FRAME_LENGTH <= samples.length; start += FRAME_HOP) {
+    const re = new Float64Array(FFT_SIZE);
+    const im = new Float64Array(FFT_SIZE);
+    for (let i = 0; i < FRAME_LENGTH; i++) {
+      const prev = start + i > 0 ? samples[start + i - 1] : 0;
+      const hamming = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (FRAME_LENGTH - 1));
+      re[i] = (samples[start + i] - 0.97 * prev) * hamming;
+    }
+    fft(re, im);
+
+    const energies = filters.map(filter => {
+      let sum = 0;
+      for (let k = 0; k < filter.length; k++) if (filter[k]) sum += filter[k] * (re[k] * re[k] + im[k] * im[k]);
+      return Math.log(sum + 1e-10);
+    });
+    const cepstra: number[] = [];
+    for (let c = 1; c <= CEPSTRA; c++) {
+      let sum = 0;
+      for (let m = 0; m < MEL_BANDS; m++) sum += energies[m] * Math.cos((Math.PI * c * (m + 0.5)) / MEL_BANDS);
+      cepstra.push(sum);
+    }
+    frames.push(cepstra);
+  }
+
+  if (frames.length === 0) return frames;
+  const mean = new Array(CEPSTRA).fill(0);
+  frames.forEach(f => f.forEach((v, i) => { mean[i] += v / frames.length; }));
+  return frames.map(f => f.map((v, i) => v - mean[i]));
+}
+
+/** Length-normalised DTW distance between two feature sequences. */
+export function dtwDistance(a: FeatureSequence, b: FeatureSequence): number {
+  if (a.length === 0 || b.length === 0) return Infinity;
+  const frameDistance = (x: number[], y: number[]) => {
+    let sum = 0;
+    for (let i = 0; i < x.length; i++) sum += (x[i] - y[i]) * (x[i] - y[i]);
+    return Math.sqrt(sum);
+  };
+
+  let prev = new Float64Array(b.length + 1).fill(Infinity);
+  prev[0] = 0;
+  for (let i = 1; i <= a.length; i++) {
+    const row = new Float64Array(b.length + 1).fill(Infinity);
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = frameDistance(a[i - 1], b[j - 1]) + Math.min(prev[j], row[j - 1], prev[j - 1]);
+    }
+    prev = row;
+  }
+  return prev[b.length] / (a.length + b.length);
+}
+
+/**
+ * Acceptance threshold for a model: the spread between the user's own
+ * recordings, widened by `sensitivity` (0–1). Higher wakes more easily.
+ */
+export function getMatchThreshold(model: WakeWordModel, sensitivity = 0.5): number {
+  const { templates } = model;
+  let spread = 0;
+  for (let i = 0; i < templates.length; i++) {
+    for (let j = i + 1; j < templates.length; j++) spread = Math.max(spread, dtwDistance(templates[i], templates[j]));
+  }
+  // A single recording gives no spread to calibrate from.
+  if (spread === 0) spread = 8;
+  return spread * (1 + sensitivity);
+}
+
+export interface UtteranceSegmenter {
+  push: (samples: Float32Array) => void;
+  reset: () => void;
+}
+
+/**
+ * Splits a 16 kHz stream into short bursts of sound separated by silence and
+ * reports those short enough to be a single word.
+ */
+export function createUtteranceSegmenter(level: number, onUtterance: (samples: Float32Array) => void): UtteranceSegmenter {
+  let pending = new Float32Array(0);
+  let padding: Float32Array[] = [];
+  let voiced: Float32Array[] = [];
+  let leadFrames = 0;
+  let silentFrames = 0;
+
+  const finish = () => {
+    const length = voiced.reduce((n, f) => n + f.length, 0);
+    // Judge the length without the quiet padding kept on either side.
+    const seconds = ((voiced.length - leadFrames - PRE_PAD_FRAMES) * SEGMENT_FRAME) / INPUT_SAMPLE_RATE;
+    if (seconds >= MIN_UTTERANCE_SECONDS && seconds <= MAX_UTTERANCE_SECONDS) {
+      const utterance = new Float32Array(length);
+      let offset = 0;
+      voiced.forEach(f => { utterance.set(f, offset); offset += f.length; });
+      onUtterance(utterance);
+    }
+    voiced = [];
+    silentFrames = 0;
+  };
+
+  const handleFrame = (frame: Float32Array) => {
+    let sum = 0;
+    for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+    const loud = Math.sqrt(sum / frame.length) >= level;
+
+    if (voiced.length === 0) {
+      if (loud) {
+        voiced = [...padding, frame];
+        leadFrames = padding.length;
+        padding = [];
+      } else {
+        padding.push(frame);
+        if (padding.length > PRE_PAD_FRAMES) padding.shift();
+      }
+      return;
+    }
+
+    voiced.push(frame);
+    silentFrames = loud ? 0 : silentFrames + 1;
+    if (silentFrames >= END_SILENCE_FRAMES) {
+      voiced = voiced.slice(0, voiced.length - END_SILENCE_FRAMES + PRE_PAD_FRAMES);
+      finish();
+    } else if (voiced.length * SEGMENT_FRAME > MAX_UTTERANCE_SECONDS * INPUT_SAMPLE_RATE * 2) {
+      // Continuous speech, not a lone keyword; drop it and wait for the next pause.
+      voiced = [];
+      silentFrames = 0;
+    }
+  };
+
+  return {
+    push(samples) {
+      const buffer = new Float32Array(pending.length + samples.length);
+      buffer.set(pending);
+      buffer.set(samples, pending.length);
+      let offset = 0;
+      for (; offset + SEGMENT_FRAME <= buffer.length; offset += SEGMENT_FRAME) {
+        handleFrame(buffer.slice(offset, offset + SEGMENT_FRAME));
+      }
+      pending = buffer.slice(offset);
+    },
+    reset() {
+      pending = new Float32Array(0);
+      padding = [];
+      voiced = [];
+      silentFrames = 0;
+    },
+  };
+}
+
+export interface WakeWordDetector {
+  push: (samples: Float32Array) => void;
+  reset: () => void;
+}
+
+export function createWakeWordDetector(
+  model: WakeWordModel,
+  { level, sensitivity = 0.5, onWake }: { level: number, sensitivity?: number, onWake: () => void },
+): WakeWordDetector {
+  const threshold = getMatchThreshold(model, sensitivity);
+  return createUtteranceSegmenter(level, (utterance) => {
+    const features = extractFeatures(utterance);
+    const best = Math.min(...model.templates.map(t => dtwDistance(features, t)));
+    if (best <= threshold) onWake();
+  });
+}
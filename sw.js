@@ -1,24 +1,96 @@
+// Service worker source. The build prepends `self.__SALIN_VERSION__` and
+// `self.__SALIN_PRECACHE__` (see service-worker-plugin.ts), so every release
+// gets its own cache and the hashed files it needs to boot without a network.
 
-const CACHE_NAME = 'salin-v3';
-const STATIC_ASSETS = [
-  './',
-  './index.html',
-  './metadata.json'
-];
+const VERSION = self.__SALIN_VERSION__ || 'dev';
+const PRECACHE_URLS = self.__SALIN_PRECACHE__ || [];
+const PRECACHE = `salin-precache-${VERSION}`;
+// Third-party files outlive releases. Font files are versioned by URL and served
+// from the cache; the Tailwind play CDN and the font stylesheet are not, so they
+// are served from the cache and refreshed in the background.
+const RUNTIME = 'salin-runtime';
+
+const FONT_STYLESHEET = 'https://fonts.googleapis.com/css2?family=Inter:wght@400;600;700&family=Outfit:wght@400;700&display=swap';
+const CROSS_ORIGIN_ASSETS = ['https://cdn.tailwindcss.com', FONT_STYLESHEET];
+const CACHEABLE_ORIGINS = ['https://cdn.tailwindcss.com', 'https://fonts.googleapis.com', 'https://fonts.gstatic.com'];
+const REVALIDATED_ORIGINS = ['https://cdn.tailwindcss.com', 'https://fonts.googleapis.com'];
+
+// Opaque (no-cors) responses can't go through cache.add, so fetch and put by hand.
+async function cacheCrossOrigin(cache, url) {
+  const response = await fetch(new Request(url, { mode: 'no-cors' }));
+  await cache.put(url, response);
+}
+
+async function precacheFonts(cache) {
+  const response = await fetch(FONT_STYLESHEET);
+  if (!response.ok) return;
+  await cache.put(FONT_STYLESHEET, response.clone());
+  const css = await response.text();
+  // Font files are loaded with CORS, so they must be cached as CORS responses too.
+  await cache.addAll([...css.matchAll(/url\((https:[^)]+)\)/g)].map(match => match[1]));
+}
 
 self.addEventListener('install', (event) => {
-  event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => {
-      return cache.addAll(STATIC_ASSETS);
-    })
-  );
+  event.waitUntil((async () => {
+    const precache = await caches.open(PRECACHE);
+    await precache.addAll(PRECACHE_URLS);
+    // Third-party files are best effort: a blocked CDN shouldn't stop the install.
+    const runtime = await caches.open(RUNTIME);
+    await Promise.all([
+      cacheCrossOrigin(runtime, CROSS_ORIGIN_ASSETS[0]),
+      precacheFonts(runtime),
+    ]).catch(err => console.warn('Salin: could not precache styles or fonts', err));
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith('salin-') && name !== PRECACHE && name !== RUNTIME)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// The page asks a waiting worker to take over once the user accepts the update.
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
 });
 
 self.addEventListener('fetch', (event) => {
-  // Use a Network-First strategy for application logic to ensure updates aren't blocked by SW cache
-  event.respondWith(
-    fetch(event.request).catch(() => {
-      return caches.match(event.request);
-    })
-  );
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    // Every route boots the same shell.
+    const key = request.mode === 'navigate' ? new URL('./index.html', self.location.href).href : request;
+    event.respondWith((async () => {
+      const cached = await caches.match(key, { cacheName: PRECACHE, ignoreSearch: request.mode === 'navigate' });
+      if (cached) return cached;
+      try {
+        return await fetch(request);
+      } catch (err) {
+        return (await caches.match(request)) || Response.error();
+      }
+    })());
+    return;
+  }
+
+  if (CACHEABLE_ORIGINS.includes(url.origin)) {
+    event.respondWith((async () => {
+      const cache = await caches.open(RUNTIME);
+      const cached = await cache.match(request, { ignoreVary: true });
+      const refresh = async () => {
+        const response = await fetch(request);
+        if (response.ok || response.type === 'opaque') await cache.put(request, response.clone());
+        return response;
+      };
+      if (!cached) return refresh();
+      if (REVALIDATED_ORIGINS.includes(url.origin)) event.waitUntil(refresh().catch(() => {}));
+      return cached;
+    })());
+  }
+  // Everything else (the translation API) goes straight to the network.
 });
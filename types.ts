@@ -5,6 +5,142 @@ export interface TranscriptionEntry {
   text: string;
   timestamp: Date;
   mode: AppMode;
+  // Language code (see services/languages.ts) detected for this line.
+  language?: string;
+  // Where the entry came from; live sessions omit it.
+  origin?: 'live' | 'phrasebook' | 'typed' | 'polite';
+  // Emotion cue for user turns (see services/emotion.ts).
+  mood?: Mood;
+  // Spoken audio for this line is kept in the audio store under the entry id.
+  hasAudio?: boolean;
+  // Glossary terms a model line should have used but didn't.
+  glossaryViolations?: GlossaryViolation[];
+  // Translate mode: who said a user line, or who a model line was translated for.
+  participant?: ParticipantRef;
+}
+
+// Transcript fragments of the turn in progress, before it settles into entries.
+export interface PartialTranscript {
+  input: string;
+  output: string;
+}
+
+export type PartyId = 'A' | 'B';
+
+export interface Participant {
+  id: PartyId;
+  name: string;
+  // The side of the language pair this person speaks.
+  language: string;
+}
+
+// Kept on entries so a transcript keeps the names used at the time.
+export type ParticipantRef = Pick<Participant, 'id' | 'name'>;
+
+export interface GlossaryTerm {
+  source: string;
+  target: string;
+  note?: string;
+}
+
+export interface GlossarySet {
+  id: string;
+  name: string;
+  // Language codes the terms translate between; terms apply in both directions.
+  sourceLanguage: string;
+  targetLanguage: string;
+  terms: GlossaryTerm[];
+  // Active sets are sent to the model and checked after each turn.
+  active: boolean;
+  updatedAt: Date;
+}
+
+export interface GlossaryViolation {
+  // Term found in what was said...
+  term: string;
+  // ...and the rendering the translation should have contained.
+  expected: string;
+}
+
+export interface Scenario {
+  id: string;
+  title: string;
+  // Who the model plays, e.g. "a fish vendor at a wet market".
+  persona: string;
+  // What the learner should manage to do in the conversation.
+  goals: string[];
+  // Words and phrases the learner is meant to use.
+  vocabulary: string[];
+  // Language code being practised; the persona speaks it.
+  language: string;
+  // Shipped with the app; can't be edited or deleted.
+  builtIn?: boolean;
+  updatedAt: Date;
+}
+
+export interface PracticeMistake {
+  // What the learner said.
+  said: string;
+  // A better way to say it.
+  better: string;
+  explanation: string;
+}
+
+// Coach's notes on the learner's turns in one practice session.
+export interface PracticeReport {
+  id: string;
+  // Stored conversation the practice was part of.
+  sessionId?: string;
+  scenarioId: string;
+  scenarioTitle: string;
+  language: string;
+  createdAt: Date;
+  learnerTurns: number;
+  summary: string;
+  // The scenario's goals at the time, and which of them the learner reached.
+  goals: string[];
+  goalsMet: string[];
+  mistakes: PracticeMistake[];
+  // Natural phrasing the learner could use next time.
+  suggestions: string[];
+  newWords: { word: string, meaning: string }[];
+}
+
+export interface EntryAudio {
+  entryId: string;
+  sampleRate: number;
+  // Little-endian Int16 mono PCM.
+  pcm: ArrayBuffer;
+}
+
+export type Mood = 'neutral' | 'happy' | 'sad' | 'angry' | 'surprised' | 'cool';
+
+export interface LanguageProfile {
+  code: string;
+  name: string;
+  nativeName: string;
+  // Register hint appended to the instruction when polite mode is on.
+  politeHint?: string;
+  // Frequent function words used to guess the language of a transcript.
+  markers: string[];
+}
+
+export interface LanguagePair {
+  source: string;
+  target: string;
+  // Translate in both directions based on what is heard, rather than only source → target.
+  autoDetect: boolean;
+}
+
+export interface ConversationSession {
+  id: string;
+  name: string;
+  mode: AppMode;
+  startedAt: Date;
+  // Time of the last recorded entry; undefined until something is said.
+  endedAt?: Date;
+  entryCount: number;
+  preview?: string;
 }
 
 export enum ConnectionStatus {
@@ -15,6 +151,84 @@ export enum ConnectionStatus {
   ERROR = 'ERROR'
 }
 
+export enum InputMode {
+  // Stream the microphone for the whole session.
+  CONTINUOUS = 'CONTINUOUS',
+  HOLD = 'HOLD',
+  TOGGLE = 'TOGGLE',
+  // Local voice-activity detection on the capture RMS.
+  VAD = 'VAD'
+}
+
+export interface VadSettings {
+  // RMS that opens the gate.
+  startThreshold: number;
+  // RMS below which the gate counts as silent; lower than startThreshold to avoid flapping.
+  stopThreshold: number;
+  // Silence tolerated before the gate closes, so pauses between words are kept.
+  hangoverMs: number;
+}
+
+export interface InputSettings {
+  mode: InputMode;
+  vad: VadSettings;
+}
+
+export interface StandbySettings {
+  // Silence before the session naps; 0 keeps it awake.
+  napAfterSeconds: number;
+  // 0–1; higher accepts looser matches of the wake word.
+  wakeSensitivity: number;
+}
+
+export interface CaptionSettings {
+  // Caption text size in pixels.
+  fontSize: number;
+  // Light text on black, for low vision and bright rooms.
+  highContrast: boolean;
+}
+
+export type PiiCategory = 'name' | 'phone' | 'email' | 'address' | 'id';
+
+export interface PrivacySettings {
+  // Mask personal details in transcripts before they are stored or exported.
+  redact: boolean;
+  categories: PiiCategory[];
+  // Extra text or /regex/ patterns to mask, e.g. a clinic's patient number format.
+  customPatterns: string[];
+  // Delete history older than this; 0 keeps it until deleted by hand.
+  retentionDays: number;
+}
+
+export enum Formality {
+  CASUAL = 'CASUAL',
+  NEUTRAL = 'NEUTRAL',
+  POLITE = 'POLITE',
+  // Deferential register for officials, elders and ceremonies.
+  FORMAL = 'FORMAL'
+}
+
+export interface SessionSettings {
+  // Prebuilt voice the backend speaks with.
+  voiceName: string;
+  // Live model id; empty uses the provider's default.
+  model: string;
+  // Capture device; empty uses the system default.
+  microphoneId: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  // Playback speed of spoken replies, 1 is as delivered.
+  speechRate: number;
+  // Output level for spoken replies, 0–1.
+  playbackVolume: number;
+  // Cut the model's speech as soon as the mic hears the user talking.
+  bargeIn: boolean;
+  formality: Formality;
+  // Keep an audio record of live sessions; off unless everyone has agreed to it.
+  recordAudio: boolean;
+}
+
 export enum AppMode {
   TRANSLATE = 'TRANSLATE',
   CHAT = 'CHAT'
@@ -1,18 +1,23 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { serviceWorkerPlugin } from './service-worker-plugin';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    // A key in the bundle can be read by anyone, so only the local dev server gets one.
+    // Deployed builds use a key entered on the device or tokens from TOKEN_BROKER_URL.
+    const devApiKey = command === 'serve' && mode === 'development' ? env.GEMINI_API_KEY : '';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorkerPlugin()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(devApiKey || ''),
+        'process.env.TOKEN_BROKER_URL': JSON.stringify(env.TOKEN_BROKER_URL || ''),
+        'process.env.TRANSLATION_PROVIDER': JSON.stringify(env.TRANSLATION_PROVIDER)
       },
       resolve: {
         alias: {